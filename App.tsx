@@ -1,20 +1,44 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import * as Tone from 'tone';
 import { Controls } from './components/Controls';
 import { MeasureGrid } from './components/MeasureGrid';
 import { GuitarTuner } from './components/GuitarTuner';
-import { AudioState, LoadingState, ProcessingParams, Measure, GridConfig, Marker, RegionSelection, ProjectMeta } from './types';
-import { GRAIN_SIZE, OVERLAP } from './constants';
-import { WaveformTimeline } from './components/WaveformTimeline';
-import { ConfirmationModal, AlertModal } from './components/Modals';
+import { Visualizer } from './components/Visualizer';
+import { TrackPanel } from './components/TrackPanel';
+import { AudioState, LoadingState, ProcessingParams, Measure, GridConfig, Marker, RegionSelection, ProjectMeta, LoopSettings, SpeedTrainer, MetronomeSettings, TapMode, AudioTrack, TakeSettings, ChordPlaybackSettings, Section } from './types';
+import { AUTOSAVE_DELAY_MS, STRETCH_RENDER_DELAY_MS, PRIMARY_TRACK_ID, TRACK_COLORS, MAX_SPEED, METRONOME_INTERVAL_MS, METRONOME_LOOKAHEAD, XML_DIVISIONS } from './constants';
+import { WaveformTimeline, TimelineLane } from './components/WaveformTimeline';
+import { ConfirmationModal, AlertModal, OptionsModal, ExportAudioModal, AudioExportOptions, TransposeModal } from './components/Modals';
+import { createClickSynth, scheduleClick, buildClickTrack, getClicksInRange, ClickEvent } from './utils/metronome';
+import { ChordPlayer, ChordHit, buildChordTrack, hitSoundingAt } from './utils/chordPlayer';
+import { getBeatsPerMeasure, getMeasureLayout, gridFromDownbeats, bpmForMeasureDuration, applyTappedBoundaries } from './utils/grid';
+import { estimateTapInterval } from './utils/tapTempo';
+import { fifthsToKey, keyToFifths, pitchClassName, keyName, transposeKey, parseNote, noteName } from './utils/music';
+import { BeatAnalysis, BeatTrackerRequest, BeatTrackerResponse } from './utils/beatTracker';
+import { ChordRecognitionRequest, ChordRecognitionResponse, ChordSegment, CHORD_TYPES } from './utils/chordRecognition';
+import { parseMeasureChords, transposeChord, mapCellChords, formatMeasureChords, chordsPerBeat, chordFromMusicXml, musicXmlHarmony, formatChord, parseChord, NO_CHORD, MusicXmlDegree, Chord } from './utils/chords';
+import { cellToKey } from './utils/numerals';
+import { RehearsalMark, addSection, insertIntoSections, removeFromSections, duplicateMeasures, moveSection, sectionMeasureIndices, sectionSpan, sectionsFromMarks } from './utils/sections';
+import { KeyCandidate, KeyDetectionRequest, KeyDetectionResponse, chordPitchHistogram } from './utils/keyDetection';
+import { TuningRequest, TuningResponse } from './utils/tuning';
+import { AlignmentRequest, AlignmentResponse } from './utils/alignment';
+import { renderProcessedAudio, exportFileName } from './utils/audioExport';
+import { encodeWav } from './utils/wav';
+import { runWorker, copyChannels } from './utils/workers';
+import { createIsolationChain, IsolationChain } from './utils/isolation';
+import { StretchRenderState } from './utils/stretchPlayer';
+import { MultiTrackPlayer, isTrackAudible } from './utils/trackMixer';
+import { PracticeRecorder, roundTripLatency } from './utils/practiceRecorder';
+import { createParametricEq, ParametricEq, BUILT_IN_EQ_PRESETS, bandsFromEq3, LegacyEqParams } from './utils/parametricEq';
+import { saveAudioToDB, loadAudioFromDB, deleteAudioFromDB, saveStateToDB, loadStateFromDB, getProjects, saveProjectMeta, deleteProject, PersistedState } from './utils/storage';
 
-type GrainPlayerType = Tone.GrainPlayer;
 
 interface HistoryState {
     measures: Measure[];
     gridConfig: GridConfig;
     markers: Marker[];
+    sections: Section[];
 }
 
 // In-memory cache for tabs so we don't lose data when switching
@@ -22,7 +46,9 @@ interface CachedProjectData {
     measures: Measure[];
     gridConfig: GridConfig;
     markers: Marker[];
+    sections: Section[];
     params: ProcessingParams;
+    trainer: SpeedTrainer;
     history: HistoryState[];
     historyIndex: number;
     // Audio Data
@@ -30,54 +56,80 @@ interface CachedProjectData {
     audioFileName: string;
     audioUrl: string | null;
     audioDuration: number;
+    tracks: AudioTrack[];
+    trackBuffers: Record<string, Tone.ToneAudioBuffer>; // Decoded audio of the non-primary tracks
 }
 
-const NOTES_SHARP = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const NOTES_FLAT  = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+// Decodes an audio file/blob into a Tone buffer using the shared context
+const decodeAudioBlob = async (file: Blob): Promise<Tone.ToneAudioBuffer> => {
+    const arrayBuffer = await file.arrayBuffer();
+    if (Tone.getContext().state === 'suspended') {
+        await Tone.getContext().resume();
+    }
+    const audioContext = Tone.getContext().rawContext;
+    const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer);
+    return new Tone.ToneAudioBuffer(decodedBuffer);
+};
 
-// Helper to convert circle of fifths to key string
-const fifthsToKey = (fifths: number, mode: string = 'major'): string => {
-    const majorKeys: {[key: number]: string} = {
-        0: 'C', 1: 'G', 2: 'D', 3: 'A', 4: 'E', 5: 'B', 6: 'F#', 7: 'C#',
-        [-1]: 'F', [-2]: 'Bb', [-3]: 'Eb', [-4]: 'Ab', [-5]: 'Db', [-6]: 'Gb', [-7]: 'Cb'
-    };
+const DEFAULT_TRAINER: SpeedTrainer = {
+    enabled: false,
+    startSpeed: 0.6,
+    targetSpeed: 1.0,
+    step: 0.05,
+    repsPerStep: 3,
+    repsDone: 0
+};
 
-    let key = majorKeys[fifths] || 'C';
-    
-    if (mode === 'minor') {
-       let idx = NOTES_SHARP.indexOf(key);
-       if (idx === -1) idx = NOTES_FLAT.indexOf(key);
-       if (idx !== -1) {
-           let minIdx = (idx - 3 + 12) % 12;
-           const useFlat = fifths < 0 || key.includes('b');
-           key = (useFlat ? NOTES_FLAT[minIdx] : NOTES_SHARP[minIdx]) + 'm';
-       }
-    }
-    return key;
+const DEFAULT_PARAMS: ProcessingParams = {
+    speed: 1.0,
+    pitch: 0,
+    cents: 0,
+    volume: -5,
+    eqBands: BUILT_IN_EQ_PRESETS[0].bands,
+    center: 'normal',
+    channel: 'stereo',
+    balance: 0,
+    focus: 'off',
+    stretchMode: 'realtime'
 };
 
-// Helper to convert key string to circle of fifths number
-const keyToFifths = (keyStr: string): number => {
-    const isMinor = keyStr.endsWith('m');
-    let root = keyStr.replace('m', '');
-    
-    if (isMinor) {
-        let idx = NOTES_SHARP.indexOf(root);
-        if (idx === -1) idx = NOTES_FLAT.indexOf(root);
-        if (idx !== -1) {
-            let majIdx = (idx + 3) % 12;
-            root = NOTES_SHARP[majIdx]; 
-            if (['D#', 'G#', 'A#'].includes(root)) root = NOTES_FLAT[majIdx]; 
-        }
+// Projects saved before a parameter existed get its default value;
+// the old three-band EQ values are converted into parametric bands
+const withDefaultParams = (stored?: Partial<ProcessingParams> & LegacyEqParams): ProcessingParams => {
+    const { eqLow, eqMid, eqHigh, ...rest } = stored || {};
+    const params = { ...DEFAULT_PARAMS, ...rest };
+    if (!rest.eqBands && (eqLow !== undefined || eqMid !== undefined || eqHigh !== undefined)) {
+        params.eqBands = bandsFromEq3(eqLow || 0, eqMid || 0, eqHigh || 0);
     }
+    return params;
+};
 
-    const majorFifths: {[key: string]: number} = {
-        'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5, 'F#': 6, 'C#': 7,
-        'F': -1, 'Bb': -2, 'Eb': -3, 'Ab': -4, 'Db': -5, 'Gb': -6, 'Cb': -7
-    };
+const trackName = (fileName: string) => fileName.replace(/\.[^./]+$/, '') || 'Pista';
 
-    return majorFifths[root] !== undefined ? majorFifths[root] : 0;
-};
+const createTrack = (id: string, fileName: string): AudioTrack => ({
+    id,
+    name: trackName(fileName),
+    fileName,
+    offset: 0,
+    gain: 0,
+    mute: false,
+    solo: false,
+    eqBands: BUILT_IN_EQ_PRESETS[0].bands
+});
+
+// Projects saved before tracks existed get a primary track for their single audio file
+const withPrimaryTrack = (tracks: AudioTrack[] | undefined, fileName: string): AudioTrack[] =>
+    tracks && tracks.length > 0 ? tracks : [createTrack(PRIMARY_TRACK_ID, fileName)];
+
+const isLoopRegion = (sel: RegionSelection) => sel.active && sel.end - sel.start > 0.05;
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Measure-based selections can run past the end of the audio
+const clampRegion = (sel: RegionSelection, duration: number): RegionSelection => ({
+    ...sel,
+    end: Math.min(sel.end, duration)
+});
 
 
 const App: React.FC = () => {
@@ -86,10 +138,11 @@ const App: React.FC = () => {
   const [statusMessage, setStatusMessage] = useState('');
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'dirty'>('saved');
   
-  // Projects System (Memory Only)
+  // Projects System (persisted in IndexedDB)
   const [projects, setProjects] = useState<ProjectMeta[]>([]);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
-  const [showNewProjectModal, setShowNewProjectModal] = useState(true);
+  const [showNewProjectModal, setShowNewProjectModal] = useState(false);
+  const [projectsRestored, setProjectsRestored] = useState(false);
   
   // Modals
   const [confirmationModal, setConfirmationModal] = useState<{ isOpen: boolean; message: string; onConfirm: () => void; onCancel: () => void } | null>(null);
@@ -97,6 +150,12 @@ const App: React.FC = () => {
 
   // Cache to hold state of inactive tabs
   const projectCache = useRef<Record<string, CachedProjectData>>({});
+  // Project whose data is currently in state (null while a tab is loading)
+  const loadedProjectIdRef = useRef<string | null>(null);
+  // Latest requested tab, so a slow load doesn't overwrite a newer switch
+  const pendingProjectIdRef = useRef<string | null>(null);
+  // Saved state a tab load put in place, until it is edited; the dirty check skips it
+  const loadedStateRef = useRef<unknown[] | null>(null);
 
   const [audioState, setAudioState] = useState<AudioState>({
     url: null,
@@ -108,14 +167,9 @@ const App: React.FC = () => {
     buffer: null,
   });
 
-  const [params, setParams] = useState<ProcessingParams>({
-    speed: 1.0,
-    pitch: 0,
-    volume: -5,
-    eqLow: 0,
-    eqMid: 0,
-    eqHigh: 0
-  });
+  const [params, setParams] = useState<ProcessingParams>(DEFAULT_PARAMS);
+
+  const [trainer, setTrainer] = useState<SpeedTrainer>(DEFAULT_TRAINER);
 
   const [selection, setSelection] = useState<RegionSelection>({
     active: false,
@@ -125,7 +179,47 @@ const App: React.FC = () => {
 
   const [selectedMeasureIndices, setSelectedMeasureIndices] = useState<number[]>([]);
 
+  const [loopSettings, setLoopSettings] = useState<LoopSettings>({
+    enabled: false,
+    countIn: 'none',
+    countInBeats: 4,
+    preRoll: 2
+  });
+  const [loopPass, setLoopPass] = useState(0); // Completed repetitions of the loop
+
+  const [metronome, setMetronome] = useState<MetronomeSettings>({
+    enabled: false,
+    volume: -10,
+    subdivision: 1
+  });
+
+  const [chordPlayback, setChordPlayback] = useState<ChordPlaybackSettings>({
+    enabled: false,
+    voice: 'piano',
+    volume: -14,
+    solo: false
+  });
+
+  const [isDetectingBeats, setIsDetectingBeats] = useState(false);
+  const [beatProposal, setBeatProposal] = useState<BeatAnalysis | null>(null);
+  const [isDetectingChords, setIsDetectingChords] = useState(false);
+  const [chordProposal, setChordProposal] = useState<string[] | null>(null); // Detected chords per measure
+  const [isDetectingKey, setIsDetectingKey] = useState(false);
+  const [isDetectingTuning, setIsDetectingTuning] = useState(false);
+  const [keyProposal, setKeyProposal] = useState<{ candidates: KeyCandidate[]; region: RegionSelection | null; usedChords: boolean } | null>(null);
+
+  const [tapMode, setTapMode] = useState<TapMode>('off');
+  const [taps, setTaps] = useState<number[]>([]); // Tapped audio positions (seconds)
+
   const [showTuner, setShowTuner] = useState(false);
+  const [showExportAudio, setShowExportAudio] = useState(false);
+  const [showTranspose, setShowTranspose] = useState(false);
+  const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [showVisualizer, setShowVisualizer] = useState(false);
+  const [showTracks, setShowTracks] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [aligningTrackId, setAligningTrackId] = useState<string | null>(null);
+  const [stretchRenderState, setStretchRenderState] = useState<StretchRenderState>('idle');
   const [autoScroll, setAutoScroll] = useState(true);
   const [isDragging, setIsDragging] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -142,14 +236,26 @@ const App: React.FC = () => {
   });
   const [measures, setMeasures] = useState<Measure[]>([]);
   const [markers, setMarkers] = useState<Marker[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [tracks, setTracks] = useState<AudioTrack[]>(() => withPrimaryTrack(undefined, ''));
+  const [trackBuffers, setTrackBuffers] = useState<Record<string, Tone.ToneAudioBuffer>>({});
 
   // -- History State --
   const [history, setHistory] = useState<HistoryState[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
 
   // --- Refs ---
-  const playerRef = useRef<GrainPlayerType | null>(null);
-  const eqRef = useRef<Tone.EQ3 | null>(null);
+  const playerRef = useRef<MultiTrackPlayer | null>(null);
+  const eqRef = useRef<ParametricEq | null>(null);
+  const isolationRef = useRef<IsolationChain | null>(null);
+  const analysersRef = useRef<{ waveform: Tone.Waveform; fft: Tone.FFT } | null>(null);
+  const clickRef = useRef<Tone.Synth | null>(null);
+  const metronomeSynthRef = useRef<Tone.Synth | null>(null);
+  const metronomeScheduledUntilRef = useRef(0); // Context time clicks are scheduled up to
+  const chordPlayerRef = useRef<ChordPlayer | null>(null);
+  const chordsScheduledUntilRef = useRef(0); // Context time chord hits are scheduled up to
+  const chordsScheduledPosRef = useRef<number | null>(null); // Timeline position they reach, null after a reset
+  const loopRegionRef = useRef<RegionSelection | null>(null); // Region the current loop playback was started on
   const fileInputRef = useRef<HTMLInputElement>(null);
   const jsonInputRef = useRef<HTMLInputElement>(null);
   const xmlInputRef = useRef<HTMLInputElement>(null);
@@ -158,6 +264,15 @@ const App: React.FC = () => {
   const playbackStartTimeRef = useRef<number>(0);
   const playbackOffsetRef = useRef<number>(0);
 
+  // Take being recorded: where its first sample sits on the timeline and what it plays against
+  const recordingRef = useRef<{
+      recorder: PracticeRecorder;
+      projectId: string;
+      offset: number;
+      settings: TakeSettings;
+      loopPass: number;
+  } | null>(null);
+
   // --- Helpers ---
   const getStandardDuration = useCallback(() => {
     let effectiveBpm = gridConfig.bpm;
@@ -168,6 +283,11 @@ const App: React.FC = () => {
     return (beats * 60) / effectiveBpm;
   }, [gridConfig]);
 
+  // Duration of one beat (time signature denominator) in audio seconds
+  const getBeatDuration = useCallback(() => {
+    return getStandardDuration() / gridConfig.tsTop;
+  }, [getStandardDuration, gridConfig.tsTop]);
+
   const syncSelectionWithMeasures = useCallback((indices: number[]) => {
     if (indices.length === 0) {
         setSelection({ active: false, start: 0, end: 0 });
@@ -204,7 +324,12 @@ const App: React.FC = () => {
 
 
   // --- Audio Initialization ---
-  const initAudio = async (buffer: Tone.ToneAudioBuffer, currentParams: ProcessingParams = params) => {
+  const initAudio = async (
+    buffer: Tone.ToneAudioBuffer,
+    currentParams: ProcessingParams = params,
+    currentTracks: AudioTrack[] = tracks,
+    currentTrackBuffers: Record<string, Tone.ToneAudioBuffer> = trackBuffers
+  ) => {
     if (playerRef.current) {
       playerRef.current.dispose();
       playerRef.current = null;
@@ -213,21 +338,38 @@ const App: React.FC = () => {
       eqRef.current.dispose();
       eqRef.current = null;
     }
+    if (isolationRef.current) {
+      isolationRef.current.dispose();
+      isolationRef.current = null;
+    }
+    if (analysersRef.current) {
+      analysersRef.current.waveform.dispose();
+      analysersRef.current.fft.dispose();
+      analysersRef.current = null;
+    }
     
-    const player = new Tone.GrainPlayer(buffer);
-    player.grainSize = GRAIN_SIZE;
-    player.overlap = OVERLAP;
+    const player = await MultiTrackPlayer.create(buffer, currentParams.stretchMode);
+    player.onRenderStateChange = setStretchRenderState;
+    await player.setTracks(currentTracks, { ...currentTrackBuffers, [PRIMARY_TRACK_ID]: buffer });
     
-    const eq = new Tone.EQ3(currentParams.eqLow, currentParams.eqMid, currentParams.eqHigh);
+    const isolation = createIsolationChain(currentParams);
+    const eq = createParametricEq(currentParams.eqBands);
     
-    // Connected directly to destination, removing unused analyser
-    player.chain(eq, Tone.Destination);
+    // Analysers tap the processed signal for the live visualizer
+    const waveform = new Tone.Waveform(1024);
+    const fft = new Tone.FFT(8192);
+    player.connect(isolation.input);
+    isolation.output.connect(eq.input);
+    eq.output.connect(Tone.Destination);
+    eq.output.fan(waveform, fft);
 
     playerRef.current = player;
     eqRef.current = eq;
+    isolationRef.current = isolation;
+    analysersRef.current = { waveform, fft };
 
     player.playbackRate = currentParams.speed;
-    player.detune = currentParams.pitch * 100;
+    player.detune = currentParams.pitch * 100 + currentParams.cents;
     player.volume.value = currentParams.volume;
 
     let effectiveBpm = gridConfig.bpm;
@@ -247,12 +389,76 @@ const App: React.FC = () => {
 
   // --- Project Management Functions ---
 
-  // Startup Logic
+  // Startup Logic: restore the tab list from IndexedDB
   useEffect(() => {
-      if (projects.length === 0) {
+      getProjects()
+          .then(stored => {
+              if (stored.length > 0) {
+                  // Tabs keep their order; the one opened last comes back active
+                  const last = stored.reduce((a, b) => (b.lastOpened > a.lastOpened ? b : a));
+                  setProjects(stored);
+                  setActiveProjectId(last.id);
+                  loadFromCache(last.id);
+              }
+          })
+          .catch(err => console.error("Error restoring projects:", err))
+          .finally(() => setProjectsRestored(true));
+  }, []);
+
+  useEffect(() => {
+      if (projectsRestored && projects.length === 0) {
           setShowNewProjectModal(true);
       }
-  }, [projects]);
+  }, [projects, projectsRestored]);
+
+  // Helper: Write the given project state to IndexedDB
+  const persistProject = async (projectId: string, state: PersistedState) => {
+      setSaveStatus('saving');
+      try {
+          await saveStateToDB(state, projectId);
+          setSaveStatus(prev => prev === 'saving' ? 'saved' : prev);
+      } catch (err) {
+          console.error("Error saving project:", err);
+          setSaveStatus('dirty');
+      }
+  };
+
+  const getPersistedState = (): PersistedState => ({
+      measures,
+      gridConfig,
+      markers,
+      sections,
+      params,
+      trainer,
+      tracks,
+      fileName: audioState.fileName,
+      timestamp: Date.now()
+  });
+
+  // Helper: Build a cache entry for a tab that only exists in IndexedDB
+  const restoreFromDB = async (projectId: string): Promise<CachedProjectData> => {
+      const stored = await loadStateFromDB(projectId);
+      const measures = stored?.measures || [];
+      const gridConfig = stored?.gridConfig || { bpm: 120, tsTop: 4, tsBottom: 4, keySignature: 'C', offset: 0, beatUnit: 'quarter' };
+      const markers = stored?.markers || [];
+      const sections = stored?.sections || [];
+      return {
+          measures,
+          gridConfig,
+          markers,
+          sections,
+          params: withDefaultParams(stored?.params),
+          trainer: stored?.trainer || DEFAULT_TRAINER,
+          history: [{ measures, gridConfig, markers, sections }],
+          historyIndex: 0,
+          audioBuffer: null,
+          audioFileName: stored?.fileName || '',
+          audioUrl: null,
+          audioDuration: 0,
+          tracks: withPrimaryTrack(stored?.tracks, stored?.fileName || ''),
+          trackBuffers: {}
+      };
+  };
 
   // Helper: Save current tab state to memory cache
   const saveCurrentToCache = (projectId: string) => {
@@ -260,20 +466,25 @@ const App: React.FC = () => {
           measures,
           gridConfig,
           markers,
+          sections,
           params,
+          trainer,
           history,
           historyIndex,
           audioBuffer: audioState.buffer,
           audioFileName: audioState.fileName,
           audioUrl: audioState.url,
-          audioDuration: audioState.duration
+          audioDuration: audioState.duration,
+          tracks,
+          trackBuffers
       };
   };
 
-  // Helper: Load tab state from memory cache
+  // Helper: Load tab state from memory cache (falling back to IndexedDB)
   const loadFromCache = async (projectId: string) => {
-      const data = projectCache.current[projectId];
-      if (!data) return;
+      loadedProjectIdRef.current = null;
+      loadedStateRef.current = null;
+      pendingProjectIdRef.current = projectId;
 
       setLoadingState(LoadingState.PROCESSING);
       setStatusMessage('Cambiando proyecto...');
@@ -284,10 +495,50 @@ const App: React.FC = () => {
           setAudioState(prev => ({ ...prev, isPlaying: false }));
       }
 
+      let data = projectCache.current[projectId];
+      try {
+          if (!data) {
+              data = await restoreFromDB(projectId);
+              projectCache.current[projectId] = data;
+          }
+
+          // Lazy audio decoding for tabs restored from a previous session
+          if (!data.audioBuffer) {
+              const storedAudio = await loadAudioFromDB(projectId);
+              if (storedAudio) {
+                  setStatusMessage('Decodificando audio...');
+                  const buffer = await decodeAudioBlob(storedAudio.blob);
+                  data.audioBuffer = buffer;
+                  data.audioDuration = buffer.duration;
+                  data.audioUrl = URL.createObjectURL(storedAudio.blob);
+                  data.audioFileName = data.audioFileName || storedAudio.fileName;
+              }
+          }
+          for (const track of data.tracks) {
+              if (track.id === PRIMARY_TRACK_ID || data.trackBuffers[track.id]) continue;
+              const storedTrack = await loadAudioFromDB(projectId, track.id);
+              if (storedTrack) data.trackBuffers[track.id] = await decodeAudioBlob(storedTrack.blob);
+          }
+      } catch (err) {
+          console.error(err);
+          if (!data) {
+              setLoadingState(LoadingState.ERROR);
+              setStatusMessage('Error al cargar el proyecto.');
+              return;
+          }
+      }
+
+      // A newer tab switch happened while we were reading from the DB
+      if (pendingProjectIdRef.current !== projectId) return;
+
       setMeasures(data.measures);
       setGridConfig(data.gridConfig);
       setMarkers(data.markers);
+      setSections(data.sections);
       setParams(data.params);
+      setTrainer(data.trainer);
+      setTracks(data.tracks);
+      setTrackBuffers(data.trackBuffers);
       setHistory(data.history);
       setHistoryIndex(data.historyIndex);
 
@@ -303,24 +554,46 @@ const App: React.FC = () => {
 
       // Re-initialize audio node if buffer exists
       if (data.audioBuffer) {
-          await initAudio(data.audioBuffer, data.params);
+          await initAudio(data.audioBuffer, data.params, data.tracks, data.trackBuffers);
       } else {
           setLoadingState(LoadingState.IDLE);
       }
       
+      loadedProjectIdRef.current = projectId;
+      loadedStateRef.current = [data.measures, data.gridConfig, data.markers, data.sections, data.params, data.trainer, data.tracks, data.audioFileName];
+      setSaveStatus('saved');
       setStatusMessage('');
   };
 
+  // Helper: Flush pending edits of the current tab before leaving it
+  const flushCurrentProject = () => {
+      const loadedId = loadedProjectIdRef.current;
+      if (loadedId && saveStatus === 'dirty') {
+          persistProject(loadedId, getPersistedState());
+      }
+  };
+
+  const touchProject = (projectId: string) => {
+      const meta = projects.find(p => p.id === projectId);
+      if (!meta) return;
+      // Older projects keep the place they sorted into before they had a creation time
+      const updated = { ...meta, createdAt: meta.createdAt ?? meta.lastOpened, lastOpened: Date.now() };
+      setProjects(prev => prev.map(p => p.id === projectId ? updated : p));
+      saveProjectMeta(updated).catch(err => console.error(err));
+  };
+
   const handleSwitchProject = (newProjectId: string) => {
       if (activeProjectId === newProjectId) return;
       
       // Save current
       if (activeProjectId) {
+          flushCurrentProject();
           saveCurrentToCache(activeProjectId);
       }
       
       // Set new active
       setActiveProjectId(newProjectId);
+      touchProject(newProjectId);
       
       // Load new
       loadFromCache(newProjectId);
@@ -331,7 +604,8 @@ const App: React.FC = () => {
       const newProject: ProjectMeta = {
           id: newId,
           name: 'Proyecto Cuchá',
-          lastOpened: Date.now()
+          lastOpened: Date.now(),
+          createdAt: Date.now()
       };
       
       // Initialize Cache for this new project
@@ -339,20 +613,26 @@ const App: React.FC = () => {
           measures: [],
           gridConfig: { bpm: 120, tsTop: 4, tsBottom: 4, keySignature: 'C', offset: 0, beatUnit: 'quarter' },
           markers: [],
-          params: { speed: 1.0, pitch: 0, volume: -5, eqLow: 0, eqMid: 0, eqHigh: 0 },
+          sections: [],
+          params: DEFAULT_PARAMS,
+          trainer: DEFAULT_TRAINER,
           history: [],
           historyIndex: -1,
           audioBuffer: null,
           audioFileName: '',
           audioUrl: null,
-          audioDuration: 0
+          audioDuration: 0,
+          tracks: withPrimaryTrack(undefined, ''),
+          trackBuffers: {}
       };
 
       // If we are switching from another project, save that first
       if (activeProjectId) {
+          flushCurrentProject();
           saveCurrentToCache(activeProjectId);
       }
 
+      saveProjectMeta(newProject).catch(err => console.error(err));
       setProjects(prev => [...prev, newProject]);
       setActiveProjectId(newId);
       loadFromCache(newId);
@@ -374,22 +654,39 @@ const App: React.FC = () => {
                   measures: data.measures || [],
                   gridConfig: data.gridConfig || { bpm: 120, tsTop: 4, tsBottom: 4, keySignature: 'C', offset: 0, beatUnit: 'quarter' },
                   markers: data.markers || data.measuresMarkers || [],
-                  params: data.params || { speed: 1.0, pitch: 0, volume: -5, eqLow: 0, eqMid: 0, eqHigh: 0 },
+                  sections: data.sections || [],
+                  params: withDefaultParams(data.params),
+                  trainer: data.trainer || DEFAULT_TRAINER,
                   history: [], // Start with empty history for simplicity
                   historyIndex: -1,
                   audioBuffer: null, // Audio is NOT in JSON
                   audioFileName: newName,
                   audioUrl: null,
-                  audioDuration: 0
+                  audioDuration: 0,
+                  tracks: withPrimaryTrack(data.tracks, newName), // Track audio is NOT in JSON either
+                  trackBuffers: {}
               };
 
               projectCache.current[newId] = importedState;
               
               if (activeProjectId) {
+                  flushCurrentProject();
                   saveCurrentToCache(activeProjectId);
               }
 
-              const newProjectMeta: ProjectMeta = { id: newId, name: newName, lastOpened: Date.now() };
+              const newProjectMeta: ProjectMeta = { id: newId, name: newName, lastOpened: Date.now(), createdAt: Date.now() };
+              await saveProjectMeta(newProjectMeta);
+              await saveStateToDB({
+                  measures: importedState.measures,
+                  gridConfig: importedState.gridConfig,
+                  markers: importedState.markers,
+                  sections: importedState.sections,
+                  params: importedState.params,
+                  trainer: importedState.trainer,
+                  tracks: importedState.tracks,
+                  fileName: newName,
+                  timestamp: Date.now()
+              }, newId);
               setProjects(prev => [...prev, newProjectMeta]);
               setActiveProjectId(newId);
               loadFromCache(newId);
@@ -405,14 +702,19 @@ const App: React.FC = () => {
 
   const handleDownloadProject = () => {
       if (!activeProjectId) return;
-      setSaveStatus('saving');
+      if (loadedProjectIdRef.current === activeProjectId) {
+          persistProject(activeProjectId, getPersistedState());
+      }
       
       const projectData = {
           fileName: audioState.fileName,
           gridConfig,
           measures,
           markers,
-          params
+          sections,
+          params,
+          trainer,
+          tracks
       };
       
       const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
@@ -422,15 +724,15 @@ const App: React.FC = () => {
       a.download = `${audioState.fileName || 'cucha-project'}.json`;
       a.click();
       URL.revokeObjectURL(url);
-
-      setTimeout(() => {
-          setSaveStatus('saved');
-      }, 500);
   };
 
   const performCloseProject = (projectId: string) => {
-      // Remove from cache
+      // Remove from cache and from the browser storage
       delete projectCache.current[projectId];
+      deleteProject(projectId).catch(err => console.error(err));
+      if (loadedProjectIdRef.current === projectId) {
+          loadedProjectIdRef.current = null;
+      }
       
       const newProjects = projects.filter(p => p.id !== projectId);
       setProjects(newProjects);
@@ -453,7 +755,7 @@ const App: React.FC = () => {
 
       setConfirmationModal({
         isOpen: true,
-        message: '¿Cerrar este proyecto? Los cambios no guardados en archivo se perderán.',
+        message: '¿Cerrar este proyecto? Se eliminará de este navegador y los cambios no exportados a archivo se perderán.',
         onConfirm: () => performCloseProject(projectId),
         onCancel: () => setConfirmationModal(null)
       });
@@ -463,8 +765,22 @@ const App: React.FC = () => {
   useEffect(() => {
     if (!activeProjectId) return;
     if (loadingState !== LoadingState.READY && loadingState !== LoadingState.IDLE) return;
+    const current = [measures, gridConfig, markers, sections, params, trainer, tracks, audioState.fileName];
+    if (loadedStateRef.current?.every((value, i) => value === current[i])) return;
+    loadedStateRef.current = null;
     setSaveStatus('dirty');
-  }, [measures, gridConfig, markers, params, audioState.fileName]);
+  }, [measures, gridConfig, markers, sections, params, trainer, tracks, audioState.fileName]);
+
+  // 4. AUTOSAVE (debounced) to IndexedDB
+  useEffect(() => {
+    if (saveStatus !== 'dirty') return;
+    const projectId = loadedProjectIdRef.current;
+    if (!projectId || projectId !== activeProjectId) return;
+
+    const state = getPersistedState();
+    const timer = setTimeout(() => persistProject(projectId, state), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [saveStatus, activeProjectId, measures, gridConfig, markers, sections, params, trainer, tracks, audioState.fileName]);
 
 
   // --- File Handling ---
@@ -473,30 +789,31 @@ const App: React.FC = () => {
     setStatusMessage('Decodificando audio...');
 
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      if (Tone.getContext().state === 'suspended') {
-          await Tone.getContext().resume();
-      }
-      const audioContext = Tone.getContext().rawContext;
-      const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      const toneBuffer = new Tone.ToneAudioBuffer(decodedBuffer);
+      const toneBuffer = await decodeAudioBlob(file);
       
       await initAudio(toneBuffer);
       
       const name = fileName || (file as File).name || 'Audio Importado';
       const url = URL.createObjectURL(file);
 
+      if (activeProjectId) {
+          saveAudioToDB(file, name, activeProjectId).catch(err => console.error("Error saving audio:", err));
+      }
+
       setAudioState(prev => ({
         ...prev,
         fileName: name,
         url: url
       }));
+      setTracks(prev => prev.map(t => t.id === PRIMARY_TRACK_ID ? { ...t, name: trackName(name), fileName: name } : t));
 
       // Update name in tabs if generic
       if (activeProjectId) {
           const currentProj = projects.find(p => p.id === activeProjectId);
           if (currentProj && currentProj.name === 'Proyecto Cuchá') {
-               setProjects(projects.map(p => p.id === activeProjectId ? { ...p, name: name } : p));
+               const renamed = { ...currentProj, name: name };
+               setProjects(projects.map(p => p.id === activeProjectId ? renamed : p));
+               saveProjectMeta(renamed).catch(err => console.error(err));
           }
       }
 
@@ -556,11 +873,12 @@ const App: React.FC = () => {
   };
 
   // --- History Management ---
-  const addToHistory = (ms: Measure[], gc: GridConfig, mks: Marker[]) => {
+  const addToHistory = (ms: Measure[], gc: GridConfig, mks: Marker[], secs: Section[] = sections) => {
       const newState = { 
           measures: JSON.parse(JSON.stringify(ms)), 
           gridConfig: { ...gc },
-          markers: JSON.parse(JSON.stringify(mks))
+          markers: JSON.parse(JSON.stringify(mks)),
+          sections: secs.map(sec => ({ ...sec }))
       };
       
       const newHistory = history.slice(0, historyIndex + 1);
@@ -576,6 +894,7 @@ const App: React.FC = () => {
           setMeasures(prevState.measures);
           setGridConfig(prevState.gridConfig);
           setMarkers(prevState.markers);
+          setSections(prevState.sections);
           setHistoryIndex(historyIndex - 1);
       }
   }, [history, historyIndex]);
@@ -586,6 +905,7 @@ const App: React.FC = () => {
           setMeasures(nextState.measures);
           setGridConfig(nextState.gridConfig);
           setMarkers(nextState.markers);
+          setSections(nextState.sections);
           setHistoryIndex(historyIndex + 1);
       }
   }, [history, historyIndex]);
@@ -596,6 +916,96 @@ const App: React.FC = () => {
   };
 
   // --- Playback Controls ---
+
+  // Schedules a single pass over `sel` preceded by the count-in (click or pre-roll).
+  // Used when the loop can't wrap natively inside the player.
+  const startLoopPass = (player: MultiTrackPlayer, sel: RegionSelection, settings: LoopSettings, when: number = Tone.now()) => {
+      const speed = player.playbackRate;
+      let audioStart = when;
+      let offset = sel.start;
+
+      if (settings.countIn === 'click') {
+          if (!clickRef.current) clickRef.current = createClickSynth();
+          const beat = getBeatDuration() / speed;
+          for (let i = 0; i < settings.countInBeats; i++) {
+              scheduleClick(clickRef.current, when + i * beat, i === 0 ? 'accent' : 'beat');
+          }
+          audioStart = when + settings.countInBeats * beat;
+      } else if (settings.countIn === 'preroll') {
+          offset = Math.max(0, sel.start - settings.preRoll);
+      }
+
+      player.loop = false;
+      player.start(audioStart, offset, (sel.end - offset) / speed);
+      playbackStartTimeRef.current = audioStart;
+      playbackOffsetRef.current = offset;
+  };
+
+  // Starts the player at `from`, looping over `sel` when loop mode is enabled.
+  // Returns the position playback actually starts from.
+  const startPlayback = (from: number, region: RegionSelection = selection, settings: LoopSettings = loopSettings): number => {
+      const player = playerRef.current;
+      if (!player) return from;
+      const sel = clampRegion(region, player.buffer.duration);
+
+      player.stop();
+      setLoopPass(0);
+      loopRegionRef.current = settings.enabled && isLoopRegion(sel) ? region : null;
+
+      if (loopRegionRef.current) {
+          if (settings.countIn === 'none') {
+              // Seamless: let the player wrap sample-accurately on loopStart/loopEnd.
+              // Starting before the region plays into it as a lead-in.
+              const offset = from < sel.end ? from : sel.start;
+              player.loop = true;
+              player.loopStart = sel.start;
+              player.loopEnd = sel.end;
+              player.start(undefined, offset);
+              playbackStartTimeRef.current = Tone.now();
+              playbackOffsetRef.current = offset;
+          } else {
+              startLoopPass(player, sel, settings);
+          }
+          return playbackOffsetRef.current;
+      }
+
+      player.loop = false;
+      player.start(undefined, from);
+      playbackStartTimeRef.current = Tone.now();
+      playbackOffsetRef.current = from;
+      return from;
+  };
+
+  // Drops clicks already scheduled ahead so the scheduler can start over from now
+  const resetMetronome = () => {
+      if (metronomeSynthRef.current) {
+          metronomeSynthRef.current.dispose();
+          metronomeSynthRef.current = null;
+      }
+      metronomeScheduledUntilRef.current = 0;
+  };
+
+  // Same for the chord chart: cuts the ringing chords and scheduled hits
+  const resetChordPlayer = () => {
+      if (chordPlayerRef.current) {
+          chordPlayerRef.current.dispose();
+          chordPlayerRef.current = null;
+      }
+      chordsScheduledUntilRef.current = 0;
+      chordsScheduledPosRef.current = null;
+  };
+
+  const stopPlayback = () => {
+      playerRef.current?.stop();
+      // Drop any count-in clicks that are still scheduled
+      if (clickRef.current) {
+          clickRef.current.dispose();
+          clickRef.current = null;
+      }
+      resetMetronome();
+      resetChordPlayer();
+  };
+
   const togglePlay = useCallback(async () => {
     if (!playerRef.current) return;
 
@@ -604,27 +1014,21 @@ const App: React.FC = () => {
     }
 
     if (audioState.isPlaying) {
-      playerRef.current.stop();
+      stopPlayback();
       setAudioState(prev => ({ ...prev, isPlaying: false }));
     } else {
-      playerRef.current.loop = false;
-      playerRef.current.start(undefined, audioState.currentTime);
-      
-      playbackStartTimeRef.current = Tone.now();
-      playbackOffsetRef.current = audioState.currentTime;
-
-      setAudioState(prev => ({ ...prev, isPlaying: true }));
+      const from = startPlayback(audioState.currentTime);
+      setAudioState(prev => ({ ...prev, isPlaying: true, currentTime: from }));
     }
-  }, [audioState.isPlaying, audioState.currentTime]);
+  }, [audioState.isPlaying, audioState.currentTime, selection, loopSettings, getBeatDuration]);
 
   const handleSeek = (time: number) => {
-    const newTime = Math.max(0, Math.min(time, audioState.duration));
+    if (recordingRef.current) finishRecording();
+    let newTime = Math.max(0, Math.min(time, audioState.duration));
     
     if (playerRef.current && audioState.isPlaying) {
-        playerRef.current.stop();
-        playerRef.current.start(undefined, newTime);
-        playbackStartTimeRef.current = Tone.now();
-        playbackOffsetRef.current = newTime;
+        stopPlayback();
+        newTime = startPlayback(newTime);
     }
     
     setAudioState(prev => ({ ...prev, currentTime: newTime }));
@@ -633,51 +1037,70 @@ const App: React.FC = () => {
   const handlePlayRegion = (start: number, duration: number) => {
       if (!playerRef.current) return;
       if (Tone.getContext().state !== 'running') Tone.start();
+      if (recordingRef.current) finishRecording();
 
-      playerRef.current.stop();
-      playerRef.current.loop = false;
-      playerRef.current.start(undefined, start, duration);
-      
-      playbackStartTimeRef.current = Tone.now();
-      playbackOffsetRef.current = start;
+      const sel = { active: true, start: start, end: start + duration };
+
+      if (loopSettings.enabled) {
+          stopPlayback();
+          startPlayback(start, sel);
+      } else {
+          playerRef.current.stop();
+          playerRef.current.loop = false;
+          playerRef.current.start(undefined, start, duration);
+          
+          playbackStartTimeRef.current = Tone.now();
+          playbackOffsetRef.current = start;
+      }
       
-      setSelection({ active: true, start: start, end: start + duration });
+      setSelection(sel);
       setAudioState(prev => ({ ...prev, isPlaying: true, currentTime: start }));
   };
 
-  // --- Duplicate Logic ---
-  const handleDuplicateSelection = useCallback(() => {
-      if (selectedMeasureIndices.length === 0) return;
-
-      const sortedIndices = [...selectedMeasureIndices].sort((a, b) => a - b);
-      const insertPointIndex = sortedIndices[sortedIndices.length - 1];
-      
-      const measuresToDuplicate = measures.filter(m => sortedIndices.includes(m.index));
-      if (measuresToDuplicate.length === 0) return;
-
-      const newBlock = measuresToDuplicate.map(m => ({
-          ...m,
-          index: 0
-      }));
+  // Follow selection changes while a loop is playing
+  useEffect(() => {
+      const player = playerRef.current;
+      const loopRegion = loopRegionRef.current;
+      if (!player || !audioState.isPlaying || !loopRegion) return;
+      if (selection.active && selection.start === loopRegion.start && selection.end === loopRegion.end) return;
+
+      if (player.loop && loopSettings.enabled && isLoopRegion(selection)) {
+          player.loopStart = selection.start;
+          player.loopEnd = Math.min(selection.end, player.buffer.duration);
+          loopRegionRef.current = selection;
+      } else {
+          stopPlayback();
+          const from = startPlayback(audioState.currentTime);
+          setAudioState(prev => ({ ...prev, currentTime: from }));
+      }
+  }, [selection]);
+
+  const handleLoopSettingsChange = (next: LoopSettings) => {
+      setLoopSettings(next);
+      if (audioState.isPlaying) {
+          stopPlayback();
+          const from = startPlayback(audioState.currentTime, selection, next);
+          setAudioState(prev => ({ ...prev, currentTime: from }));
+      }
+  };
 
-      const newMeasuresList = [...measures];
-      newMeasuresList.splice(insertPointIndex, 0, ...newBlock);
+  // --- Duplicate Logic ---
+  // Copies the measures after the last of them, along with the sections they cover, and selects the copies
+  const duplicateMeasureBlock = (indices: number[]) => {
+      if (indices.length === 0) return;
 
-      const reindexed = newMeasuresList.map((m, i) => ({
-          ...m,
-          index: i + 1
-      }));
+      const result = duplicateMeasures(measures, sections, indices);
+      if (result.copied.length === 0) return;
+      const reindexed = result.measures;
 
       setMeasures(reindexed);
-      addToHistory(reindexed, gridConfig, markers);
+      setSections(result.sections);
+      addToHistory(reindexed, gridConfig, markers, result.sections);
       setSaveStatus('dirty');
 
-      const newSelectionStart = insertPointIndex + 1;
-      const newSelectionEnd = insertPointIndex + newBlock.length;
-      const newSelectionIndices = [];
-      for(let i=newSelectionStart; i<=newSelectionEnd; i++) newSelectionIndices.push(i);
-      
-      setSelectedMeasureIndices(newSelectionIndices);
+      const newSelectionStart = result.copied[0];
+      const newSelectionEnd = result.copied[result.copied.length - 1];
+      setSelectedMeasureIndices(result.copied);
       
       let t = gridConfig.offset;
       let start = -1, end = -1;
@@ -697,8 +1120,11 @@ const App: React.FC = () => {
              setAudioState(prev => ({ ...prev, currentTime: start }));
           }
       }
+  };
 
-  }, [measures, selectedMeasureIndices, gridConfig, markers, history, historyIndex, getStandardDuration, audioState.isPlaying]);
+  const handleDuplicateSelection = useCallback(() => {
+      duplicateMeasureBlock(selectedMeasureIndices);
+  }, [measures, sections, selectedMeasureIndices, gridConfig, markers, history, historyIndex, getStandardDuration, audioState.isPlaying]);
 
 
   // --- Keyboard Shortcuts ---
@@ -753,12 +1179,37 @@ const App: React.FC = () => {
               handleDuplicateSelection();
               return;
           }
+          if (tapMode !== 'off' && e.code === 'KeyT' && !e.repeat) {
+              e.preventDefault();
+              handleTap();
+              return;
+          }
+          if (tapMode !== 'off' && e.code === 'Enter') {
+              e.preventDefault();
+              handleTapModeChange('off');
+              return;
+          }
+          if (tapMode !== 'off' && e.code === 'Escape') {
+              e.preventDefault();
+              handleTapCancel();
+              return;
+          }
+          if (e.code === 'KeyL' && !e.ctrlKey && !e.metaKey) {
+              e.preventDefault();
+              handleLoopSettingsChange({ ...loopSettings, enabled: !loopSettings.enabled });
+              return;
+          }
+          if (e.code === 'KeyR' && !e.ctrlKey && !e.metaKey && !e.repeat) {
+              e.preventDefault();
+              handleToggleRecording();
+              return;
+          }
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [togglePlay, selectedMeasureIndices, measures, gridConfig, handleDuplicateSelection, syncSelectionWithMeasures, undo, redo, handleDownloadProject]);
+  }, [togglePlay, selectedMeasureIndices, measures, gridConfig, handleDuplicateSelection, syncSelectionWithMeasures, undo, redo, handleDownloadProject, loopSettings, selection, audioState.isPlaying, audioState.currentTime, tapMode, taps, markers, isRecording, loopPass, tracks, activeProjectId]);
 
   // --- Fullscreen Logic ---
   useEffect(() => {
@@ -787,6 +1238,33 @@ const App: React.FC = () => {
   const handleExportXML = () => {
       const fifths = keyToFifths(gridConfig.keySignature);
       const mode = gridConfig.keySignature.endsWith('m') ? 'minor' : 'major';
+      const beatsPerMeasure = getBeatsPerMeasure(gridConfig);
+      const measureLength = gridConfig.tsTop * (4 / gridConfig.tsBottom) * XML_DIVISIONS;
+
+      const harmonyXml = (chord: Chord | null) => {
+          if (!chord) return `
+      <harmony>
+        <root>
+          <root-step>C</root-step>
+        </root>
+        <kind text="${NO_CHORD}">none</kind>
+      </harmony>`;
+          const { kind, degrees } = musicXmlHarmony(chord);
+          const note = (tag: string, step: string, alter: number) => `
+        <${tag}>
+          <${tag}-step>${step}</${tag}-step>${alter !== 0 ? `
+          <${tag}-alter>${alter}</${tag}-alter>` : ''}
+        </${tag}>`;
+          return `
+      <harmony>${note('root', chord.root.step, chord.root.alter)}
+        <kind text="${chord.suffix}">${kind}</kind>${chord.bass ? note('bass', chord.bass.step, chord.bass.alter) : ''}${degrees.map(d => `
+        <degree>
+          <degree-value>${d.value}</degree-value>
+          <degree-alter>${d.alter}</degree-alter>
+          <degree-type>${d.type}</degree-type>
+        </degree>`).join('')}
+      </harmony>`;
+      };
       
       let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
@@ -805,7 +1283,7 @@ const App: React.FC = () => {
           if (index === 0) {
               xml += `
       <attributes>
-        <divisions>1</divisions>
+        <divisions>${XML_DIVISIONS}</divisions>
         <key>
           <fifths>${fifths}</fifths>
           <mode>${mode}</mode>
@@ -821,42 +1299,54 @@ const App: React.FC = () => {
       </attributes>`;
           }
 
-          if (m.chords.trim()) {
-              const match = m.chords.match(/^([A-G])([#b]?)(.*)$/);
-              if (match) {
-                  const rootStep = match[1];
-                  const alterSign = match[2];
-                  const kindStr = match[3];
-                  
-                  let alter = 0;
-                  if (alterSign === '#') alter = 1;
-                  if (alterSign === 'b') alter = -1;
-
-                  let kind = 'major';
-                  if (kindStr.includes('m') && !kindStr.includes('maj')) kind = 'minor';
-                  if (kindStr.includes('7')) kind = 'dominant'; 
-                  
-                  xml += `
-      <harmony>
-        <root>
-          <root-step>${rootStep}</root-step>${alter !== 0 ? `
-          <root-alter>${alter}</root-alter>` : ''}
-        </root>
-        <kind>${kind}</kind>
-      </harmony>`;
-              }
+          // Sections become rehearsal marks and end on a barline: a pair of repeat barlines for
+          // repeated ones, a double barline otherwise
+          const section = sections.find(sec => sec.start === m.index);
+          if (section) {
+              if (section.repeats > 1) xml += `
+      <barline location="left">
+        <repeat direction="forward"/>
+      </barline>`;
+              xml += `
+      <direction placement="above">
+        <direction-type>
+          <rehearsal color="${section.color.toUpperCase()}">${escapeXml(section.name)}</rehearsal>
+        </direction-type>
+      </direction>`;
           }
 
-          xml += `
+          // One rest per chord change, each carrying the harmony that starts on it
+          const events = parseMeasureChords(m.chords, beatsPerMeasure).events.map(e => ({
+              ...e,
+              position: Math.min(measureLength, Math.round((e.beat / beatsPerMeasure) * measureLength))
+          }));
+          const boundaries = [...new Set([0, ...events.map(e => e.position), measureLength])]
+              .filter(p => p < measureLength)
+              .sort((a, b) => a - b);
+          boundaries.forEach((position, k) => {
+              events.filter(e => e.position === position).forEach(e => { xml += harmonyXml(e.chord); });
+              const next = k + 1 < boundaries.length ? boundaries[k + 1] : measureLength;
+              xml += `
       <note>
         <rest/>
-        <duration>${gridConfig.tsTop}</duration>
-        ${m.lyrics.trim() ? `
+        <duration>${next - position}</duration>
+        ${k === 0 && m.lyrics.trim() ? `
         <lyric>
           <syllabic>single</syllabic>
           <text>${m.lyrics}</text>
         </lyric>` : ''}
       </note>`;
+          });
+
+          const ending = sections.find(sec => sec.end === m.index);
+          if (ending) xml += ending.repeats > 1 ? `
+      <barline location="right">
+        <bar-style>light-heavy</bar-style>
+        <repeat direction="backward" times="${ending.repeats}"/>
+      </barline>` : `
+      <barline location="right">
+        <bar-style>light-light</bar-style>
+      </barline>`;
 
           xml += `
     </measure>`;
@@ -875,6 +1365,48 @@ const App: React.FC = () => {
       URL.revokeObjectURL(url);
   };
 
+  // Renders the track or the selection with the current processing and downloads it as WAV
+  const handleExportAudio = async (options: AudioExportOptions) => {
+      const buffer = audioState.buffer;
+      if (!buffer || isExportingAudio) return;
+
+      const region = options.range === 'selection' && isLoopRegion(selection) ? clampRegion(selection, buffer.duration) : null;
+      const start = region ? region.start : 0;
+      const end = region ? region.end : buffer.duration;
+
+      setIsExportingAudio(true);
+      try {
+          const sources = tracks.flatMap(track => {
+              const trackBuffer = track.id === PRIMARY_TRACK_ID ? buffer : trackBuffers[track.id];
+              return trackBuffer && isTrackAudible(track, tracks) ? [{ track, buffer: trackBuffer }] : [];
+          });
+          const rendered = await renderProcessedAudio({
+              sources,
+              sampleRate: buffer.sampleRate,
+              params,
+              start,
+              end,
+              clicks: options.metronome ? getClicksInRange(clickTrack, start, end) : null,
+              clickVolume: metronome.volume
+          });
+          const channels = Array.from({ length: rendered.numberOfChannels }, (_, c) => rendered.getChannelData(c));
+          const blob = encodeWav(channels, rendered.sampleRate, options.bitDepth);
+
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = exportFileName(audioState.fileName, params, region, options.metronome);
+          a.click();
+          URL.revokeObjectURL(url);
+          setShowExportAudio(false);
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo exportar el audio.", onClose: () => setAlertModal(null) });
+      } finally {
+          setIsExportingAudio(false);
+      }
+  };
+
   const handleLoadXML = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -903,15 +1435,20 @@ const App: React.FC = () => {
 
               const xmlMeasures = targetPart.getElementsByTagName('measure');
               const newMeasures: Measure[] = [];
+              const marks: RehearsalMark[] = [];
+              const sectionEnds = new Map<number, number>(); // Measures closing a section, with its repeats
               let currentKeySig = gridConfig.keySignature;
               let currentTop = gridConfig.tsTop;
               let currentBottom = gridConfig.tsBottom;
+              let currentDivisions = 1;
 
               for (let i = 0; i < xmlMeasures.length; i++) {
                   const xm = xmlMeasures[i];
 
                   const attributes = xm.getElementsByTagName('attributes')[0];
                   if (attributes) {
+                      const divisions = attributes.getElementsByTagName('divisions')[0]?.textContent;
+                      if (divisions) currentDivisions = parseInt(divisions) || 1;
                       const keyEl = attributes.getElementsByTagName('key')[0];
                       if (keyEl) {
                           const fifths = keyEl.getElementsByTagName('fifths')[0]?.textContent;
@@ -931,28 +1468,59 @@ const App: React.FC = () => {
                       }
                   }
 
-                  let chords = '';
-                  const harmony = xm.getElementsByTagName('harmony')[0];
-                  if (harmony) {
-                      const root = harmony.getElementsByTagName('root')[0];
-                      const step = root?.getElementsByTagName('root-step')[0]?.textContent || '';
-                      const alterEl = root?.getElementsByTagName('root-alter')[0];
-                      const kind = harmony.getElementsByTagName('kind')[0]?.textContent || '';
-
-                      let alter = '';
-                      if (alterEl && alterEl.textContent) {
-                          const val = parseInt(alterEl.textContent);
-                          if (val === 1) alter = '#';
-                          if (val === -1) alter = 'b';
+                  // Harmonies at their position in the measure, following the notes' durations
+                  const changes: { beat: number; text: string }[] = [];
+                  const beatsPerMeasure = getBeatsPerMeasure({ ...gridConfig, tsTop: currentTop, tsBottom: currentBottom });
+                  const measureLength = currentTop * (4 / currentBottom) * currentDivisions;
+                  const childDuration = (el: Element) => parseInt(el.getElementsByTagName('duration')[0]?.textContent || '0') || 0;
+                  let position = 0;
+                  for (const child of Array.from(xm.children)) {
+                      if (child.tagName === 'note' && !child.getElementsByTagName('chord')[0]) position += childDuration(child);
+                      else if (child.tagName === 'forward') position += childDuration(child);
+                      else if (child.tagName === 'backup') position -= childDuration(child);
+                      else if (child.tagName === 'harmony') {
+                          const offset = parseInt(child.getElementsByTagName('offset')[0]?.textContent || '0') || 0;
+                          const readNote = (tag: string) => {
+                              const el = child.getElementsByTagName(tag)[0];
+                              const step = el?.getElementsByTagName(`${tag}-step`)[0]?.textContent?.trim() || '';
+                              const alter = parseInt(el?.getElementsByTagName(`${tag}-alter`)[0]?.textContent || '0') || 0;
+                              return el ? parseNote(step + (alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter))) : null;
+                          };
+                          const kindEl = child.getElementsByTagName('kind')[0];
+                          const kind = kindEl?.textContent?.trim() || '';
+                          const root = readNote('root');
+                          let text: string | null = null;
+                          if (kind === 'none') {
+                              text = NO_CHORD;
+                          } else if (root) {
+                              const degrees: MusicXmlDegree[] = Array.from(child.getElementsByTagName('degree')).map(d => ({
+                                  value: parseInt(d.getElementsByTagName('degree-value')[0]?.textContent || '0'),
+                                  alter: parseInt(d.getElementsByTagName('degree-alter')[0]?.textContent || '0') || 0,
+                                  type: (d.getElementsByTagName('degree-type')[0]?.textContent?.trim() || 'add') as MusicXmlDegree['type']
+                              }));
+                              const chord = chordFromMusicXml(root, kind, degrees, readNote('bass'));
+                              // Keep the symbol as the file writes it when that spelling parses to the same chord kind
+                              const written = kindEl?.getAttribute('text');
+                              const asWritten = chord && written ? parseChord(noteName(root) + written + (chord.bass ? '/' + noteName(chord.bass) : '')) : null;
+                              if (chord) text = formatChord(asWritten && musicXmlHarmony(asWritten).kind === kind ? asWritten : chord);
+                          }
+                          if (text) changes.push({ beat: (Math.max(0, position + offset) / measureLength) * beatsPerMeasure, text });
                       }
+                  }
+                  const chords = formatMeasureChords(chordsPerBeat(changes, beatsPerMeasure));
 
-                      let suffix = '';
-                      if (kind === 'minor') suffix = 'm';
-                      else if (kind === 'dominant') suffix = '7';
-                      else if (kind.includes('seventh')) suffix = '7'; 
-                      else if (kind === 'diminished') suffix = 'dim';
-                      
-                      chords = `${step}${alter}${suffix}`;
+                  const rehearsal = xm.getElementsByTagName('rehearsal')[0];
+                  if (rehearsal?.textContent?.trim()) {
+                      // Colors may come as #AARRGGBB
+                      const color = rehearsal.getAttribute('color')?.match(/^#(?:[0-9a-f]{2})?([0-9a-f]{6})$/i);
+                      marks.push({ measure: i + 1, name: rehearsal.textContent.trim(), color: color ? `#${color[1].toLowerCase()}` : null });
+                  }
+                  for (const barline of Array.from(xm.getElementsByTagName('barline'))) {
+                      if (barline.getAttribute('location') !== 'right') continue;
+                      const repeat = barline.getElementsByTagName('repeat')[0];
+                      const style = barline.getElementsByTagName('bar-style')[0]?.textContent?.trim();
+                      if (repeat?.getAttribute('direction') === 'backward') sectionEnds.set(i + 1, parseInt(repeat.getAttribute('times') || '2') || 2);
+                      else if (style === 'light-light' || style === 'light-heavy') sectionEnds.set(i + 1, 1);
                   }
 
                   let lyrics = '';
@@ -983,7 +1551,9 @@ const App: React.FC = () => {
                   tsBottom: currentBottom
               };
               setGridConfig(newConfig);
-              addToHistory(newMeasures, newConfig, markers);
+              const newSections = sectionsFromMarks(marks, newMeasures.length, sectionEnds);
+              setSections(newSections);
+              addToHistory(newMeasures, newConfig, markers, newSections);
               setSaveStatus('dirty');
 
           } catch(err) {
@@ -1001,17 +1571,39 @@ const App: React.FC = () => {
     const updateLoop = () => {
       if (playerRef.current && audioState.isLoaded && audioState.isPlaying) {
          const now = Tone.now();
-         const elapsed = now - playbackStartTimeRef.current;
+         // Negative while a count-in is still clicking
+         const elapsed = Math.max(0, now - playbackStartTimeRef.current);
          const currentSpeed = playerRef.current.playbackRate;
          
          let nextTime = playbackOffsetRef.current + (elapsed * currentSpeed);
          
-         if (nextTime >= audioState.duration) {
+         const loopRegion = clampRegion(selection, audioState.duration);
+         
+         if (loopSettings.enabled && isLoopRegion(loopRegion) && nextTime >= loopRegion.end) {
+              if (loopSettings.countIn === 'none') {
+                  // The player already wrapped; rebase our clock onto the new pass
+                  const loopLength = loopRegion.end - loopRegion.start;
+                  let passes = 0;
+                  while (nextTime >= loopRegion.end) {
+                      playbackOffsetRef.current -= loopLength;
+                      nextTime -= loopLength;
+                      passes++;
+                  }
+                  setLoopPass(prev => prev + passes);
+              } else {
+                  // Chain the next pass right where this one was scheduled to end
+                  const passEnd = playbackStartTimeRef.current + (loopRegion.end - playbackOffsetRef.current) / currentSpeed;
+                  startLoopPass(playerRef.current, loopRegion, loopSettings, Math.max(passEnd, now));
+                  nextTime = playbackOffsetRef.current;
+                  setLoopPass(prev => prev + 1);
+              }
+              setAudioState(prev => ({ ...prev, currentTime: nextTime }));
+         } else if (nextTime >= audioState.duration) {
               nextTime = audioState.duration;
-              playerRef.current.stop();
+              stopPlayback();
               setAudioState(prev => ({ ...prev, isPlaying: false, currentTime: nextTime }));
          } else if (selection.active && selection.end > selection.start && nextTime >= selection.end) {
-              playerRef.current.stop();
+              stopPlayback();
               setAudioState(prev => ({ ...prev, isPlaying: false, currentTime: selection.start }));
          } else {
               setAudioState(prev => ({ ...prev, currentTime: nextTime }));
@@ -1022,34 +1614,476 @@ const App: React.FC = () => {
 
     rafId = requestAnimationFrame(updateLoop);
     return () => cancelAnimationFrame(rafId);
-  }, [audioState.isLoaded, audioState.isPlaying, selection, audioState.duration]);
+  }, [audioState.isLoaded, audioState.isPlaying, selection, audioState.duration, loopSettings, getBeatDuration]);
+
+
+  // --- Metronome (look-ahead click scheduler) ---
+  const clickTrack: ClickEvent[] = useMemo(
+      () => buildClickTrack(measures, gridConfig, metronome.subdivision),
+      [measures, gridConfig, metronome.subdivision]
+  );
+
+  useEffect(() => {
+    if (!metronome.enabled || !audioState.isPlaying) {
+        resetMetronome();
+        return;
+    }
+
+    const schedule = () => {
+        const player = playerRef.current;
+        if (!player) return;
+        if (!metronomeSynthRef.current) {
+            metronomeSynthRef.current = createClickSynth(metronome.volume);
+        }
+
+        const now = Tone.now();
+        const from = Math.max(now, metronomeScheduledUntilRef.current);
+        const to = now + METRONOME_LOOKAHEAD;
+        if (to <= from) return;
+
+        // Map context time <-> audio position with the same refs the RAF loop uses
+        const speed = player.playbackRate;
+        const startTime = playbackStartTimeRef.current;
+        const offset = playbackOffsetRef.current;
+        const toPosition = (t: number) => offset + (t - startTime) * speed;
+        const toTime = (pos: number) => startTime + (pos - offset) / speed;
+
+        const fromPos = Math.max(offset, toPosition(from));
+        let toPos = toPosition(to);
+        let loop: { start: number; end: number } | undefined;
+
+        const region = clampRegion(selection, audioState.duration);
+        if (loopSettings.enabled && isLoopRegion(region)) {
+            if (loopSettings.countIn === 'none') {
+                loop = { start: region.start, end: region.end };
+            } else {
+                // Each pass is scheduled separately; never click past its end
+                toPos = Math.min(toPos, region.end);
+            }
+        } else {
+            toPos = Math.min(toPos, audioState.duration);
+        }
+
+        if (toPos > fromPos) {
+            for (const click of getClicksInRange(clickTrack, fromPos, toPos, loop)) {
+                scheduleClick(metronomeSynthRef.current, toTime(click.position), click.level);
+            }
+        }
+        metronomeScheduledUntilRef.current = to;
+    };
+
+    schedule();
+    const id = window.setInterval(schedule, METRONOME_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [metronome.enabled, audioState.isPlaying, clickTrack, selection, loopSettings, audioState.duration]);
+
+  useEffect(() => {
+    if (metronomeSynthRef.current) {
+        metronomeSynthRef.current.volume.value = metronome.volume;
+    }
+  }, [metronome.volume]);
+
+  // --- Chord chart playback (same look-ahead scheme as the metronome) ---
+  const chordTrack: ChordHit[] = useMemo(() => buildChordTrack(measures, gridConfig), [measures, gridConfig]);
+
+  // A new voice needs a new synth; the scheduler creates it when it runs
+  useEffect(() => {
+    resetChordPlayer();
+  }, [chordPlayback.voice]);
+
+  useEffect(() => {
+    if (!chordPlayback.enabled || !audioState.isPlaying) {
+        resetChordPlayer();
+        return;
+    }
+
+    const schedule = () => {
+        const player = playerRef.current;
+        if (!player) return;
+        if (!chordPlayerRef.current) {
+            chordPlayerRef.current = new ChordPlayer(chordPlayback.voice, chordPlayback.volume);
+        }
+
+        const now = Tone.now();
+        const from = Math.max(now, chordsScheduledUntilRef.current);
+        const to = now + METRONOME_LOOKAHEAD;
+        if (to <= from) return;
+
+        const speed = player.playbackRate;
+        const startTime = playbackStartTimeRef.current;
+        const offset = playbackOffsetRef.current;
+        const toPosition = (t: number) => offset + (t - startTime) * speed;
+        const toTime = (pos: number) => startTime + (pos - offset) / speed;
+
+        const fromPos = Math.max(offset, toPosition(from));
+        let toPos = toPosition(to);
+        let loop: { start: number; end: number } | undefined;
+        let stopAt = audioState.duration; // Chords are cut where playback stops or wraps
+
+        const region = clampRegion(selection, audioState.duration);
+        if (loopSettings.enabled && isLoopRegion(region)) {
+            stopAt = region.end;
+            if (loopSettings.countIn === 'none') loop = { start: region.start, end: region.end };
+            else toPos = Math.min(toPos, region.end);
+        } else {
+            toPos = Math.min(toPos, audioState.duration);
+        }
+
+        if (toPos > fromPos) {
+            const hits = getClicksInRange(chordTrack, fromPos, toPos, loop);
+            // The chord already sounding is struck when scheduling doesn't carry on from where it
+            // left off (a start, seek or new pass) and on every wrap of the loop
+            const strike = (passPosition: number, shift: number) => {
+                const hit = hitSoundingAt(chordTrack, passPosition);
+                if (hit) hits.push({ ...hit, position: hit.position + shift });
+            };
+            const last = chordsScheduledPosRef.current;
+            const loopLength = loop ? loop.end - loop.start : 0;
+            if (last === null || Math.abs(fromPos - last) > 1e-6) {
+                const passes = loop && fromPos >= loop.end ? Math.floor((fromPos - loop.start) / loopLength) : 0;
+                strike(fromPos - passes * loopLength, passes * loopLength);
+            }
+            if (loop) {
+                for (let n = Math.max(1, Math.ceil((fromPos - loop.start) / loopLength)); loop.start + n * loopLength < toPos; n++) {
+                    if (loop.start + n * loopLength > fromPos) strike(loop.start, n * loopLength);
+                }
+            }
+
+            for (const hit of hits) {
+                // Position inside the current pass, to cut the chord at the loop end
+                const passPosition = loop ? loop.start + ((hit.position - loop.start) % (loop.end - loop.start)) : hit.position;
+                const length = Math.min(hit.duration, stopAt - passPosition);
+                chordPlayerRef.current.play(hit, toTime(hit.position), length / speed, player.detune);
+            }
+            chordsScheduledPosRef.current = toPos;
+        }
+        chordsScheduledUntilRef.current = to;
+    };
 
+    schedule();
+    const id = window.setInterval(schedule, METRONOME_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [chordPlayback.enabled, chordPlayback.voice, audioState.isPlaying, chordTrack, selection, loopSettings, audioState.duration]);
+
+  useEffect(() => {
+    if (chordPlayerRef.current) {
+        chordPlayerRef.current.volume.value = chordPlayback.volume;
+    }
+  }, [chordPlayback.volume]);
+
+  // Playing the chart alone silences the recording
+  useEffect(() => {
+    if (playerRef.current) playerRef.current.mute = chordPlayback.enabled && chordPlayback.solo;
+  }, [chordPlayback.enabled, chordPlayback.solo, audioState.isLoaded]);
 
   // --- Param Changes ---
-  const handleParamChange = (key: keyof ProcessingParams, value: number) => {
+  const handleParamChange = <K extends keyof ProcessingParams>(key: K, value: ProcessingParams[K]) => {
     setParams(prev => ({ ...prev, [key]: value }));
     setSaveStatus('dirty');
     
     if (!playerRef.current || !eqRef.current) return;
+    if (typeof value !== 'number') return; // Isolation and EQ are applied by the effects below
 
     if (key === 'speed') {
+        if (audioState.isPlaying && loopRegionRef.current && loopSettings.countIn !== 'none') {
+            // The next pass and its count-in may already be scheduled at the old speed: start the
+            // pass over at the new one
+            stopPlayback();
+            playerRef.current.playbackRate = value;
+            const from = startPlayback(selection.start);
+            setAudioState(prev => ({ ...prev, currentTime: from }));
+            return;
+        }
         if (audioState.isPlaying) {
              const now = Tone.now();
              const currentSpeed = playerRef.current.playbackRate; 
              const elapsed = now - playbackStartTimeRef.current;
              playbackOffsetRef.current = playbackOffsetRef.current + (elapsed * currentSpeed);
              playbackStartTimeRef.current = now;
+             resetMetronome();
+             resetChordPlayer();
         }
         playerRef.current.playbackRate = value;
     }
-    if (key === 'pitch') playerRef.current.detune = value * 100;
     if (key === 'volume') playerRef.current.volume.value = value;
-    
-    if (key === 'eqLow') eqRef.current.low.value = value;
-    if (key === 'eqMid') eqRef.current.mid.value = value;
-    if (key === 'eqHigh') eqRef.current.high.value = value;
   };
 
+  useEffect(() => {
+    if (playerRef.current) playerRef.current.detune = params.pitch * 100 + params.cents;
+  }, [params.pitch, params.cents]);
+
+  useEffect(() => {
+    isolationRef.current?.update(params);
+  }, [params.center, params.channel, params.balance, params.focus]);
+
+  useEffect(() => {
+    eqRef.current?.update(params.eqBands);
+  }, [params.eqBands]);
+
+  useEffect(() => {
+    const buffer = audioState.buffer;
+    if (!playerRef.current || !buffer) return;
+    playerRef.current.setTracks(tracks, { ...trackBuffers, [PRIMARY_TRACK_ID]: buffer })
+        .catch(err => console.error("Error updating tracks:", err));
+  }, [tracks, trackBuffers, audioState.buffer]);
+
+  // --- Tracks ---
+  const handleAddTrack = async (file: File) => {
+      if (!activeProjectId) return;
+      try {
+          const buffer = await decodeAudioBlob(file);
+          const track = createTrack(crypto.randomUUID(), file.name);
+          saveAudioToDB(file, file.name, activeProjectId, track.id).catch(err => console.error("Error saving audio:", err));
+          setTrackBuffers(prev => ({ ...prev, [track.id]: buffer }));
+          setTracks(prev => [...prev, track]);
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo cargar el audio de la pista.", onClose: () => setAlertModal(null) });
+      }
+  };
+
+  const handleTrackChange = (id: string, changes: Partial<AudioTrack>) => {
+      setTracks(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
+  };
+
+  // A/B against the reference: solo the reference ('a'), the take ('b') or both
+  const handleCompareTrack = (id: string, mode: 'a' | 'b' | 'both') => {
+      setTracks(prev => prev.map(t => {
+          const inA = t.id === PRIMARY_TRACK_ID && mode !== 'b';
+          const inB = t.id === id && mode !== 'a';
+          return inA || inB ? { ...t, solo: true, mute: false } : { ...t, solo: false };
+      }));
+  };
+
+  // Aligns another version with the reference (DTW on chroma) and adds it warped onto the reference
+  // timeline, so it follows the grid and A/B switches land on the same musical position. The
+  // original keeps the tempo map, which shows where the reference's bars fall in it.
+  const handleAlignTrack = async (id: string) => {
+      const track = tracks.find(t => t.id === id);
+      const reference = audioState.buffer;
+      const buffer = trackBuffers[id];
+      if (!track || !reference || !buffer || !activeProjectId || aligningTrackId) return;
+
+      setAligningTrackId(id);
+      try {
+          const response = await runWorker<AlignmentRequest, AlignmentResponse>(
+              new Worker(new URL('./utils/alignment.worker.ts', import.meta.url), { type: 'module' }),
+              { reference: copyChannels(reference), other: copyChannels(buffer), sampleRate: reference.sampleRate }
+          );
+          if (!response.result) throw new Error(response.error || 'Alignment failed');
+
+          const { anchors, warped } = response.result;
+          const fileName = `${trackName(track.fileName)} (alineada).wav`;
+          const aligned: AudioTrack = {
+              ...createTrack(crypto.randomUUID(), fileName),
+              name: `${track.name} · alineada`,
+              gain: track.gain,
+              eqBands: track.eqBands,
+              // A take keeps the pitch it was recorded at; its tempo now follows the reference
+              recordedAt: track.recordedAt && { speed: 1, detune: track.recordedAt.detune }
+          };
+          saveAudioToDB(encodeWav(warped, reference.sampleRate, 16), fileName, activeProjectId, aligned.id)
+              .catch(err => console.error("Error saving aligned audio:", err));
+          setTrackBuffers(prev => ({ ...prev, [aligned.id]: Tone.ToneAudioBuffer.fromArray(warped) }));
+          setTracks(prev => [
+              ...prev.map(t => t.id === id ? { ...t, alignment: anchors, mute: true, solo: false } : t),
+              aligned
+          ]);
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo alinear la pista con la referencia.", onClose: () => setAlertModal(null) });
+      } finally {
+          setAligningTrackId(null);
+      }
+  };
+
+  const timelineLanes = useMemo<TimelineLane[]>(() => tracks
+      .map((track, i) => ({
+          id: track.id,
+          name: track.name,
+          color: TRACK_COLORS[i % TRACK_COLORS.length],
+          offset: track.offset,
+          speed: track.recordedAt?.speed ?? 1,
+          muted: !isTrackAudible(track, tracks),
+          buffer: trackBuffers[track.id] ?? null,
+          alignment: track.alignment
+      }))
+      .filter(lane => lane.id !== PRIMARY_TRACK_ID),
+      [tracks, trackBuffers]
+  );
+
+  const handleRemoveTrack = (id: string) => {
+      const track = tracks.find(t => t.id === id);
+      if (!track || id === PRIMARY_TRACK_ID) return;
+
+      setConfirmationModal({
+          isOpen: true,
+          message: `¿Quitar la pista "${track.name}"? Su audio se eliminará de este navegador.`,
+          onConfirm: () => {
+              setTracks(prev => prev.filter(t => t.id !== id));
+              setTrackBuffers(prev => {
+                  const next = { ...prev };
+                  delete next[id];
+                  return next;
+              });
+              if (activeProjectId) deleteAudioFromDB(activeProjectId, id).catch(err => console.error(err));
+              setConfirmationModal(null);
+          },
+          onCancel: () => setConfirmationModal(null)
+      });
+  };
+
+  // --- Practice Recording ---
+  const startRecording = async () => {
+      const player = playerRef.current;
+      if (!player || !activeProjectId || recordingRef.current) return;
+      if (Tone.getContext().state !== 'running') await Tone.start();
+
+      let recorder: PracticeRecorder | null = null;
+      try {
+          recorder = await PracticeRecorder.open();
+          const startedAt = await recorder.start();
+
+          let loopPassAtStart = loopPass;
+          if (!audioState.isPlaying) {
+              const from = startPlayback(audioState.currentTime);
+              setAudioState(prev => ({ ...prev, isPlaying: true, currentTime: from }));
+              loopPassAtStart = 0;
+          }
+
+          // The player reacts to what they hear: the first captured sample answers audio
+          // that was scheduled a full round trip earlier
+          const heardAt = startedAt - roundTripLatency(recorder.inputLatency);
+          recordingRef.current = {
+              recorder,
+              projectId: activeProjectId,
+              offset: playbackOffsetRef.current + (heardAt - playbackStartTimeRef.current) * player.playbackRate,
+              settings: { speed: player.playbackRate, detune: player.detune },
+              loopPass: loopPassAtStart
+          };
+          setIsRecording(true);
+      } catch (err) {
+          console.error(err);
+          recorder?.close();
+          setAlertModal({ isOpen: true, message: "No se pudo acceder al micrófono. Revisa los permisos del navegador.", onClose: () => setAlertModal(null) });
+      }
+  };
+
+  // Stops the current take and adds it as a track of the project
+  const finishRecording = async () => {
+      const recording = recordingRef.current;
+      if (!recording) return;
+      recordingRef.current = null;
+      setIsRecording(false);
+
+      try {
+          const take = await recording.recorder.stop();
+          if (recording.projectId !== activeProjectId || take.blob.size === 0) return;
+          const buffer = await decodeAudioBlob(take.blob);
+
+          const number = tracks.filter(t => t.recordedAt).length + 1;
+          const fileName = `Toma ${number}.${take.extension}`;
+          const track: AudioTrack = {
+              ...createTrack(crypto.randomUUID(), fileName),
+              offset: Math.round(recording.offset * 1000) / 1000,
+              recordedAt: recording.settings
+          };
+          saveAudioToDB(take.blob, fileName, recording.projectId, track.id).catch(err => console.error("Error saving take:", err));
+          setTrackBuffers(prev => ({ ...prev, [track.id]: buffer }));
+          setTracks(prev => [...prev, track]);
+          setShowTracks(true);
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo guardar la toma.", onClose: () => setAlertModal(null) });
+      }
+  };
+
+  const handleToggleRecording = () => {
+      if (recordingRef.current) finishRecording();
+      else startRecording();
+  };
+
+  // A take covers one continuous stretch of playback: it ends when playback stops, the loop comes
+  // around again or the speed or pitch change, since its alignment would no longer hold
+  useEffect(() => {
+      const recording = recordingRef.current;
+      const player = playerRef.current;
+      if (!recording || !player) return;
+      if (!audioState.isPlaying || loopPass > recording.loopPass ||
+          player.playbackRate !== recording.settings.speed || player.detune !== recording.settings.detune) {
+          finishRecording();
+      }
+  }, [audioState.isPlaying, loopPass, params.speed, params.pitch, params.cents]);
+
+  // Release the microphone when leaving the app mid-take
+  useEffect(() => () => recordingRef.current?.recorder.close(), []);
+
+  // --- High-quality stretch ---
+  useEffect(() => {
+    if (playerRef.current) playerRef.current.mode = params.stretchMode;
+    if (params.stretchMode === 'realtime') setStretchRenderState('idle');
+  }, [params.stretchMode]);
+
+  // Pre-render the loop region (including its pre-roll) or the whole track once the settings settle
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || params.stretchMode !== 'hq') return;
+
+    const id = window.setTimeout(() => {
+        const region = clampRegion(selection, player.buffer.duration);
+        let start = 0;
+        let end = player.buffer.duration;
+        if (isLoopRegion(region)) {
+            start = loopSettings.countIn === 'preroll' ? Math.max(0, region.start - loopSettings.preRoll) : region.start;
+            end = region.end;
+        }
+        player.render(start, end).catch(err => console.error("Error rendering stretched audio:", err));
+    }, STRETCH_RENDER_DELAY_MS);
+    return () => window.clearTimeout(id);
+  }, [params.stretchMode, params.speed, params.pitch, params.cents, selection, loopSettings.countIn, loopSettings.preRoll, audioState.buffer, tracks, trackBuffers]);
+
+  // --- Speed Trainer ---
+  const handleTrainerChange = (next: SpeedTrainer) => {
+      const normalized = { ...next, targetSpeed: Math.min(next.targetSpeed, MAX_SPEED) };
+
+      // Starting a drill: jump to the start speed and make sure the region loops
+      if (normalized.enabled && !trainer.enabled) {
+          normalized.repsDone = 0;
+          handleParamChange('speed', normalized.startSpeed);
+          if (!loopSettings.enabled) {
+              handleLoopSettingsChange({ ...loopSettings, enabled: true });
+          }
+      }
+
+      setTrainer(normalized);
+      setSaveStatus('dirty');
+  };
+
+  const handleTrainerReset = () => {
+      setTrainer(prev => ({ ...prev, repsDone: 0 }));
+      handleParamChange('speed', trainer.startSpeed);
+  };
+
+  // Count finished loop repetitions and raise the speed every `repsPerStep`
+  const lastLoopPassRef = useRef(0);
+  useEffect(() => {
+      const completed = loopPass - lastLoopPassRef.current;
+      lastLoopPassRef.current = loopPass;
+      if (completed <= 0 || !trainer.enabled) return;
+
+      const target = Math.min(trainer.targetSpeed, MAX_SPEED);
+      if (params.speed >= target) return;
+
+      const repsDone = trainer.repsDone + completed;
+      if (repsDone >= trainer.repsPerStep) {
+          const nextSpeed = Math.min(target, Math.round((params.speed + trainer.step) * 100) / 100);
+          handleParamChange('speed', nextSpeed);
+          setTrainer(prev => ({ ...prev, repsDone: 0 }));
+      } else {
+          setTrainer(prev => ({ ...prev, repsDone }));
+      }
+  }, [loopPass]);
+
   const handleUpdateSelection = (sel: RegionSelection) => {
       setSelection(sel);
   };
@@ -1091,9 +2125,11 @@ const App: React.FC = () => {
   const handleDeleteMeasure = (index: number) => {
       const newMeasures = measures.filter(m => m.index !== index)
           .map((m, i) => ({ ...m, index: i + 1 })); 
+      const newSections = removeFromSections(sections, index);
       setMeasures(newMeasures);
+      setSections(newSections);
       setSelectedMeasureIndices(prev => prev.filter(i => i !== index));
-      addToHistory(newMeasures, gridConfig, markers);
+      addToHistory(newMeasures, gridConfig, markers, newSections);
       setSaveStatus('dirty');
   };
 
@@ -1108,8 +2144,10 @@ const App: React.FC = () => {
       });
       
       const reindexed = newMeasures.map((m, i) => ({ ...m, index: i + 1 }));
+      const newSections = insertIntoSections(sections, insertIndex + 1, 1);
       setMeasures(reindexed);
-      addToHistory(reindexed, gridConfig, markers);
+      setSections(newSections);
+      addToHistory(reindexed, gridConfig, markers, newSections);
       setSaveStatus('dirty');
   };
 
@@ -1142,49 +2180,295 @@ const App: React.FC = () => {
       syncSelectionWithMeasures(newIndices);
   };
 
-  const handleTranspose = (semitones: number) => {
-      const transposeNote = (note: string, amount: number) => {
-           let idx = NOTES_SHARP.indexOf(note);
-           if (idx === -1) idx = NOTES_FLAT.indexOf(note);
-           if (idx === -1) return note;
+  // Moves the chart by semitones; `targetKey` picks the spelling of the new key (Gb rather than F#)
+  const handleTranspose = (semitones: number, targetKey?: string) => {
+      const keySignature = targetKey ?? transposeKey(gridConfig.keySignature, semitones);
+      const newMeasures = measures.map(m => ({
+          ...m,
+          chords: mapCellChords(m.chords, chord => transposeChord(chord, semitones, keySignature))
+      }));
+      const newGridConfig = { ...gridConfig, keySignature };
 
-           let newIdx = (idx + amount + 12) % 12;
-           const isFlat = note.includes('b');
-           return isFlat ? NOTES_FLAT[newIdx] : NOTES_SHARP[newIdx];
-      };
+      setMeasures(newMeasures);
+      setGridConfig(newGridConfig);
+      addToHistory(newMeasures, newGridConfig, markers);
+      setSaveStatus('dirty');
+  };
 
-      const transposeChord = (chord: string, amount: number) => {
-         return chord.replace(/([A-G][#b]?)/g, (match) => {
-             return transposeNote(match, amount);
-         });
-      };
-      
-      const newMeasures = measures.map(m => {
-          return {
-              ...m,
-              chords: transposeChord(m.chords, semitones)
+  // Typing a key while the grid shows numerals keeps the numerals, so the letters follow the key
+  const handleKeySignatureChange = (keySignature: string, keepDegrees: boolean) => {
+      if (keepDegrees) {
+          setMeasures(measures.map(m => ({ ...m, chords: cellToKey(m.chords, gridConfig.keySignature, keySignature) })));
+      }
+      setGridConfig({ ...gridConfig, keySignature });
+  };
+  
+  // --- Beat Detection ---
+  const handleDetectBeats = async () => {
+      const buffer = audioState.buffer;
+      if (!buffer || isDetectingBeats) return;
+
+      setIsDetectingBeats(true);
+      try {
+          const channels = copyChannels(buffer);
+          const request: BeatTrackerRequest = {
+              channels,
+              sampleRate: buffer.sampleRate,
+              beatsPerMeasure: getBeatsPerMeasure(gridConfig)
           };
+          const response = await runWorker<BeatTrackerRequest, BeatTrackerResponse>(
+              new Worker(new URL('./utils/beatTracker.worker.ts', import.meta.url), { type: 'module' }),
+              request,
+              channels.map(c => c.buffer)
+          );
+          if (!response.result || response.result.downbeats.length < 2) {
+              throw new Error(response.error || 'Not enough beats detected');
+          }
+          setBeatProposal(response.result);
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo detectar el pulso de este audio.", onClose: () => setAlertModal(null) });
+      } finally {
+          setIsDetectingBeats(false);
+      }
+  };
+
+  const applyBeatProposal = (analysis: BeatAnalysis) => {
+      const result = gridFromDownbeats(analysis.downbeats, gridConfig, measures, audioState.duration);
+      setBeatProposal(null);
+      if (!result) return;
+
+      setGridConfig(result.gridConfig);
+      setMeasures(result.measures);
+      addToHistory(result.measures, result.gridConfig, markers);
+      setSaveStatus('dirty');
+  };
+
+  // --- Chord Recognition ---
+  const handleDetectChords = async () => {
+      const buffer = audioState.buffer;
+      if (!buffer || isDetectingChords) return;
+
+      // One analysis segment per beat of every measure that has audio under it
+      const beatsPerMeasure = getBeatsPerMeasure(gridConfig);
+      const layout = getMeasureLayout(measures, gridConfig).filter(span => span.start < buffer.duration);
+      const segments: ChordSegment[] = layout.flatMap(span => {
+          const beat = span.duration / beatsPerMeasure;
+          return Array.from({ length: beatsPerMeasure }, (_, b) => ({
+              start: span.start + b * beat,
+              end: span.start + (b + 1) * beat
+          }));
       });
+      if (segments.length === 0) return;
+
+      setIsDetectingChords(true);
+      try {
+          const channels = copyChannels(buffer);
+          const response = await runWorker<ChordRecognitionRequest, ChordRecognitionResponse>(
+              new Worker(new URL('./utils/chordRecognition.worker.ts', import.meta.url), { type: 'module' }),
+              { channels, sampleRate: buffer.sampleRate, segments },
+              channels.map(c => c.buffer)
+          );
+          if (!response.result) throw new Error(response.error || 'No chords returned');
+
+          const labels = response.result.map(chord =>
+              chord ? pitchClassName(chord.root, gridConfig.keySignature) + CHORD_TYPES[chord.type].suffix : null
+          );
+          const proposal = measures.map((m, i) =>
+              i < layout.length ? formatMeasureChords(labels.slice(i * beatsPerMeasure, (i + 1) * beatsPerMeasure)) : m.chords
+          );
+
+          if (measures.some((m, i) => i < layout.length && m.chords.trim() !== '')) {
+              setChordProposal(proposal);
+          } else {
+              applyChordProposal(proposal, true);
+          }
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudieron detectar los acordes de este audio.", onClose: () => setAlertModal(null) });
+      } finally {
+          setIsDetectingChords(false);
+      }
+  };
 
-      let newGridConfig = { ...gridConfig };
-      const currentRoot = gridConfig.keySignature.replace('m', '');
-      const isMinor = gridConfig.keySignature.endsWith('m');
-      
-      const newRoot = transposeNote(currentRoot, semitones);
-      newGridConfig.keySignature = newRoot + (isMinor ? 'm' : '');
+  const applyChordProposal = (proposal: string[], overwrite: boolean) => {
+      setChordProposal(null);
+      const newMeasures = measures.map((m, i) => {
+          if (i >= proposal.length || (!overwrite && m.chords.trim() !== '')) return m;
+          return { ...m, chords: proposal[i] };
+      });
 
       setMeasures(newMeasures);
+      addToHistory(newMeasures, gridConfig, markers);
+      setSaveStatus('dirty');
+  };
+
+  // --- Key Detection ---
+  const handleDetectKey = async (onlySelection: boolean) => {
+      const buffer = audioState.buffer;
+      if (!buffer || isDetectingKey) return;
+
+      const region = onlySelection && isLoopRegion(selection) ? clampRegion(selection, buffer.duration) : null;
+      const start = region ? region.start : 0;
+      const end = region ? region.end : buffer.duration;
+
+      // Chords of the measures that overlap the analyzed range
+      const layout = getMeasureLayout(measures, gridConfig);
+      const cells = measures
+          .filter((_, i) => layout[i].start < end && layout[i].start + layout[i].duration > start)
+          .map(m => m.chords);
+      const chordHistogram = chordPitchHistogram(cells);
+      const usedChords = chordHistogram.some(v => v > 0);
+
+      setIsDetectingKey(true);
+      try {
+          const channels = copyChannels(buffer, start, end);
+          const response = await runWorker<KeyDetectionRequest, KeyDetectionResponse>(
+              new Worker(new URL('./utils/keyDetection.worker.ts', import.meta.url), { type: 'module' }),
+              { channels, sampleRate: buffer.sampleRate, chordHistogram: usedChords ? chordHistogram : null },
+              channels.map(c => c.buffer)
+          );
+          if (!response.result || response.result.length === 0) throw new Error(response.error || 'No key returned');
+          setKeyProposal({ candidates: response.result, region, usedChords });
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo estimar la tonalidad de este audio.", onClose: () => setAlertModal(null) });
+      } finally {
+          setIsDetectingKey(false);
+      }
+  };
+
+  const applyKeyProposal = (candidate: KeyCandidate) => {
+      setKeyProposal(null);
+      const newGridConfig = { ...gridConfig, keySignature: keyName(candidate.tonic, candidate.minor) };
       setGridConfig(newGridConfig);
-      addToHistory(newMeasures, newGridConfig, markers);
+      addToHistory(measures, newGridConfig, markers);
       setSaveStatus('dirty');
   };
-  
+
+  // Measures how far the recording sits from A440 and cancels it with the fine detune
+  const handleAutoTune = async () => {
+      const buffer = audioState.buffer;
+      if (!buffer || isDetectingTuning) return;
+
+      setIsDetectingTuning(true);
+      try {
+          const channels = copyChannels(buffer);
+          const response = await runWorker<TuningRequest, TuningResponse>(
+              new Worker(new URL('./utils/tuning.worker.ts', import.meta.url), { type: 'module' }),
+              { channels, sampleRate: buffer.sampleRate },
+              channels.map(c => c.buffer)
+          );
+          if (!response.result) throw new Error(response.error || 'No tuning returned');
+          handleParamChange('cents', -Math.round(response.result.cents));
+      } catch (err) {
+          console.error(err);
+          setAlertModal({ isOpen: true, message: "No se pudo estimar la afinación de este audio.", onClose: () => setAlertModal(null) });
+      } finally {
+          setIsDetectingTuning(false);
+      }
+  };
+
+  // --- Tap Tempo / Tap Downbeats ---
+  const getTapBpm = (tapList: number[]) => {
+      const interval = estimateTapInterval(tapList);
+      if (!interval) return null;
+      return bpmForMeasureDuration(interval * getBeatsPerMeasure(gridConfig), gridConfig);
+  };
+
+  const handleTap = () => {
+      const player = playerRef.current;
+      if (tapMode === 'off' || !player || !audioState.isPlaying) return;
+
+      // What is audible right now was scheduled `latency` seconds ago
+      const raw = Tone.getContext().rawContext as AudioContext;
+      const latency = (raw.outputLatency || 0) + (raw.baseLatency || 0);
+      const heardAt = Tone.immediate() - latency;
+      const position = playbackOffsetRef.current + (heardAt - playbackStartTimeRef.current) * player.playbackRate;
+
+      if (position >= 0) setTaps(prev => [...prev, position]);
+  };
+
+  // Leaves the current tap mode, writing its result as one history entry
+  const commitTaps = () => {
+      if (tapMode === 'tempo') {
+          const bpm = getTapBpm(taps);
+          if (bpm) {
+              const newConfig = { ...gridConfig, bpm };
+              setGridConfig(newConfig);
+              addToHistory(measures, newConfig, markers);
+              setSaveStatus('dirty');
+          }
+      } else if (tapMode === 'downbeats') {
+          const result = applyTappedBoundaries(taps, gridConfig, measures);
+          if (result) {
+              setGridConfig(result.gridConfig);
+              setMeasures(result.measures);
+              addToHistory(result.measures, result.gridConfig, markers);
+              setSaveStatus('dirty');
+          }
+      }
+      setTaps([]);
+  };
+
+  const handleTapModeChange = (mode: TapMode) => {
+      commitTaps();
+      setTapMode(mode);
+  };
+
+  const handleTapCancel = () => {
+      setTaps([]);
+      setTapMode('off');
+  };
+
   const handleUpdateMarkers = (newMarkers: Marker[]) => {
       setMarkers(newMarkers);
       addToHistory(measures, gridConfig, newMarkers);
       setSaveStatus('dirty');
   };
 
+  // --- Sections ---
+  const handleUpdateSections = (newSections: Section[]) => {
+      setSections(newSections);
+      addToHistory(measures, gridConfig, markers, newSections);
+      setSaveStatus('dirty');
+  };
+
+  // A new section over the selected measures (from the first to the last one)
+  const handleAddSection = () => {
+      if (selectedMeasureIndices.length === 0) return;
+      handleUpdateSections(addSection(sections, Math.min(...selectedMeasureIndices), Math.max(...selectedMeasureIndices)));
+  };
+
+  // Selects the section's measures, which makes them the loop region
+  const handleSelectSection = (id: string) => {
+      const section = sections.find(s => s.id === id);
+      if (!section) return;
+      const indices = sectionMeasureIndices(section).filter(i => i <= measures.length);
+      setSelectedMeasureIndices(indices);
+      syncSelectionWithMeasures(indices);
+  };
+
+  const handleDuplicateSection = (id: string) => {
+      const section = sections.find(s => s.id === id);
+      if (section) duplicateMeasureBlock(sectionMeasureIndices(section).filter(i => i <= measures.length));
+  };
+
+  // Moves a section's measures past the block before or after it; the section stays selected
+  const handleMoveSection = (id: string, direction: -1 | 1) => {
+      const result = moveSection(measures, sections, id, direction);
+      if (!result) return;
+      setMeasures(result.measures);
+      setSections(result.sections);
+      addToHistory(result.measures, gridConfig, markers, result.sections);
+      setSaveStatus('dirty');
+
+      const moved = result.sections.find(s => s.id === id)!;
+      const span = sectionSpan(moved, getMeasureLayout(result.measures, gridConfig));
+      setSelectedMeasureIndices(sectionMeasureIndices(moved).filter(i => i <= result.measures.length));
+      if (span) setSelection({ active: true, ...span });
+  };
+
   return (
     <div className={`flex flex-col h-screen bg-slate-950 text-slate-200 overflow-hidden font-sans selection:bg-cyan-500/30 ${isCompactMode ? 'border-2 border-slate-800' : ''}`}>
       
@@ -1290,6 +2574,16 @@ const App: React.FC = () => {
                     <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="16" y1="13" x2="8" y2="13"/><line x1="16" y1="17" x2="8" y2="17"/><polyline points="10 9 9 9 8 9"/></svg>
                     <span className="whitespace-nowrap">Guardar partitura (MusicXML)</span>
                 </button>
+
+                <button 
+                    onClick={() => setShowExportAudio(true)} 
+                    disabled={!audioState.isLoaded} 
+                    className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-cyan-400 rounded border border-slate-700 transition-colors disabled:opacity-50"
+                    title="Exportar el audio procesado a WAV"
+                >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
+                    <span className="whitespace-nowrap">Exportar audio (WAV)</span>
+                </button>
              </div>
           </div>
 
@@ -1309,6 +2603,22 @@ const App: React.FC = () => {
                 <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 2v20M2 12h20M4.93 4.93l14.14 14.14M4.93 19.07l14.14-14.14"/></svg>
                 <span className="hidden lg:inline">Afinador</span>
              </button>
+             <button 
+                onClick={() => setShowVisualizer(!showVisualizer)}
+                className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded border transition-colors ${showVisualizer ? 'bg-cyan-600 border-cyan-500 text-white' : 'text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-cyan-400 border-slate-700'}`}
+                title="Espectro en tiempo real"
+             >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M4 20V10M9 20V4M14 20v-8M19 20V7"/></svg>
+                <span className="hidden lg:inline">Espectro</span>
+             </button>
+             <button 
+                onClick={() => setShowTracks(!showTracks)}
+                className={`flex items-center gap-2 px-3 py-1.5 text-xs font-medium rounded border transition-colors ${showTracks ? 'bg-cyan-600 border-cyan-500 text-white' : 'text-slate-300 bg-slate-800 hover:bg-slate-700 hover:text-cyan-400 border-slate-700'}`}
+                title="Pistas del proyecto"
+             >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M3 6h18M3 12h18M3 18h18"/></svg>
+                <span className="hidden lg:inline">Pistas{tracks.length > 1 ? ` (${tracks.length})` : ''}</span>
+             </button>
 
              <div className="h-6 w-[1px] bg-slate-800"></div>
 
@@ -1349,6 +2659,8 @@ const App: React.FC = () => {
                     buffer={audioState.buffer}
                     measures={measures}
                     markers={markers}
+                    sections={sections}
+                    onSelectSection={handleSelectSection}
                     gridConfig={gridConfig}
                     currentTime={audioState.currentTime}
                     duration={audioState.duration}
@@ -1361,6 +2673,9 @@ const App: React.FC = () => {
                     autoScroll={autoScroll}
                     onUpdateMarkers={handleUpdateMarkers}
                     onUpdateSelection={handleUpdateSelection}
+                    taps={taps}
+                    lanes={timelineLanes}
+                    onLaneOffsetChange={(id, offset) => handleTrackChange(id, { offset })}
                 />
             </div>
 
@@ -1372,6 +2687,7 @@ const App: React.FC = () => {
                     gridConfig={gridConfig}
                     audioState={audioState}
                     onConfigChange={setGridConfig}
+                    onKeySignatureChange={handleKeySignatureChange}
                     onMeasureUpdate={handleMeasureUpdate}
                     onMeasureDurationChange={handleMeasureDurationChange}
                     onMeasureSelect={handleMeasureSelect}
@@ -1382,12 +2698,58 @@ const App: React.FC = () => {
                     onDeleteMeasure={handleDeleteMeasure}
                     onInsertMeasure={handleInsertMeasure}
                     onDuplicateSelection={handleDuplicateSelection}
+                    sections={sections}
+                    onAddSection={handleAddSection}
+                    onSelectSection={handleSelectSection}
+                    onUpdateSections={handleUpdateSections}
+                    onDuplicateSection={handleDuplicateSection}
+                    onMoveSection={handleMoveSection}
                     autoScroll={autoScroll}
                     onToggleAutoScroll={() => setAutoScroll(!autoScroll)}
                     onTranspose={handleTranspose}
+                    onOpenTranspose={() => setShowTranspose(true)}
+                    playbackSemitones={params.pitch}
+                    onDetectBeats={handleDetectBeats}
+                    isDetectingBeats={isDetectingBeats}
+                    onDetectChords={handleDetectChords}
+                    isDetectingChords={isDetectingChords}
+                    onDetectKey={handleDetectKey}
+                    isDetectingKey={isDetectingKey}
+                    hasSelection={isLoopRegion(selection)}
+                    tapMode={tapMode}
+                    tapCount={taps.length}
+                    tapBpm={getTapBpm(taps)}
+                    onTapModeChange={handleTapModeChange}
+                    onTap={handleTap}
+                    onTapCancel={handleTapCancel}
                 />
             </div>
 
+            {/* Live Spectrum */}
+            {showVisualizer && (
+                <div className="shrink-0 px-4 py-2 bg-slate-900 border-t border-slate-800">
+                    <Visualizer waveform={analysersRef.current?.waveform ?? null} fft={analysersRef.current?.fft ?? null} isPlaying={audioState.isPlaying} />
+                </div>
+            )}
+
+            {/* Tracks */}
+            {showTracks && (
+                <div className="shrink-0 px-4 py-2 bg-slate-900 border-t border-slate-800">
+                    <TrackPanel
+                        tracks={tracks}
+                        trackBuffers={trackBuffers}
+                        onTrackChange={handleTrackChange}
+                        onRemoveTrack={handleRemoveTrack}
+                        onAddTrack={handleAddTrack}
+                        onCompareTrack={handleCompareTrack}
+                        onAlignTrack={handleAlignTrack}
+                        aligningTrackId={aligningTrackId}
+                        fft={analysersRef.current?.fft ?? null}
+                        isPlaying={audioState.isPlaying}
+                    />
+                </div>
+            )}
+
             {/* Bottom Controls */}
             <div className="shrink-0 bg-slate-900 border-t border-slate-800 z-30">
                 <Controls 
@@ -1395,8 +2757,25 @@ const App: React.FC = () => {
                     audioState={audioState} 
                     onParamChange={handleParamChange} 
                     onTogglePlay={togglePlay}
+                    isRecording={isRecording}
+                    onToggleRecording={handleToggleRecording}
                     onSeek={handleSeek}
                     onJump={(delta) => handleSeek(audioState.currentTime + delta)}
+                    loopSettings={loopSettings}
+                    loopPass={loopPass}
+                    canLoop={isLoopRegion(selection)}
+                    onLoopSettingsChange={handleLoopSettingsChange}
+                    trainer={trainer}
+                    metronome={metronome}
+                    onMetronomeChange={setMetronome}
+                    chordPlayback={chordPlayback}
+                    onChordPlaybackChange={setChordPlayback}
+                    fft={analysersRef.current?.fft ?? null}
+                    stretchRenderState={stretchRenderState}
+                    onAutoTune={handleAutoTune}
+                    isDetectingTuning={isDetectingTuning}
+                    onTrainerChange={handleTrainerChange}
+                    onTrainerReset={handleTrainerReset}
                 />
             </div>
          </>
@@ -1446,6 +2825,60 @@ const App: React.FC = () => {
         />
       )}
 
+      {/* Beat Detection Proposal */}
+      {beatProposal && (
+        <ConfirmationModal
+            isOpen={true}
+            message={`Se detectó un pulso de ~${(60 / beatProposal.beatPeriod).toFixed(1)} BPM y ${beatProposal.downbeats.length} compases, con el primero en ${beatProposal.downbeats[0].toFixed(2)} s. ¿Aplicar a la grilla? (Se puede deshacer)`}
+            onConfirm={() => applyBeatProposal(beatProposal)}
+            onCancel={() => setBeatProposal(null)}
+        />
+      )}
+
+      {/* Chord Recognition: keep or overwrite existing chords */}
+      {chordProposal && (
+        <OptionsModal
+            isOpen={true}
+            title="Acordes detectados"
+            message="Algunos compases ya tienen acordes. ¿Quieres completar solo los vacíos o reemplazar todo? (Se puede deshacer)"
+            options={[
+                { label: 'Solo vacíos', onSelect: () => applyChordProposal(chordProposal, false) },
+                { label: 'Sobrescribir', onSelect: () => applyChordProposal(chordProposal, true) }
+            ]}
+            onCancel={() => setChordProposal(null)}
+        />
+      )}
+
+      {/* Key Detection Suggestion */}
+      {keyProposal && (
+        <OptionsModal
+            isOpen={true}
+            title="Tonalidad sugerida"
+            message={`${keyProposal.region ? `Entre ${keyProposal.region.start.toFixed(1)} s y ${keyProposal.region.end.toFixed(1)} s` : 'En todo el audio'}${keyProposal.usedChords ? ' (considerando los acordes cargados)' : ''}: ${keyProposal.candidates.slice(0, 3).map(c => `${keyName(c.tonic, c.minor)} ${Math.round(c.confidence * 100)}%`).join(' · ')}`}
+            options={keyProposal.candidates.slice(0, 3).reverse().map(c => ({
+                label: keyName(c.tonic, c.minor),
+                onSelect: () => applyKeyProposal(c)
+            }))}
+            onCancel={() => setKeyProposal(null)}
+        />
+      )}
+
+      {/* Audio Export */}
+      <ExportAudioModal
+          isOpen={showExportAudio}
+          hasSelection={isLoopRegion(selection)}
+          isRendering={isExportingAudio}
+          onExport={handleExportAudio}
+          onCancel={() => setShowExportAudio(false)}
+      />
+
+      <TransposeModal
+          isOpen={showTranspose}
+          keySignature={gridConfig.keySignature}
+          onTranspose={(semitones, targetKey) => { handleTranspose(semitones, targetKey); setShowTranspose(false); }}
+          onCancel={() => setShowTranspose(false)}
+      />
+
       {/* Alert Modal */}
       {alertModal && (
           <AlertModal
@@ -1,15 +1,37 @@
 
 import React, { useState } from 'react';
-import { MAX_PITCH_SEMITONES, MIN_PITCH_SEMITONES, MAX_SPEED, MIN_SPEED } from '../constants';
-import { AudioState, ProcessingParams } from '../types';
+import * as Tone from 'tone';
+import { MAX_PITCH_SEMITONES, MIN_PITCH_SEMITONES, MAX_DETUNE_CENTS, MAX_SPEED, MIN_SPEED } from '../constants';
+import { AudioState, ProcessingParams, LoopSettings, LoopCountIn, SpeedTrainer, MetronomeSettings, ChordPlaybackSettings, ChordVoice, ClickSubdivision, CenterMode, ChannelMode, FocusBand } from '../types';
+import { FOCUS_BANDS } from '../utils/isolation';
+import { ParametricEqEditor } from './ParametricEqEditor';
+import { StretchRenderState } from '../utils/stretchPlayer';
+import { referenceForCents } from '../utils/tuning';
 
 interface ControlsProps {
   params: ProcessingParams;
   audioState: AudioState;
-  onParamChange: (key: keyof ProcessingParams, value: number) => void;
+  onParamChange: <K extends keyof ProcessingParams>(key: K, value: ProcessingParams[K]) => void;
   onTogglePlay: () => void;
+  isRecording: boolean;
+  onToggleRecording: () => void;
   onSeek: (time: number) => void;
   onJump: (delta: number) => void;
+  loopSettings: LoopSettings;
+  loopPass: number;
+  canLoop: boolean; // There is a region/measure selection to loop over
+  onLoopSettingsChange: (settings: LoopSettings) => void;
+  trainer: SpeedTrainer;
+  onTrainerChange: (trainer: SpeedTrainer) => void;
+  onTrainerReset: () => void;
+  metronome: MetronomeSettings;
+  onMetronomeChange: (settings: MetronomeSettings) => void;
+  chordPlayback: ChordPlaybackSettings;
+  onChordPlaybackChange: (settings: ChordPlaybackSettings) => void;
+  fft: Tone.FFT | null; // Live spectrum for the EQ editor
+  stretchRenderState: StretchRenderState;
+  onAutoTune: () => void;
+  isDetectingTuning: boolean;
 }
 
 export const Controls: React.FC<ControlsProps> = ({ 
@@ -17,11 +39,40 @@ export const Controls: React.FC<ControlsProps> = ({
   audioState, 
   onParamChange, 
   onTogglePlay,
+  isRecording,
+  onToggleRecording,
   onSeek,
-  onJump
+  onJump,
+  loopSettings,
+  loopPass,
+  canLoop,
+  onLoopSettingsChange,
+  trainer,
+  onTrainerChange,
+  onTrainerReset,
+  metronome,
+  onMetronomeChange,
+  chordPlayback,
+  onChordPlaybackChange,
+  fft,
+  stretchRenderState,
+  onAutoTune,
+  isDetectingTuning
 }) => {
   
   const [showEQ, setShowEQ] = useState(false);
+  const [showTrainer, setShowTrainer] = useState(false);
+  const [showMetronome, setShowMetronome] = useState(false);
+  const [showChords, setShowChords] = useState(false);
+  const [showIsolation, setShowIsolation] = useState(false);
+
+  const isolationActive = params.center !== 'normal' || params.channel !== 'stereo' || params.balance !== 0 || params.focus !== 'off';
+
+  const trainerTarget = Math.min(trainer.targetSpeed, MAX_SPEED);
+  const trainerRange = trainerTarget - trainer.startSpeed;
+  const trainerProgress = trainerRange > 0
+    ? Math.max(0, Math.min(1, (params.speed - trainer.startSpeed) / trainerRange))
+    : 1;
 
   const formatSemitone = (val: number) => (val > 0 ? `+${val}` : val);
   const formatTime = (seconds: number) => {
@@ -30,15 +81,6 @@ export const Controls: React.FC<ControlsProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const applyEqPreset = (name: string) => {
-    switch(name) {
-      case 'bass': onParamChange('eqLow', 8); onParamChange('eqMid', -4); onParamChange('eqHigh', -12); break;
-      case 'voice': onParamChange('eqLow', -12); onParamChange('eqMid', 6); onParamChange('eqHigh', 2); break;
-      case 'detail': onParamChange('eqLow', -6); onParamChange('eqMid', 0); onParamChange('eqHigh', 8); break;
-      case 'flat': default: onParamChange('eqLow', 0); onParamChange('eqMid', 0); onParamChange('eqHigh', 0); break;
-    }
-  };
-
   return (
     <div className="flex flex-col md:flex-row items-center justify-between gap-4 px-4 max-w-7xl mx-auto h-20 md:h-14">
       
@@ -86,6 +128,70 @@ export const Controls: React.FC<ControlsProps> = ({
         <button onClick={() => onJump(5)} disabled={!audioState.isLoaded} className="p-2 text-slate-400 hover:text-white transition-colors" title="+5s">
             <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M13 17l5-5-5-5M6 17l5-5-5-5"/></svg>
          </button>
+
+         {/* Practice take */}
+         <button
+            onClick={onToggleRecording}
+            disabled={!audioState.isLoaded}
+            className={`w-7 h-7 rounded-full border flex items-center justify-center transition-colors ${
+                isRecording ? 'bg-red-600 border-red-500 animate-pulse' : 'bg-slate-800 border-slate-700 hover:border-red-500'
+            }`}
+            title={isRecording ? 'Terminar la toma (R)' : 'Grabarte tocando encima (R)'}
+         >
+            <span className={`block w-2.5 h-2.5 ${isRecording ? 'bg-white rounded-sm' : 'bg-red-500 rounded-full'}`}></span>
+         </button>
+
+         {/* Loop */}
+         <div className="flex items-center gap-1 ml-1">
+            <button
+                onClick={() => onLoopSettingsChange({ ...loopSettings, enabled: !loopSettings.enabled })}
+                disabled={!audioState.isLoaded}
+                className={`flex items-center gap-1 h-7 px-2 rounded border text-[10px] font-bold transition-colors ${
+                    loopSettings.enabled
+                    ? canLoop ? 'bg-green-600 border-green-500 text-white' : 'bg-green-900/30 border-green-800 text-green-500'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-300'
+                }`}
+                title={canLoop ? 'Repetir selección (L)' : 'Selecciona una región o compases para repetir (L)'}
+            >
+                <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M17 1l4 4-4 4"/><path d="M3 11V9a4 4 0 0 1 4-4h14"/><path d="M7 23l-4-4 4-4"/><path d="M21 13v2a4 4 0 0 1-4 4H3"/></svg>
+                LOOP
+            </button>
+            {loopSettings.enabled && (
+                <>
+                    <select
+                        value={loopSettings.countIn}
+                        onChange={(e) => onLoopSettingsChange({ ...loopSettings, countIn: e.target.value as LoopCountIn })}
+                        className="h-7 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300 px-1 focus:outline-none"
+                        title="Entrada antes de cada repetición"
+                    >
+                        <option value="none">Sin entrada</option>
+                        <option value="click">Claqueta</option>
+                        <option value="preroll">Pre-roll</option>
+                    </select>
+                    {loopSettings.countIn === 'click' && (
+                        <input
+                            type="number" min={1} max={16}
+                            value={loopSettings.countInBeats}
+                            onChange={(e) => onLoopSettingsChange({ ...loopSettings, countInBeats: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="w-10 h-7 bg-slate-800 border border-slate-700 rounded px-1 text-[10px] font-mono text-slate-300 focus:outline-none"
+                            title="Pulsos de claqueta"
+                        />
+                    )}
+                    {loopSettings.countIn === 'preroll' && (
+                        <input
+                            type="number" min={0.5} max={10} step={0.5}
+                            value={loopSettings.preRoll}
+                            onChange={(e) => onLoopSettingsChange({ ...loopSettings, preRoll: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-10 h-7 bg-slate-800 border border-slate-700 rounded px-1 text-[10px] font-mono text-slate-300 focus:outline-none"
+                            title="Segundos de pre-roll"
+                        />
+                    )}
+                    {canLoop && audioState.isPlaying && (
+                        <span className="text-[10px] font-mono font-bold text-green-400 min-w-[24px]" title="Repeticiones">×{loopPass}</span>
+                    )}
+                </>
+            )}
+         </div>
       </div>
 
       <div className="h-8 w-[1px] bg-slate-800 hidden md:block"></div>
@@ -104,19 +210,96 @@ export const Controls: React.FC<ControlsProps> = ({
                         {s * 100}%
                     </button>
                 ))}
+                <button
+                    onClick={() => onParamChange('stretchMode', params.stretchMode === 'hq' ? 'realtime' : 'hq')}
+                    className={`text-[9px] px-1.5 py-0.5 rounded border font-bold flex items-center gap-1 ${params.stretchMode === 'hq' ? 'bg-cyan-900 text-cyan-400 border-cyan-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                    title={params.stretchMode === 'hq'
+                        ? (stretchRenderState === 'rendering' ? 'Alta calidad: preparando la región…' : 'Alta calidad: reproduciendo la región pre-renderizada')
+                        : 'Tiempo real. Activa para pre-renderizar la región en alta calidad'}
+                >
+                    {params.stretchMode === 'hq' && stretchRenderState === 'rendering' && (
+                        <span className="w-2 h-2 border border-cyan-400 border-t-transparent rounded-full animate-spin"></span>
+                    )}
+                    HQ
+                </button>
+             </div>
+             <div className="flex items-center gap-1">
+                <input
+                    type="range" min={MIN_SPEED} max={MAX_SPEED} step={0.05}
+                    value={params.speed}
+                    onChange={(e) => onParamChange('speed', parseFloat(e.target.value))}
+                    className="w-24 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                    title={`Velocidad: ${params.speed.toFixed(2)}x`}
+                />
+
+                {/* Speed Trainer Toggle */}
+                <div className="relative">
+                    <button
+                        onClick={() => setShowTrainer(!showTrainer)}
+                        className={`text-[9px] px-1 py-0.5 rounded border font-bold ${trainer.enabled ? 'bg-green-900 text-green-400 border-green-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                        title="Entrenador de velocidad"
+                    >
+                        ↗
+                    </button>
+
+                    {/* TRAINER POPOVER */}
+                    {showTrainer && (
+                        <div className="absolute bottom-full right-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-64 z-50">
+                            <div className="flex justify-between items-center mb-3 border-b border-slate-800 pb-2">
+                                <span className="text-xs font-bold text-slate-400">ENTRENADOR DE VELOCIDAD</span>
+                                <button
+                                    onClick={() => onTrainerChange({ ...trainer, enabled: !trainer.enabled })}
+                                    className={`text-[9px] px-1.5 py-0.5 rounded border font-bold ${trainer.enabled ? 'bg-green-600 border-green-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                                >
+                                    {trainer.enabled ? 'ON' : 'OFF'}
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2 mb-3">
+                                {[
+                                    { label: 'Inicio %', key: 'startSpeed', val: Math.round(trainer.startSpeed * 100), min: MIN_SPEED * 100, max: MAX_SPEED * 100, scale: 100 },
+                                    { label: 'Objetivo %', key: 'targetSpeed', val: Math.round(trainer.targetSpeed * 100), min: MIN_SPEED * 100, max: MAX_SPEED * 100, scale: 100 },
+                                    { label: 'Paso %', key: 'step', val: Math.round(trainer.step * 100), min: 1, max: 50, scale: 100 },
+                                    { label: 'Cada N rep.', key: 'repsPerStep', val: trainer.repsPerStep, min: 1, max: 50, scale: 1 }
+                                ].map(f => (
+                                    <label key={f.key} className="flex flex-col gap-0.5">
+                                        <span className="text-[9px] text-slate-500 font-bold uppercase">{f.label}</span>
+                                        <input
+                                            type="number" min={f.min} max={f.max}
+                                            value={f.val}
+                                            onChange={(e) => {
+                                                const raw = Math.max(f.min, Math.min(f.max, parseFloat(e.target.value) || f.min));
+                                                onTrainerChange({ ...trainer, [f.key]: raw / f.scale });
+                                            }}
+                                            className="bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs font-mono text-slate-300 focus:border-green-500 focus:outline-none"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                            <div className="flex justify-between text-[9px] font-mono text-slate-500 mb-1">
+                                <span>{Math.round(params.speed * 100)}% / {Math.round(trainerTarget * 100)}%</span>
+                                <span>{params.speed >= trainerTarget ? '¡Objetivo alcanzado!' : `Rep. ${trainer.repsDone}/${trainer.repsPerStep}`}</span>
+                            </div>
+                            <div className="h-1.5 bg-slate-800 rounded overflow-hidden mb-3">
+                                <div className="h-full bg-green-500 transition-all" style={{ width: `${trainerProgress * 100}%` }}></div>
+                            </div>
+                            <button
+                                onClick={onTrainerReset}
+                                className="w-full text-[10px] py-1 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-slate-200"
+                            >
+                                Reiniciar ejercicio
+                            </button>
+                        </div>
+                    )}
+                </div>
              </div>
-             <input
-                type="range" min={MIN_SPEED} max={MAX_SPEED} step={0.05}
-                value={params.speed}
-                onChange={(e) => onParamChange('speed', parseFloat(e.target.value))}
-                className="w-24 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
-                title={`Velocidad: ${params.speed.toFixed(2)}x`}
-             />
           </div>
 
           {/* Pitch */}
            <div className="flex flex-col items-center gap-1">
-             <span className="text-[9px] font-mono text-slate-500">TONO: {formatSemitone(params.pitch)}</span>
+             <span className="text-[9px] font-mono text-slate-500">
+                TONO: {formatSemitone(params.pitch)}
+                {params.cents !== 0 && <span className="text-cyan-500"> {formatSemitone(params.cents)}¢</span>}
+             </span>
              <input
                 type="range" min={MIN_PITCH_SEMITONES} max={MAX_PITCH_SEMITONES} step={1}
                 value={params.pitch}
@@ -124,6 +307,35 @@ export const Controls: React.FC<ControlsProps> = ({
                 className="w-20 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
              />
           </div>
+
+          {/* Fine Tuning */}
+          <div className="flex flex-col items-center gap-1">
+             <div className="flex items-center gap-1">
+                <button
+                    onClick={() => onParamChange('cents', 0)}
+                    className="text-[9px] font-mono text-slate-500 hover:text-slate-300"
+                    title="Volver a 0 cents"
+                >
+                    ¢
+                </button>
+                <button
+                    onClick={onAutoTune}
+                    disabled={isDetectingTuning || !audioState.isLoaded}
+                    className="text-[9px] px-1 py-0.5 rounded border font-bold bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300 disabled:opacity-50 flex items-center gap-1"
+                    title="Estimar la afinación de la grabación y corregirla a A440"
+                >
+                    {isDetectingTuning && <span className="w-2 h-2 border border-cyan-400 border-t-transparent rounded-full animate-spin"></span>}
+                    A440
+                </button>
+             </div>
+             <input
+                type="range" min={-MAX_DETUNE_CENTS} max={MAX_DETUNE_CENTS} step={1}
+                value={params.cents}
+                onChange={(e) => onParamChange('cents', parseFloat(e.target.value))}
+                className="w-16 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                title={`Afinación fina: ${formatSemitone(params.cents)} cents (A = ${referenceForCents(params.cents).toFixed(1)} Hz)`}
+             />
+          </div>
       </div>
 
        <div className="h-8 w-[1px] bg-slate-800 hidden md:block"></div>
@@ -142,6 +354,204 @@ export const Controls: React.FC<ControlsProps> = ({
              <span className="text-[8px] text-slate-600 mt-1">VOL</span>
           </div>
          
+         {/* Metronome Toggle */}
+         <div className="relative">
+             <button 
+                onClick={() => setShowMetronome(!showMetronome)}
+                className={`ml-2 w-8 h-8 rounded border flex items-center justify-center text-sm transition-colors ${metronome.enabled ? 'bg-amber-600 border-amber-500 text-white' : showMetronome ? 'bg-slate-700 border-slate-600 text-slate-200' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                title="Metrónomo"
+             >
+                ♩
+             </button>
+
+             {/* METRONOME POPOVER */}
+             {showMetronome && (
+                 <div className="absolute bottom-full right-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-56 z-50">
+                     <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+                         <span className="text-xs font-bold text-slate-400">METRÓNOMO</span>
+                         <button
+                            onClick={() => onMetronomeChange({ ...metronome, enabled: !metronome.enabled })}
+                            className={`text-[9px] px-1.5 py-0.5 rounded border font-bold ${metronome.enabled ? 'bg-amber-600 border-amber-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                         >
+                            {metronome.enabled ? 'ON' : 'OFF'}
+                         </button>
+                     </div>
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Volumen</label>
+                     <input
+                        type="range" min={-40} max={0}
+                        value={metronome.volume}
+                        onChange={(e) => onMetronomeChange({ ...metronome, volume: parseFloat(e.target.value) })}
+                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer mb-4"
+                     />
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Subdivisión</label>
+                     <div className="flex gap-1 mt-1">
+                        {([
+                            { value: 1, label: '♩' },
+                            { value: 2, label: '♫' },
+                            { value: 3, label: '3' },
+                            { value: 4, label: '♬' }
+                        ] as { value: ClickSubdivision; label: string }[]).map(o => (
+                            <button
+                                key={o.value}
+                                onClick={() => onMetronomeChange({ ...metronome, subdivision: o.value })}
+                                className={`flex-1 text-xs py-0.5 rounded border ${metronome.subdivision === o.value ? 'bg-amber-900 text-amber-400 border-amber-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                            >
+                                {o.label}
+                            </button>
+                        ))}
+                     </div>
+                 </div>
+             )}
+         </div>
+
+         {/* Chord Playback Toggle */}
+         <div className="relative">
+             <button 
+                onClick={() => setShowChords(!showChords)}
+                className={`ml-2 w-8 h-8 rounded border flex items-center justify-center font-bold text-[10px] transition-colors ${chordPlayback.enabled ? 'bg-indigo-600 border-indigo-500 text-white' : showChords ? 'bg-slate-700 border-slate-600 text-slate-200' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                title="Escuchar los acordes del cifrado"
+             >
+                ACO
+             </button>
+
+             {/* CHORD PLAYBACK POPOVER */}
+             {showChords && (
+                 <div className="absolute bottom-full right-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-56 z-50">
+                     <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+                         <span className="text-xs font-bold text-slate-400">ACORDES</span>
+                         <button
+                            onClick={() => onChordPlaybackChange({ ...chordPlayback, enabled: !chordPlayback.enabled })}
+                            className={`text-[9px] px-1.5 py-0.5 rounded border font-bold ${chordPlayback.enabled ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                         >
+                            {chordPlayback.enabled ? 'ON' : 'OFF'}
+                         </button>
+                     </div>
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Sonido</label>
+                     <div className="flex gap-1 mt-1 mb-4">
+                        {([
+                            { value: 'piano', label: 'Piano' },
+                            { value: 'pad', label: 'Pad' },
+                            { value: 'guitar', label: 'Guitarra' }
+                        ] as { value: ChordVoice; label: string }[]).map(o => (
+                            <button
+                                key={o.value}
+                                onClick={() => onChordPlaybackChange({ ...chordPlayback, voice: o.value })}
+                                className={`flex-1 text-[10px] py-0.5 rounded border ${chordPlayback.voice === o.value ? 'bg-indigo-900 text-indigo-300 border-indigo-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                            >
+                                {o.label}
+                            </button>
+                        ))}
+                     </div>
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Volumen</label>
+                     <input
+                        type="range" min={-40} max={0}
+                        value={chordPlayback.volume}
+                        onChange={(e) => onChordPlaybackChange({ ...chordPlayback, volume: parseFloat(e.target.value) })}
+                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer mb-4"
+                     />
+                     <label className="flex items-center gap-2 text-[10px] text-slate-300 cursor-pointer" title="Silencia la grabación para escuchar solo el cifrado">
+                        <input
+                            type="checkbox"
+                            checked={chordPlayback.solo}
+                            onChange={(e) => onChordPlaybackChange({ ...chordPlayback, solo: e.target.checked })}
+                            className="accent-indigo-500"
+                        />
+                        Solo acordes (sin la grabación)
+                     </label>
+                 </div>
+             )}
+         </div>
+
+         {/* Isolation Toggle */}
+         <div className="relative">
+             <button 
+                onClick={() => setShowIsolation(!showIsolation)}
+                className={`ml-2 w-8 h-8 rounded border flex items-center justify-center font-bold text-[10px] transition-colors ${showIsolation || isolationActive ? 'bg-rose-600 border-rose-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                title="Aislar instrumentos"
+             >
+                ISO
+             </button>
+
+             {showIsolation && (
+                 <div className="absolute bottom-full right-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-64 z-50">
+                     <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
+                         <span className="text-xs font-bold text-slate-400">AISLAR</span>
+                         <button
+                            onClick={() => {
+                                onParamChange('center', 'normal');
+                                onParamChange('channel', 'stereo');
+                                onParamChange('balance', 0);
+                                onParamChange('focus', 'off');
+                            }}
+                            className="text-[9px] px-1 bg-slate-800 border border-slate-700 text-slate-400"
+                         >
+                            RESET
+                         </button>
+                     </div>
+
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Centro (voz, bajo, bombo)</label>
+                     <div className="flex gap-1 mt-1 mb-3">
+                        {([
+                            { value: 'normal', label: 'Normal' },
+                            { value: 'cancel', label: 'Quitar' },
+                            { value: 'solo', label: 'Solo' }
+                        ] as { value: CenterMode; label: string }[]).map(o => (
+                            <button
+                                key={o.value}
+                                onClick={() => onParamChange('center', o.value)}
+                                className={`flex-1 text-[10px] py-0.5 rounded border ${params.center === o.value ? 'bg-rose-900 text-rose-300 border-rose-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                            >
+                                {o.label}
+                            </button>
+                        ))}
+                     </div>
+
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Canal</label>
+                     <div className="flex gap-1 mt-1 mb-2">
+                        {([
+                            { value: 'stereo', label: 'Estéreo' },
+                            { value: 'left', label: 'Solo Izq' },
+                            { value: 'right', label: 'Solo Der' }
+                        ] as { value: ChannelMode; label: string }[]).map(o => (
+                            <button
+                                key={o.value}
+                                onClick={() => onParamChange('channel', o.value)}
+                                className={`flex-1 text-[10px] py-0.5 rounded border ${params.channel === o.value ? 'bg-rose-900 text-rose-300 border-rose-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                            >
+                                {o.label}
+                            </button>
+                        ))}
+                     </div>
+                     <div className="flex items-center gap-2 mb-3">
+                        <span className="text-[9px] text-slate-500">L</span>
+                        <input
+                            type="range" min={-1} max={1} step={0.05}
+                            value={params.balance}
+                            onChange={(e) => onParamChange('balance', parseFloat(e.target.value))}
+                            onDoubleClick={() => onParamChange('balance', 0)}
+                            className="flex-1 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-rose-500"
+                            title="Balance (doble click para centrar)"
+                        />
+                        <span className="text-[9px] text-slate-500">R</span>
+                     </div>
+
+                     <label className="text-[9px] text-slate-500 font-bold uppercase">Foco</label>
+                     <div className="grid grid-cols-3 gap-1 mt-1">
+                        {(['off', ...Object.keys(FOCUS_BANDS)] as FocusBand[]).map(band => (
+                            <button
+                                key={band}
+                                onClick={() => onParamChange('focus', band)}
+                                className={`text-[10px] py-0.5 rounded border ${params.focus === band ? 'bg-rose-900 text-rose-300 border-rose-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+                                title={band === 'off' ? 'Sin filtro' : `${FOCUS_BANDS[band].low} - ${FOCUS_BANDS[band].high} Hz`}
+                            >
+                                {band === 'off' ? 'Todo' : FOCUS_BANDS[band].label}
+                            </button>
+                        ))}
+                     </div>
+                 </div>
+             )}
+         </div>
+
          {/* FX Toggle */}
          <div className="relative">
              <button 
@@ -153,33 +563,16 @@ export const Controls: React.FC<ControlsProps> = ({
 
              {/* EQ POPOVER */}
              {showEQ && (
-                 <div className="absolute bottom-full right-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-64 z-50">
-                     <div className="flex justify-between items-center mb-4 border-b border-slate-800 pb-2">
-                         <span className="text-xs font-bold text-slate-400">EQ & MEZCLA</span>
-                         <div className="flex gap-1">
-                             <button onClick={() => applyEqPreset('bass')} className="text-[9px] px-1 bg-slate-800 border border-slate-700 text-purple-400">BASS</button>
-                             <button onClick={() => applyEqPreset('voice')} className="text-[9px] px-1 bg-slate-800 border border-slate-700 text-green-400">MID</button>
-                             <button onClick={() => applyEqPreset('flat')} className="text-[9px] px-1 bg-slate-800 border border-slate-700 text-slate-400">FLAT</button>
-                         </div>
-                     </div>
-                     <div className="flex justify-between gap-2 h-32">
-                        {[
-                            { label: 'LO', param: 'eqLow', val: params.eqLow },
-                            { label: 'MID', param: 'eqMid', val: params.eqMid },
-                            { label: 'HI', param: 'eqHigh', val: params.eqHigh }
-                        ].map((b) => (
-                            <div key={b.label} className="flex-1 flex flex-col items-center bg-slate-950/50 rounded py-2">
-                                <input 
-                                    type="range" min="-15" max="15" 
-                                    value={b.val} 
-                                    onChange={(e) => onParamChange(b.param as any, parseFloat(e.target.value))}
-                                    className="h-full w-2 appearance-none bg-slate-700 rounded cursor-pointer"
-                                    style={{ writingMode: 'vertical-lr', WebkitAppearance: 'slider-vertical' } as any}
-                                />
-                                <span className="text-[9px] text-slate-500 mt-2">{b.label}</span>
-                            </div>
-                        ))}
+                 <div className="absolute bottom-full right-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-[26rem] z-50">
+                     <div className="flex justify-between items-center mb-3 border-b border-slate-800 pb-2">
+                         <span className="text-xs font-bold text-slate-400">EQ PARAMÉTRICO</span>
                      </div>
+                     <ParametricEqEditor
+                        bands={params.eqBands}
+                        onChange={(bands) => onParamChange('eqBands', bands)}
+                        fft={fft}
+                        isPlaying={audioState.isPlaying}
+                     />
                  </div>
              )}
          </div>
@@ -1,6 +1,13 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GridConfig, Measure, AudioState, BeatUnit } from '../types';
+import { GridConfig, Measure, AudioState, BeatUnit, TapMode, Section } from '../types';
+import { RenameModal } from './Modals';
+import { SECTION_COLORS } from '../constants';
+import { keyName, keyTonic } from '../utils/music';
+import { getBeatsPerMeasure } from '../utils/grid';
+import { parseMeasureChords } from '../utils/chords';
+import { ChordNotation, cellToNotation, cellFromNotation } from '../utils/numerals';
+import { sectionAt } from '../utils/sections';
 
 interface MeasureGridProps {
   measures: Measure[];
@@ -8,6 +15,7 @@ interface MeasureGridProps {
   gridConfig: GridConfig;
   audioState: AudioState;
   onConfigChange: (newConfig: GridConfig) => void;
+  onKeySignatureChange: (keySignature: string, keepDegrees: boolean) => void;
   onMeasureUpdate: (index: number, field: keyof Measure, value: any) => void;
   onMeasureDurationChange: (index: number, newDuration: number) => void;
   onMeasureSelect: (index: number, isShift: boolean, isCtrl: boolean) => void;
@@ -18,9 +26,30 @@ interface MeasureGridProps {
   onDeleteMeasure: (index: number) => void;
   onInsertMeasure: (index: number, position: 'before' | 'after') => void;
   onDuplicateSelection: () => void;
+  sections: Section[];
+  onAddSection: () => void; // Over the selected measures
+  onSelectSection: (id: string) => void;
+  onUpdateSections: (sections: Section[]) => void;
+  onDuplicateSection: (id: string) => void;
+  onMoveSection: (id: string, direction: -1 | 1) => void;
   autoScroll: boolean;
   onToggleAutoScroll: () => void;
   onTranspose: (semitones: number) => void;
+  onOpenTranspose: () => void; // Transpose to a chosen key
+  playbackSemitones: number; // Whole-semitone part of the playback pitch shift
+  onDetectBeats: () => void;
+  isDetectingBeats: boolean;
+  onDetectChords: () => void;
+  isDetectingChords: boolean;
+  onDetectKey: (onlySelection: boolean) => void;
+  isDetectingKey: boolean;
+  hasSelection: boolean;
+  tapMode: TapMode;
+  tapCount: number;
+  tapBpm: number | null;
+  onTapModeChange: (mode: TapMode) => void;
+  onTap: () => void;
+  onTapCancel: () => void;
 }
 
 export const MeasureGrid: React.FC<MeasureGridProps> = ({
@@ -29,6 +58,7 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
   gridConfig,
   audioState,
   onConfigChange,
+  onKeySignatureChange,
   onMeasureUpdate,
   onMeasureDurationChange,
   onMeasureSelect,
@@ -39,12 +69,57 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
   onDeleteMeasure,
   onInsertMeasure,
   onDuplicateSelection,
+  sections,
+  onAddSection,
+  onSelectSection,
+  onUpdateSections,
+  onDuplicateSection,
+  onMoveSection,
   autoScroll,
   onToggleAutoScroll,
-  onTranspose
+  onTranspose,
+  onOpenTranspose,
+  playbackSemitones,
+  onDetectBeats,
+  isDetectingBeats,
+  onDetectChords,
+  isDetectingChords,
+  onDetectKey,
+  isDetectingKey,
+  hasSelection,
+  tapMode,
+  tapCount,
+  tapBpm,
+  onTapModeChange,
+  onTap,
+  onTapCancel
 }) => {
+  const beatsPerMeasure = getBeatsPerMeasure(gridConfig);
+  const soundingKey = keyName(keyTonic(gridConfig.keySignature) + playbackSemitones, gridConfig.keySignature.endsWith('m'));
+
   // State for menu
   const [activeMenu, setActiveMenu] = useState<number | null>(null);
+
+  // Chords are stored as letters; the cell being typed in keeps its text until it loses focus so
+  // the converted notation doesn't rewrite it mid-edit
+  const [notation, setNotation] = useState<ChordNotation>('letters');
+  const [chordDraft, setChordDraft] = useState<{ index: number; text: string } | null>(null);
+
+  const [sectionMenu, setSectionMenu] = useState<string | null>(null);
+  const [renamingSection, setRenamingSection] = useState<Section | null>(null);
+
+  const updateSection = (id: string, changes: Partial<Section>) =>
+      onUpdateSections(sections.map(s => s.id === id ? { ...s, ...changes } : s));
+
+  // The song form: sections in order, with the runs of measures outside any section between them
+  const formBlocks: { section: Section | null; start: number; end: number }[] = [];
+  for (let index = 1; index <= measures.length;) {
+      const section = sectionAt(sections, index) ?? null;
+      const next = sections.filter(s => s.start > index).reduce((min, s) => Math.min(min, s.start), measures.length + 1);
+      const end = section ? Math.min(section.end, measures.length) : next - 1;
+      formBlocks.push({ section, start: index, end });
+      index = end + 1;
+  }
   const gridContainerRef = useRef<HTMLDivElement>(null);
 
   const getStandardDuration = () => {
@@ -105,7 +180,7 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
   };
 
   return (
-    <div className="flex flex-col h-full bg-slate-950" onClick={() => setActiveMenu(null)}>
+    <div className="flex flex-col h-full bg-slate-950" onClick={() => { setActiveMenu(null); setSectionMenu(null); }}>
       
       {/* Toolbar - Simplified */}
       <div className="flex flex-wrap items-center gap-4 px-4 py-2 bg-slate-900 border-b border-slate-800 sticky top-0 z-20 shadow-md h-14 shrink-0">
@@ -128,9 +203,59 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
                 onBlur={onCommitChanges}
                 className="w-14 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs font-mono text-cyan-400 focus:border-cyan-500 focus:outline-none"
               />
+              <button 
+                onClick={(e) => { e.stopPropagation(); onDetectBeats(); }}
+                disabled={isDetectingBeats || !audioState.isLoaded}
+                className="h-6 px-2 flex items-center justify-center bg-slate-800 border border-slate-700 rounded text-[10px] font-bold hover:bg-slate-700 text-cyan-400 disabled:opacity-50"
+                title="Detectar tempo y compases desde el audio"
+              >
+                  {isDetectingBeats ? (
+                      <div className="w-3 h-3 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin"></div>
+                  ) : 'AUTO'}
+              </button>
           </div>
         </div>
 
+        {/* Tap Tempo / Downbeats */}
+        <div className="flex flex-col">
+          <label className="text-[9px] text-slate-500 font-bold uppercase">Tap (T)</label>
+          {tapMode === 'off' ? (
+              <div className="flex gap-1">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onTapModeChange('tempo'); }}
+                    disabled={!audioState.isLoaded}
+                    className="h-6 px-2 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                    title="Marcar el pulso con la tecla T mientras suena el audio"
+                  >
+                      Pulso
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onTapModeChange('downbeats'); }}
+                    disabled={!audioState.isLoaded}
+                    className="h-6 px-2 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300 hover:bg-slate-700 disabled:opacity-50"
+                    title="Marcar el inicio de cada compás con la tecla T mientras suena el audio"
+                  >
+                      Compases
+                  </button>
+              </div>
+          ) : (
+              <div className="flex items-center gap-1">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onTap(); }}
+                    className={`h-6 px-2 rounded text-[10px] font-bold border ${audioState.isPlaying ? 'bg-amber-600 border-amber-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-500'}`}
+                    title={audioState.isPlaying ? 'Tap' : 'Reproduce el audio para marcar'}
+                  >
+                      {tapMode === 'tempo' ? 'PULSO' : 'COMPÁS'} · {tapCount}
+                  </button>
+                  {tapMode === 'tempo' && (
+                      <span className="text-[10px] font-mono text-amber-400 w-12">{tapBpm ? tapBpm.toFixed(1) : '--'}</span>
+                  )}
+                  <button onClick={(e) => { e.stopPropagation(); onTapModeChange('off'); }} className="h-6 px-1.5 bg-emerald-700 border border-emerald-600 rounded text-[10px] text-white" title="Aplicar (Enter)">✓</button>
+                  <button onClick={(e) => { e.stopPropagation(); onTapCancel(); }} className="h-6 px-1.5 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-400 hover:text-red-400" title="Cancelar (Esc)">✕</button>
+              </div>
+          )}
+        </div>
+
         <div className="flex flex-col">
              <label className="text-[9px] text-slate-500 font-bold uppercase">Métrica</label>
              <div className="flex items-center bg-slate-800 border border-slate-700 rounded px-2 py-0.5 gap-1 w-16">
@@ -155,13 +280,45 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
           <input 
             type="text" 
             value={gridConfig.keySignature}
-            onChange={(e) => onConfigChange({...gridConfig, keySignature: e.target.value})}
+            onChange={(e) => onKeySignatureChange(e.target.value, notation !== 'letters')}
             onBlur={onCommitChanges}
+            title={notation !== 'letters' ? 'Con el cifrado en grados, los acordes se reescriben en la nueva tonalidad' : undefined}
             className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-xs font-mono text-yellow-400 focus:border-yellow-500 focus:outline-none text-center"
             placeholder="Key"
           />
         </div>
 
+        {/* Key Detection */}
+        <div className="flex flex-col">
+          <label className="text-[9px] text-slate-500 font-bold uppercase">Estimar</label>
+          <div className="flex gap-1">
+              {isDetectingKey ? (
+                  <div className="h-6 w-8 flex items-center justify-center">
+                      <div className="w-3 h-3 border-2 border-yellow-500 border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+              ) : (
+                  <>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onDetectKey(false); }}
+                        disabled={!audioState.isLoaded}
+                        className="h-6 px-2 bg-slate-800 border border-slate-700 rounded text-[10px] font-bold hover:bg-slate-700 text-yellow-400 disabled:opacity-50"
+                        title="Estimar la tonalidad de todo el audio"
+                      >
+                          AUTO
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onDetectKey(true); }}
+                        disabled={!audioState.isLoaded || !hasSelection}
+                        className="h-6 px-2 bg-slate-800 border border-slate-700 rounded text-[10px] font-bold hover:bg-slate-700 text-yellow-400 disabled:opacity-50"
+                        title="Estimar la tonalidad solo de la región seleccionada (para detectar modulaciones)"
+                      >
+                          SEL
+                      </button>
+                  </>
+              )}
+          </div>
+        </div>
+
         <div className="h-8 w-[1px] bg-slate-800 mx-2"></div>
 
         {/* Transpose Controls */}
@@ -170,9 +327,71 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
              <div className="flex gap-1">
                 <button onClick={(e) => { e.stopPropagation(); onTranspose(-1); }} className="px-2 py-0.5 bg-slate-800 border border-slate-700 text-slate-300 rounded text-xs hover:bg-slate-700 font-mono">-1</button>
                 <button onClick={(e) => { e.stopPropagation(); onTranspose(1); }} className="px-2 py-0.5 bg-slate-800 border border-slate-700 text-slate-300 rounded text-xs hover:bg-slate-700 font-mono">+1</button>
+                <button onClick={(e) => { e.stopPropagation(); onOpenTranspose(); }} className="px-2 py-0.5 bg-slate-800 border border-slate-700 text-slate-300 rounded text-xs hover:bg-slate-700" title="Transponer a otra tonalidad o ver opciones de cejilla">Tono…</button>
+                {playbackSemitones !== 0 && (
+                    <span
+                        className="px-1.5 py-0.5 bg-cyan-950/50 border border-cyan-900 text-cyan-400 rounded text-[10px] font-mono font-bold"
+                        title={`La reproducción está transportada ${playbackSemitones > 0 ? '+' : ''}${playbackSemitones} semitonos: suena en ${soundingKey}`}
+                    >
+                        ♪ {playbackSemitones > 0 ? '+' : ''}{playbackSemitones} → {soundingKey}
+                    </span>
+                )}
+             </div>
+        </div>
+
+        {/* Chord Recognition */}
+        <div className="flex flex-col">
+             <label className="text-[9px] text-slate-500 font-bold uppercase mb-0.5">Acordes</label>
+             <button
+                onClick={(e) => { e.stopPropagation(); onDetectChords(); }}
+                disabled={isDetectingChords || !audioState.isLoaded}
+                className="h-6 px-2 flex items-center justify-center bg-slate-800 border border-slate-700 rounded text-[10px] font-bold hover:bg-slate-700 text-yellow-400 disabled:opacity-50"
+                title="Detectar acordes desde el audio, alineados a los pulsos de cada compás"
+             >
+                 {isDetectingChords ? (
+                     <div className="w-3 h-3 border-2 border-yellow-500 border-t-transparent rounded-full animate-spin"></div>
+                 ) : 'AUTO'}
+             </button>
+        </div>
+
+        {/* Chord Notation */}
+        <div className="flex flex-col">
+             <label className="text-[9px] text-slate-500 font-bold uppercase mb-0.5">Cifrado</label>
+             <div className="flex">
+                {([
+                    ['letters', 'C', 'Nombres de los acordes'],
+                    ['roman', 'I', 'Grados en números romanos (ii7 V7 I, V7/V)'],
+                    ['nashville', '1', 'Sistema numérico de Nashville (2m7 5 1)']
+                ] as [ChordNotation, string, string][]).map(([value, label, title]) => (
+                    <button
+                        key={value}
+                        onClick={(e) => { e.stopPropagation(); setNotation(value); }}
+                        className={`w-7 py-0.5 border text-xs font-bold first:rounded-l last:rounded-r ${
+                            notation === value
+                                ? 'bg-indigo-600 border-indigo-500 text-white'
+                                : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                        }`}
+                        title={title}
+                    >
+                        {label}
+                    </button>
+                ))}
              </div>
         </div>
 
+        {/* Sections */}
+        <div className="flex flex-col">
+             <label className="text-[9px] text-slate-500 font-bold uppercase mb-0.5">Secciones</label>
+             <button
+                onClick={(e) => { e.stopPropagation(); onAddSection(); }}
+                disabled={selectedMeasureIndices.length === 0}
+                className="h-6 px-2 bg-slate-800 border border-slate-700 rounded text-[10px] font-bold hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+                title="Crear una sección (estrofa, estribillo...) con los compases seleccionados"
+             >
+                 + Sección
+             </button>
+        </div>
+
         <div className="flex-1"></div>
 
         <div className="flex gap-2">
@@ -191,11 +410,71 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
 
       {/* Grid Area - Full width cards */}
       <div className="flex-1 overflow-y-auto p-4 pb-20 bg-slate-950" ref={gridContainerRef}>
+        {/* Song form: one band per section, as wide as its measures */}
+        {sections.length > 0 && (
+            <div className="flex gap-0.5 mb-3 h-7">
+                {formBlocks.map(({ section, start, end }) => section ? (
+                    <div
+                        key={section.id}
+                        className="relative min-w-0 flex items-center rounded border text-[10px] font-bold text-white"
+                        style={{ flexGrow: end - start + 1, flexBasis: 0, backgroundColor: `${section.color}44`, borderColor: section.color }}
+                    >
+                        <button
+                            className="flex-1 min-w-0 h-full px-2 flex items-center gap-1 overflow-hidden whitespace-nowrap text-left"
+                            onClick={(e) => { e.stopPropagation(); onSelectSection(section.id); }}
+                            title={`Compases ${section.start}-${section.end}. Click para seleccionar y repetir en bucle`}
+                        >
+                            <span className="truncate">{section.name}</span>
+                            {section.repeats > 1 && <span className="text-white/70">×{section.repeats}</span>}
+                        </button>
+                        <button
+                            className="px-1 h-full text-white/60 hover:text-white"
+                            onClick={(e) => { e.stopPropagation(); setSectionMenu(sectionMenu === section.id ? null : section.id); }}
+                        >
+                            ⋮
+                        </button>
+
+                        {sectionMenu === section.id && (
+                            <div className="absolute right-0 top-7 w-40 bg-slate-800 border border-slate-700 rounded shadow-xl z-50 flex flex-col text-[10px] font-normal" onClick={(e) => e.stopPropagation()}>
+                                <button className="px-2 py-1.5 text-left hover:bg-slate-700 text-slate-300" onClick={() => { setRenamingSection(section); setSectionMenu(null); }}>Renombrar</button>
+                                <div className="flex gap-1 px-2 py-1.5 border-t border-slate-700">
+                                    {SECTION_COLORS.map(color => (
+                                        <button
+                                            key={color}
+                                            className={`w-3.5 h-3.5 rounded-full ${section.color === color ? 'ring-2 ring-white' : ''}`}
+                                            style={{ backgroundColor: color }}
+                                            onClick={() => updateSection(section.id, { color })}
+                                        />
+                                    ))}
+                                </div>
+                                <div className="flex items-center justify-between px-2 py-1 border-t border-slate-700 text-slate-300">
+                                    <span>Repeticiones</span>
+                                    <div className="flex items-center gap-1">
+                                        <button className="w-5 h-5 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-40" disabled={section.repeats <= 1} onClick={() => updateSection(section.id, { repeats: section.repeats - 1 })}>−</button>
+                                        <span className="w-4 text-center font-mono">{section.repeats}</span>
+                                        <button className="w-5 h-5 bg-slate-700 rounded hover:bg-slate-600" onClick={() => updateSection(section.id, { repeats: section.repeats + 1 })}>+</button>
+                                    </div>
+                                </div>
+                                <button className="px-2 py-1.5 text-left hover:bg-slate-700 text-indigo-300 border-t border-slate-700" onClick={() => { onDuplicateSection(section.id); setSectionMenu(null); }}>Duplicar Sección</button>
+                                <button className="px-2 py-1.5 text-left hover:bg-slate-700 text-slate-300 disabled:opacity-40" disabled={section.start <= 1} onClick={() => onMoveSection(section.id, -1)}>◀ Mover Antes</button>
+                                <button className="px-2 py-1.5 text-left hover:bg-slate-700 text-slate-300 disabled:opacity-40" disabled={section.end >= measures.length} onClick={() => onMoveSection(section.id, 1)}>Mover Después ▶</button>
+                                <button className="px-2 py-1.5 text-left hover:bg-red-900/20 text-red-400 border-t border-slate-700" onClick={() => { onUpdateSections(sections.filter(s => s.id !== section.id)); setSectionMenu(null); }}>Eliminar Sección</button>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <div key={`gap-${start}`} className="rounded border border-dashed border-slate-800" style={{ flexGrow: end - start + 1, flexBasis: 0 }} />
+                ))}
+            </div>
+        )}
+
         <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
           {measures.map((measure, i) => {
              const isPlaying = playingMeasureIndex === measure.index;
              const isSelected = selectedMeasureIndices.includes(measure.index);
              const layout = measureLayout.find(l => l.index === measure.index);
+             const chordErrors = parseMeasureChords(measure.chords, beatsPerMeasure).errors;
+             const section = sectionAt(sections, measure.index);
              
              return (
                <div 
@@ -212,6 +491,10 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
                       onMeasureSelect(measure.index, e.shiftKey, e.ctrlKey || e.metaKey);
                   }}
                >
+                  {section && (
+                      <div className="absolute inset-x-0 top-0 h-0.5 rounded-t pointer-events-none" style={{ backgroundColor: section.color }} />
+                  )}
+
                   {/* Header */}
                   <div 
                     className={`flex justify-between items-center px-2 py-0.5 rounded-t cursor-pointer transition-colors border-b ${
@@ -238,6 +521,9 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
                         >
                         {measure.index}
                         </span>
+                        {section?.start === measure.index && (
+                            <span className="text-[9px] font-bold truncate max-w-[5rem]" style={{ color: section.color }}>{section.name}</span>
+                        )}
                         
                         {/* Mini Play Button */}
                         <button
@@ -288,11 +574,20 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
                   {/* Chords Input */}
                   <input
                     type="text"
-                    value={measure.chords}
-                    onChange={(e) => onMeasureUpdate(measure.index, 'chords', e.target.value)}
-                    onBlur={onCommitChanges}
-                    className={`w-full bg-transparent px-1 py-1 font-bold text-sm placeholder-indigo-900/30 focus:outline-none text-center ${isSelected ? 'text-indigo-200' : 'text-indigo-400'}`}
+                    value={chordDraft?.index === measure.index ? chordDraft.text : cellToNotation(measure.chords, gridConfig.keySignature, notation)}
+                    onChange={(e) => {
+                        setChordDraft({ index: measure.index, text: e.target.value });
+                        onMeasureUpdate(measure.index, 'chords', cellFromNotation(e.target.value, gridConfig.keySignature, notation, measure.chords));
+                    }}
+                    onBlur={() => { setChordDraft(null); onCommitChanges(); }}
+                    className={`w-full bg-transparent px-1 py-1 font-bold text-sm placeholder-indigo-900/30 focus:outline-none text-center ${
+                      chordErrors.length > 0
+                        ? 'text-red-400 underline decoration-wavy decoration-red-500/70'
+                        : isSelected ? 'text-indigo-200' : 'text-indigo-400'
+                    }`}
                     placeholder="-"
+                    title={chordErrors.length > 0 ? chordErrors.join('\n') : undefined}
+                    aria-invalid={chordErrors.length > 0}
                   />
 
                   {/* Lyrics Input */}
@@ -317,6 +612,16 @@ export const MeasureGrid: React.FC<MeasureGridProps> = ({
           </button>
         </div>
       </div>
+
+      {renamingSection && (
+          <RenameModal
+              isOpen={true}
+              title="Renombrar Sección"
+              initialValue={renamingSection.name}
+              onSave={(name) => { if (name.trim()) updateSection(renamingSection.id, { name: name.trim() }); setRenamingSection(null); }}
+              onCancel={() => setRenamingSection(null)}
+          />
+      )}
     </div>
   );
 };
\ No newline at end of file
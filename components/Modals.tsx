@@ -1,5 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
+import { WavBitDepth } from '../utils/wav';
+import { keySignatures, keyTonic, parseKey, capoOptions } from '../utils/music';
 
 interface ModalProps {
     isOpen: boolean;
@@ -42,6 +44,28 @@ export const AlertModal = ({ isOpen, message, onClose }: { isOpen: boolean; mess
     );
 };
 
+export const OptionsModal = ({ isOpen, title, message, options, onCancel }: { isOpen: boolean; title: string; message: string; options: { label: string; onSelect: () => void }[]; onCancel: () => void }) => {
+    return (
+        <BaseModal isOpen={isOpen} title={title}>
+            <p className="text-slate-400 mb-6 text-sm">{message}</p>
+            <div className="flex justify-end gap-3 flex-wrap">
+                <button onClick={onCancel} className="px-4 py-2 rounded text-slate-300 hover:bg-slate-800 text-sm font-medium">Cancelar</button>
+                {options.map((option, i) => (
+                    <button
+                        key={option.label}
+                        onClick={option.onSelect}
+                        className={i === options.length - 1
+                            ? "px-4 py-2 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium shadow-lg shadow-cyan-900/20"
+                            : "px-4 py-2 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 text-sm border border-slate-700"}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+        </BaseModal>
+    );
+};
+
 export const RenameModal = ({ isOpen, title, initialValue, onSave, onCancel }: { isOpen: boolean; title: string; initialValue: string; onSave: (val: string) => void; onCancel: () => void }) => {
     const [value, setValue] = useState(initialValue);
     
@@ -70,3 +94,130 @@ export const RenameModal = ({ isOpen, title, initialValue, onSave, onCancel }: {
         </BaseModal>
     );
 };
+
+export interface AudioExportOptions {
+    range: 'all' | 'selection';
+    metronome: boolean;
+    bitDepth: WavBitDepth;
+}
+
+export const ExportAudioModal = ({ isOpen, hasSelection, isRendering, onExport, onCancel }: { isOpen: boolean; hasSelection: boolean; isRendering: boolean; onExport: (options: AudioExportOptions) => void; onCancel: () => void }) => {
+    const [options, setOptions] = useState<AudioExportOptions>({ range: 'all', metronome: false, bitDepth: 16 });
+
+    // Default to the selection whenever there is one
+    useEffect(() => {
+        if (isOpen) setOptions(prev => ({ ...prev, range: hasSelection ? 'selection' : 'all' }));
+    }, [isOpen, hasSelection]);
+
+    const optionClass = (active: boolean) =>
+        `flex-1 px-2 py-1.5 rounded text-xs font-medium border ${active ? 'bg-cyan-900 text-cyan-300 border-cyan-700' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200'}`;
+
+    return (
+        <BaseModal isOpen={isOpen} title="Exportar audio (WAV)">
+            <p className="text-slate-400 mb-4 text-sm">Se renderiza con la velocidad, el tono, el aislamiento y la ecualización actuales.</p>
+
+            <label className="block text-[10px] text-slate-500 font-bold uppercase mb-1">Rango</label>
+            <div className="flex gap-2 mb-4">
+                <button onClick={() => setOptions({ ...options, range: 'all' })} className={optionClass(options.range === 'all')}>Pista completa</button>
+                <button onClick={() => setOptions({ ...options, range: 'selection' })} disabled={!hasSelection} className={`${optionClass(options.range === 'selection')} disabled:opacity-40`}>Selección</button>
+            </div>
+
+            <label className="block text-[10px] text-slate-500 font-bold uppercase mb-1">Resolución</label>
+            <div className="flex gap-2 mb-4">
+                {([16, 24] as WavBitDepth[]).map(depth => (
+                    <button key={depth} onClick={() => setOptions({ ...options, bitDepth: depth })} className={optionClass(options.bitDepth === depth)}>{depth} bits</button>
+                ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-300 mb-6 cursor-pointer">
+                <input type="checkbox" checked={options.metronome} onChange={(e) => setOptions({ ...options, metronome: e.target.checked })} className="accent-cyan-500" />
+                Incluir el metrónomo
+            </label>
+
+            <div className="flex justify-end gap-3">
+                <button onClick={onCancel} className="px-4 py-2 rounded text-slate-300 hover:bg-slate-800 text-sm font-medium">Cancelar</button>
+                <button
+                    onClick={() => onExport(options)}
+                    disabled={isRendering}
+                    className="px-4 py-2 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium shadow-lg shadow-cyan-900/20 disabled:opacity-60 flex items-center gap-2"
+                >
+                    {isRendering && <span className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin"></span>}
+                    {isRendering ? 'Renderizando…' : 'Exportar'}
+                </button>
+            </div>
+        </BaseModal>
+    );
+};
+
+// Picks the key to move the chart to, and the direction, or a capo position that puts it on open shapes
+export const TransposeModal = ({ isOpen, keySignature, onTranspose, onCancel }: { isOpen: boolean; keySignature: string; onTranspose: (semitones: number, targetKey: string) => void; onCancel: () => void }) => {
+    const minor = parseKey(keySignature)?.minor ?? false;
+    const [target, setTarget] = useState(keySignature);
+    const [direction, setDirection] = useState<'up' | 'down'>('up');
+
+    useEffect(() => {
+        if (isOpen) setTarget(keySignature);
+    }, [isOpen, keySignature]);
+
+    const interval = (keyTonic(target) - keyTonic(keySignature) + 12) % 12;
+    const semitones = interval === 0 ? 0 : direction === 'up' ? interval : interval - 12;
+
+    const selectTarget = (key: string) => {
+        setTarget(key);
+        const next = (keyTonic(key) - keyTonic(keySignature) + 12) % 12;
+        setDirection(next <= 6 ? 'up' : 'down');
+    };
+
+    const optionClass = (active: boolean) =>
+        `px-2 py-1.5 rounded text-xs font-medium border ${active ? 'bg-cyan-900 text-cyan-300 border-cyan-700' : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200'}`;
+
+    const capos = capoOptions(keySignature);
+
+    return (
+        <BaseModal isOpen={isOpen} title="Transponer a tonalidad">
+            <p className="text-slate-400 mb-4 text-sm">Los acordes se reescriben con la ortografía de la nueva tonalidad. Ahora: <span className="font-mono text-yellow-400">{keySignature}</span></p>
+
+            <label className="block text-[10px] text-slate-500 font-bold uppercase mb-1">Tonalidad destino</label>
+            <div className="grid grid-cols-5 gap-1 mb-4">
+                {keySignatures(minor).map(key => (
+                    <button key={key} onClick={() => selectTarget(key)} className={`${optionClass(key === target)} font-mono`}>{key}</button>
+                ))}
+            </div>
+
+            <label className="block text-[10px] text-slate-500 font-bold uppercase mb-1">Dirección</label>
+            <div className="flex gap-2 mb-4">
+                <button onClick={() => setDirection('up')} disabled={interval === 0} className={`flex-1 ${optionClass(direction === 'up')} disabled:opacity-40`}>Subir {interval === 0 ? '' : `+${interval}`}</button>
+                <button onClick={() => setDirection('down')} disabled={interval === 0} className={`flex-1 ${optionClass(direction === 'down')} disabled:opacity-40`}>Bajar {interval === 0 ? '' : interval - 12}</button>
+            </div>
+
+            {capos.length > 0 && (
+                <>
+                    <label className="block text-[10px] text-slate-500 font-bold uppercase mb-1">Cejilla (guitarra)</label>
+                    <div className="flex flex-col gap-1 mb-4">
+                        {capos.map(({ capo, shapes }) => (
+                            <button
+                                key={capo}
+                                onClick={() => { setTarget(shapes); setDirection('down'); }}
+                                className={`${optionClass(target === shapes && direction === 'down')} text-left`}
+                                title={`Escribe los acordes como se tocan con la cejilla en el traste ${capo}`}
+                            >
+                                Cejilla en el traste {capo}: formas de <span className="font-mono font-bold">{shapes}</span>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <div className="flex justify-end gap-3">
+                <button onClick={onCancel} className="px-4 py-2 rounded text-slate-300 hover:bg-slate-800 text-sm font-medium">Cancelar</button>
+                <button
+                    onClick={() => onTranspose(semitones, target)}
+                    disabled={target === keySignature}
+                    className="px-4 py-2 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-medium shadow-lg shadow-cyan-900/20 disabled:opacity-60"
+                >
+                    Transponer
+                </button>
+            </div>
+        </BaseModal>
+    );
+};
@@ -0,0 +1,300 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { EqBand, EqBandType, EqPreset } from '../types';
+import { BUILT_IN_EQ_PRESETS, EQ_BAND_TYPES, EQ_MAX_FREQ, EQ_MAX_GAIN, EQ_MIN_FREQ, clonePresetBands, createBand, eqResponseDb } from '../utils/parametricEq';
+import { getEqPresets, saveEqPreset, deleteEqPreset } from '../utils/storage';
+import { RenameModal } from './Modals';
+
+interface ParametricEqEditorProps {
+  bands: EqBand[];
+  onChange: (bands: EqBand[]) => void;
+  fft: Tone.FFT | null; // Live spectrum drawn behind the curve
+  isPlaying: boolean;
+}
+
+const WIDTH = 400;
+const HEIGHT = 160;
+const SPECTRUM_FLOOR_DB = -100;
+const BAND_COLORS = ['#f472b6', '#a78bfa', '#22d3ee', '#4ade80', '#facc15', '#fb923c'];
+
+const freqToX = (freq: number) => (Math.log(freq / EQ_MIN_FREQ) / Math.log(EQ_MAX_FREQ / EQ_MIN_FREQ)) * WIDTH;
+const xToFreq = (x: number) => EQ_MIN_FREQ * Math.pow(EQ_MAX_FREQ / EQ_MIN_FREQ, Math.min(1, Math.max(0, x / WIDTH)));
+const gainToY = (gain: number) => HEIGHT / 2 - (gain / EQ_MAX_GAIN) * (HEIGHT / 2);
+const yToGain = (y: number) => Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, ((HEIGHT / 2 - y) / (HEIGHT / 2)) * EQ_MAX_GAIN));
+const usesGain = (type: EqBandType) => type !== 'highpass' && type !== 'lowpass';
+const usesQ = (type: EqBandType) => type !== 'lowshelf' && type !== 'highshelf';
+
+const formatFreq = (freq: number) => (freq >= 1000 ? `${(freq / 1000).toFixed(1)}k` : `${Math.round(freq)}`);
+
+export const ParametricEqEditor: React.FC<ParametricEqEditorProps> = ({ bands, onChange, fft, isPlaying }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const animationRef = useRef<number | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(bands[0]?.id ?? null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [userPresets, setUserPresets] = useState<EqPreset[]>([]);
+  const [presetId, setPresetId] = useState('');
+  const [showSaveModal, setShowSaveModal] = useState(false);
+
+  const sampleRate = Tone.getContext().sampleRate;
+  const selected = bands.find(b => b.id === selectedId) || null;
+
+  useEffect(() => {
+    getEqPresets().then(setUserPresets).catch(err => console.error(err));
+  }, []);
+
+  // Live spectrum behind the curve, animated only while playing
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !fft) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const binHz = sampleRate / (fft.size * 2);
+
+    const draw = () => {
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+      if (isPlaying) {
+        const spectrum = fft.getValue();
+        ctx.fillStyle = 'rgba(71, 85, 105, 0.5)';
+        ctx.beginPath();
+        ctx.moveTo(0, HEIGHT);
+        for (let x = 0; x <= WIDTH; x += 2) {
+          const bin = Math.min(spectrum.length - 1, Math.round(xToFreq(x) / binHz));
+          const level = Math.max(0, (spectrum[bin] - SPECTRUM_FLOOR_DB) / -SPECTRUM_FLOOR_DB);
+          ctx.lineTo(x, HEIGHT - level * HEIGHT);
+        }
+        ctx.lineTo(WIDTH, HEIGHT);
+        ctx.fill();
+        animationRef.current = requestAnimationFrame(draw);
+      }
+    };
+
+    draw();
+
+    return () => {
+      if (animationRef.current) {
+        cancelAnimationFrame(animationRef.current);
+      }
+    };
+  }, [fft, isPlaying, sampleRate]);
+
+  const updateBand = (id: string, changes: Partial<EqBand>) => {
+    onChange(bands.map(b => (b.id === id ? { ...b, ...changes } : b)));
+    setPresetId('');
+  };
+
+  const addBand = () => {
+    const band = createBand('peaking', 1000, 0, 1);
+    onChange([...bands, band]);
+    setSelectedId(band.id);
+    setPresetId('');
+  };
+
+  const removeBand = (id: string) => {
+    onChange(bands.filter(b => b.id !== id));
+    setSelectedId(null);
+    setPresetId('');
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = [...BUILT_IN_EQ_PRESETS, ...userPresets].find(p => p.id === id);
+    if (!preset) return;
+    const next = clonePresetBands(preset);
+    onChange(next);
+    setSelectedId(next[0]?.id ?? null);
+    setPresetId(id);
+  };
+
+  const handleSavePreset = async (name: string) => {
+    setShowSaveModal(false);
+    if (!name.trim()) return;
+    const preset: EqPreset = { id: crypto.randomUUID(), name: name.trim(), bands: bands.map(b => ({ ...b })) };
+    try {
+      await saveEqPreset(preset);
+      setUserPresets(await getEqPresets());
+      setPresetId(preset.id);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    try {
+      await deleteEqPreset(presetId);
+      setUserPresets(await getEqPresets());
+      setPresetId('');
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Dragging a handle moves frequency (x) and gain (y); the wheel changes Q
+  const getSvgPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!draggingId) return;
+    const band = bands.find(b => b.id === draggingId);
+    if (!band) return;
+    const { x, y } = getSvgPoint(e);
+    updateBand(band.id, {
+      frequency: Math.round(xToFreq(x)),
+      ...(usesGain(band.type) ? { gain: Math.round(yToGain(y) * 10) / 10 } : {})
+    });
+  };
+
+  const handleWheel = (band: EqBand, e: React.WheelEvent) => {
+    if (!usesQ(band.type)) return;
+    const q = band.q * (e.deltaY < 0 ? 1.1 : 1 / 1.1);
+    updateBand(band.id, { q: Math.round(Math.min(18, Math.max(0.1, q)) * 100) / 100 });
+  };
+
+  // Response curve
+  let curve = '';
+  for (let x = 0; x <= WIDTH; x += 2) {
+    const db = Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, eqResponseDb(bands, xToFreq(x), sampleRate)));
+    curve += `${x === 0 ? 'M' : 'L'}${x},${gainToY(db).toFixed(1)}`;
+  }
+
+  const isUserPreset = userPresets.some(p => p.id === presetId);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1">
+        <select
+          value={presetId}
+          onChange={(e) => applyPreset(e.target.value)}
+          className="flex-1 bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300 px-1 py-0.5 focus:outline-none"
+        >
+          <option value="">— Preset —</option>
+          <optgroup label="Incluidos">
+            {BUILT_IN_EQ_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="Mis presets">
+              {userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => setShowSaveModal(true)} className="text-[9px] px-1.5 py-0.5 bg-slate-800 border border-slate-700 text-slate-300 rounded hover:bg-slate-700">GUARDAR</button>
+        {isUserPreset && (
+          <button onClick={handleDeletePreset} className="text-[9px] px-1.5 py-0.5 bg-slate-800 border border-slate-700 text-red-400 rounded hover:bg-slate-700">✕</button>
+        )}
+      </div>
+
+      <div className="relative bg-slate-950 rounded border border-slate-800" style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}>
+        <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="absolute inset-0 w-full h-full" />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="absolute inset-0 w-full h-full touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDraggingId(null)}
+          onPointerLeave={() => setDraggingId(null)}
+        >
+          {[100, 1000, 10000].map(f => (
+            <g key={f}>
+              <line x1={freqToX(f)} x2={freqToX(f)} y1={0} y2={HEIGHT} stroke="#1e293b" />
+              <text x={freqToX(f) + 2} y={HEIGHT - 3} fill="#475569" fontSize="8">{formatFreq(f)}</text>
+            </g>
+          ))}
+          {[-12, -6, 0, 6, 12].map(g => (
+            <line key={g} x1={0} x2={WIDTH} y1={gainToY(g)} y2={gainToY(g)} stroke={g === 0 ? '#334155' : '#1e293b'} />
+          ))}
+          <path d={curve} fill="none" stroke="#22d3ee" strokeWidth={2} />
+          {bands.map((band, i) => {
+            const cx = freqToX(band.frequency);
+            const cy = gainToY(usesGain(band.type) ? band.gain : 0);
+            const color = BAND_COLORS[i % BAND_COLORS.length];
+            return (
+              <circle
+                key={band.id}
+                cx={cx}
+                cy={cy}
+                r={band.id === selectedId ? 7 : 5}
+                fill={color}
+                fillOpacity={band.id === selectedId ? 0.9 : 0.6}
+                stroke="#0f172a"
+                className="cursor-move"
+                onPointerDown={(e) => {
+                  e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                  setSelectedId(band.id);
+                  setDraggingId(band.id);
+                }}
+                onWheel={(e) => handleWheel(band, e)}
+              />
+            );
+          })}
+        </svg>
+      </div>
+
+      {selected ? (
+        <div className="grid grid-cols-4 gap-1 items-end">
+          <div className="col-span-2 flex flex-col">
+            <label className="text-[9px] text-slate-500 font-bold uppercase">Tipo</label>
+            <select
+              value={selected.type}
+              onChange={(e) => {
+                const type = e.target.value as EqBandType;
+                // Pass filters default to a flat (Butterworth) corner
+                updateBand(selected.id, { type, q: type === 'highpass' || type === 'lowpass' ? 0.71 : selected.q });
+              }}
+              className="bg-slate-800 border border-slate-700 rounded text-[10px] text-slate-300 px-1 py-0.5 focus:outline-none"
+            >
+              {EQ_BAND_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label className="text-[9px] text-slate-500 font-bold uppercase">Hz</label>
+            <input
+              type="number" min={EQ_MIN_FREQ} max={EQ_MAX_FREQ}
+              value={selected.frequency}
+              onChange={(e) => updateBand(selected.id, { frequency: Math.min(EQ_MAX_FREQ, Math.max(EQ_MIN_FREQ, parseFloat(e.target.value) || 1000)) })}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-cyan-400 focus:outline-none"
+            />
+          </div>
+          <button onClick={() => removeBand(selected.id)} className="h-6 text-[9px] bg-slate-800 border border-slate-700 rounded text-red-400 hover:bg-slate-700">QUITAR</button>
+          <div className="col-span-2 flex flex-col">
+            <label className="text-[9px] text-slate-500 font-bold uppercase">Ganancia (dB)</label>
+            <input
+              type="number" min={-EQ_MAX_GAIN} max={EQ_MAX_GAIN} step={0.5}
+              value={selected.gain}
+              disabled={!usesGain(selected.type)}
+              onChange={(e) => updateBand(selected.id, { gain: Math.min(EQ_MAX_GAIN, Math.max(-EQ_MAX_GAIN, parseFloat(e.target.value) || 0)) })}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-cyan-400 focus:outline-none disabled:opacity-40"
+            />
+          </div>
+          <div className="col-span-2 flex flex-col">
+            <label className="text-[9px] text-slate-500 font-bold uppercase">Q (rueda)</label>
+            <input
+              type="number" min={0.1} max={18} step={0.1}
+              value={selected.q}
+              disabled={!usesQ(selected.type)}
+              onChange={(e) => updateBand(selected.id, { q: Math.min(18, Math.max(0.1, parseFloat(e.target.value) || 1)) })}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-cyan-400 focus:outline-none disabled:opacity-40"
+            />
+          </div>
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-500">Arrastra un punto para ajustar frecuencia y ganancia.</p>
+      )}
+
+      <button onClick={addBand} className="text-[10px] py-1 bg-slate-800 border border-slate-700 rounded text-slate-300 hover:bg-slate-700">+ Banda</button>
+
+      {showSaveModal && (
+        <RenameModal
+          isOpen={true}
+          title="Guardar preset de EQ"
+          initialValue=""
+          onSave={handleSavePreset}
+          onCancel={() => setShowSaveModal(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { AudioTrack } from '../types';
+import { PRIMARY_TRACK_ID, TRACK_COLORS } from '../constants';
+import { ParametricEqEditor } from './ParametricEqEditor';
+
+interface TrackPanelProps {
+  tracks: AudioTrack[];
+  trackBuffers: Record<string, Tone.ToneAudioBuffer>; // Audio of the non-primary tracks
+  onTrackChange: (id: string, changes: Partial<AudioTrack>) => void;
+  onRemoveTrack: (id: string) => void;
+  onAddTrack: (file: File) => void;
+  onCompareTrack: (id: string, mode: CompareMode) => void;
+  onAlignTrack: (id: string) => void;
+  aligningTrackId: string | null;
+  fft: Tone.FFT | null;
+  isPlaying: boolean;
+}
+
+type CompareMode = 'a' | 'b' | 'both';
+
+const NUDGE_SECONDS = 0.01;
+
+const COMPARE_OPTIONS: { mode: CompareMode; label: string; title: string }[] = [
+  { mode: 'a', label: 'A', title: 'Escuchar solo la referencia' },
+  { mode: 'b', label: 'B', title: 'Escuchar solo esta pista' },
+  { mode: 'both', label: 'A+B', title: 'Escuchar las dos juntas' }
+];
+
+export const TrackPanel: React.FC<TrackPanelProps> = ({ tracks, trackBuffers, onTrackChange, onRemoveTrack, onAddTrack, onCompareTrack, onAlignTrack, aligningTrackId, fft, isPlaying }) => {
+  const [eqTrackId, setEqTrackId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const eqTrack = tracks.find(t => t.id === eqTrackId);
+  const primarySolo = tracks.some(t => t.id === PRIMARY_TRACK_ID && t.solo);
+
+  return (
+    <div className="relative flex flex-col gap-1">
+      {tracks.map((track, i) => {
+        const isPrimary = track.id === PRIMARY_TRACK_ID;
+        const missingAudio = !isPrimary && !trackBuffers[track.id];
+        return (
+          <div key={track.id} className="flex items-center gap-2 text-xs">
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: TRACK_COLORS[i % TRACK_COLORS.length] }}></span>
+            <input
+              type="text"
+              value={track.name}
+              onChange={(e) => onTrackChange(track.id, { name: e.target.value })}
+              className="w-40 bg-transparent text-slate-300 font-medium focus:outline-none focus:text-white truncate"
+              title={track.fileName}
+            />
+            {missingAudio && <span className="text-[9px] text-amber-500" title="El audio de esta pista no está en este navegador">sin audio</span>}
+            {track.recordedAt && track.recordedAt.speed !== 1 && (
+              <span className="text-[9px] text-slate-500" title="Velocidad a la que se grabó la toma; suena natural a esa velocidad">
+                grabada al {Math.round(track.recordedAt.speed * 100)}%
+              </span>
+            )}
+
+            <button
+              onClick={() => onTrackChange(track.id, { mute: !track.mute })}
+              className={`w-6 h-5 rounded border text-[10px] font-bold ${track.mute ? 'bg-red-900 text-red-300 border-red-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+              title="Silenciar"
+            >
+              M
+            </button>
+            <button
+              onClick={() => onTrackChange(track.id, { solo: !track.solo })}
+              className={`w-6 h-5 rounded border text-[10px] font-bold ${track.solo ? 'bg-yellow-900 text-yellow-300 border-yellow-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+              title="Solo"
+            >
+              S
+            </button>
+
+            <input
+              type="range" min={-30} max={6} step={0.5}
+              value={track.gain}
+              onChange={(e) => onTrackChange(track.id, { gain: parseFloat(e.target.value) })}
+              onDoubleClick={() => onTrackChange(track.id, { gain: 0 })}
+              className="w-20 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+              title={`Ganancia: ${track.gain > 0 ? '+' : ''}${track.gain} dB (doble click: 0 dB)`}
+            />
+            <span className="w-12 text-[10px] font-mono text-slate-500">{track.gain > 0 ? '+' : ''}{track.gain} dB</span>
+
+            {/* Offset against the reference track */}
+            {isPrimary ? (
+              <span className="w-[9.5rem] text-[10px] text-slate-600 italic">Referencia</span>
+            ) : (
+              <div className="flex items-center gap-1 w-[9.5rem]">
+                <button
+                  onClick={() => onTrackChange(track.id, { offset: Math.round((track.offset - NUDGE_SECONDS) * 1000) / 1000 })}
+                  className="px-1 bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-white text-[10px]"
+                >
+                  ◀
+                </button>
+                <input
+                  type="number" step={0.01}
+                  value={track.offset}
+                  onChange={(e) => onTrackChange(track.id, { offset: parseFloat(e.target.value) || 0 })}
+                  className="w-16 bg-slate-950 border border-slate-700 rounded px-1 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-cyan-500"
+                  title="Desplazamiento en segundos respecto de la pista de referencia (también se puede arrastrar la pista en la línea de tiempo)"
+                />
+                <button
+                  onClick={() => onTrackChange(track.id, { offset: Math.round((track.offset + NUDGE_SECONDS) * 1000) / 1000 })}
+                  className="px-1 bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-white text-[10px]"
+                >
+                  ▶
+                </button>
+                <span className="text-[9px] text-slate-600">s</span>
+              </div>
+            )}
+
+            <button
+              onClick={() => setEqTrackId(eqTrackId === track.id ? null : track.id)}
+              className={`px-1.5 h-5 rounded border text-[10px] font-bold ${eqTrackId === track.id ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'}`}
+            >
+              EQ
+            </button>
+            {!isPrimary && (
+              <div className="flex rounded border border-slate-700 overflow-hidden">
+                {COMPARE_OPTIONS.map(({ mode, label, title }) => {
+                  const active = mode === 'a' ? primarySolo && !track.solo
+                    : mode === 'b' ? track.solo && !primarySolo
+                    : track.solo && primarySolo;
+                  return (
+                    <button
+                      key={mode}
+                      onClick={() => onCompareTrack(track.id, mode)}
+                      className={`px-1.5 h-5 text-[10px] font-bold ${active ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+                      title={title}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            {!isPrimary && (
+              <button
+                onClick={() => onAlignTrack(track.id)}
+                disabled={missingAudio || aligningTrackId !== null}
+                className={`flex items-center gap-1 px-1.5 h-5 rounded border text-[10px] font-bold ${track.alignment ? 'bg-slate-800 text-cyan-400 border-cyan-800' : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'} disabled:opacity-50`}
+                title="Alinear esta versión con la referencia aunque tenga otro tempo: se añade una copia que sigue la grilla de compases, y en esta pista se marcan dónde caen los compases y marcadores"
+              >
+                {aligningTrackId === track.id && <span className="w-2 h-2 border border-cyan-400 border-t-transparent rounded-full animate-spin"></span>}
+                Alinear
+              </button>
+            )}
+            {!isPrimary && (
+              <button onClick={() => onRemoveTrack(track.id)} className="text-slate-600 hover:text-red-400 px-1" title="Quitar pista">✕</button>
+            )}
+          </div>
+        );
+      })}
+
+      <div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="mt-1 px-2 py-0.5 bg-slate-800 border border-slate-700 text-slate-400 rounded text-[10px] font-bold hover:text-cyan-400"
+          title="Añadir otra toma sincronizada con la misma grilla"
+        >
+          + Añadir pista
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onAddTrack(file);
+          }}
+        />
+      </div>
+
+      {/* Track EQ popover */}
+      {eqTrack && (
+        <div className="absolute bottom-full left-0 mb-3 bg-slate-900 border border-slate-700 p-4 rounded-lg shadow-2xl w-[26rem] z-50">
+          <div className="flex justify-between items-center mb-3 border-b border-slate-800 pb-2">
+            <span className="text-xs font-bold text-slate-400">EQ · {eqTrack.name}</span>
+            <button onClick={() => setEqTrackId(null)} className="text-slate-500 hover:text-white text-xs">✕</button>
+          </div>
+          <ParametricEqEditor
+            bands={eqTrack.eqBands}
+            onChange={(bands) => onTrackChange(eqTrack.id, { eqBands: bands })}
+            fft={fft}
+            isPlaying={isPlaying}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,85 @@
 import React, { useEffect, useRef } from 'react';
 import * as Tone from 'tone';
+import { NOTES_SHARP } from '../utils/music';
 
 interface VisualizerProps {
-  analyser: Tone.Waveform | null;
+  waveform: Tone.Waveform | null;
+  fft: Tone.FFT | null;
   isPlaying: boolean;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) => {
+const MIN_MIDI = 28;  // E1
+const MAX_MIDI = 108; // C8
+const KEYS_HEIGHT = 14;
+const WAVE_WIDTH_RATIO = 0.22; // Share of the canvas used by the waveform
+const FLOOR_DB = -100;
+const PEAK_RANGE_DB = 30; // Peaks weaker than the loudest minus this are ignored
+const MAX_PEAKS = 4;
+
+const midiToFreq = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+const freqToMidi = (freq: number) => 69 + 12 * Math.log2(freq / 440);
+const isBlackKey = (midi: number) => [1, 3, 6, 8, 10].includes(midi % 12);
+
+// Strongest spectral peaks as note names, refined with parabolic interpolation
+const findPeaks = (spectrum: Float32Array, binHz: number) => {
+  let loudest = FLOOR_DB;
+  for (let i = 0; i < spectrum.length; i++) if (spectrum[i] > loudest) loudest = spectrum[i];
+
+  const minBin = Math.max(2, Math.floor(midiToFreq(MIN_MIDI) / binHz));
+  const maxBin = Math.min(spectrum.length - 2, Math.ceil(midiToFreq(MAX_MIDI) / binHz));
+  const peaks: { note: string; cents: number; db: number }[] = [];
+
+  for (let k = minBin; k <= maxBin; k++) {
+    const v = spectrum[k];
+    if (v < loudest - PEAK_RANGE_DB || v <= FLOOR_DB || v < spectrum[k - 1] || v < spectrum[k + 1]) continue;
+
+    const a = spectrum[k - 1], b = v, c = spectrum[k + 1];
+    const denom = a - 2 * b + c;
+    const shift = denom !== 0 ? (0.5 * (a - c)) / denom : 0;
+    const midi = freqToMidi((k + shift) * binHz);
+    const rounded = Math.round(midi);
+    const note = `${NOTES_SHARP[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+
+    const existing = peaks.find(p => p.note === note);
+    if (existing) {
+      if (existing.db >= v) continue;
+      peaks.splice(peaks.indexOf(existing), 1);
+    }
+    peaks.push({ note, cents: Math.round((midi - rounded) * 100), db: v });
+  }
+
+  return peaks.sort((p, q) => q.db - p.db).slice(0, MAX_PEAKS);
+};
+
+export const Visualizer: React.FC<VisualizerProps> = ({ waveform, fft, isPlaying }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !analyser) return;
+    if (!canvas || !waveform || !fft) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const draw = () => {
-      if (!analyser) return;
+    const binHz = Tone.getContext().sampleRate / (fft.size * 2);
 
-      // Get waveform data
-      // Tone.Waveform returns Float32Array [-1, 1]
-      const values = analyser.getValue();
-      
+    const draw = () => {
       const width = canvas.width;
       const height = canvas.height;
+      const waveWidth = Math.round(width * WAVE_WIDTH_RATIO);
+      const specX = waveWidth + 8;
+      const specWidth = width - specX;
+      const specHeight = height - KEYS_HEIGHT;
+
+      // Frequency axis: one equal step per semitone
+      const xForMidi = (midi: number) => specX + ((midi - MIN_MIDI) / (MAX_MIDI - MIN_MIDI)) * specWidth;
 
       ctx.clearRect(0, 0, width, height);
-      
-      // Gradient styling
-      const gradient = ctx.createLinearGradient(0, 0, width, 0);
+
+      // 1. Waveform
+      const values = waveform.getValue();
+      const gradient = ctx.createLinearGradient(0, 0, waveWidth, 0);
       gradient.addColorStop(0, '#0ea5e9');
       gradient.addColorStop(0.5, '#22d3ee');
       gradient.addColorStop(1, '#818cf8');
@@ -38,27 +87,59 @@ export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) =
       ctx.lineWidth = 2;
       ctx.strokeStyle = gradient;
       ctx.beginPath();
+      const sliceWidth = waveWidth / values.length;
+      for (let i = 0; i < values.length; i++) {
+        const y = (1 - values[i]) * (height / 2);
+        if (i === 0) ctx.moveTo(0, y);
+        else ctx.lineTo(i * sliceWidth, y);
+      }
+      ctx.stroke();
+
+      ctx.strokeStyle = '#334155';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(waveWidth + 4, 0);
+      ctx.lineTo(waveWidth + 4, height);
+      ctx.stroke();
 
-      const sliceWidth = width / values.length;
-      let x = 0;
+      // 2. Spectrum
+      const spectrum = fft.getValue();
+      ctx.fillStyle = 'rgba(34, 211, 238, 0.25)';
+      ctx.strokeStyle = '#22d3ee';
+      ctx.beginPath();
+      ctx.moveTo(specX, specHeight);
+      for (let px = 0; px <= specWidth; px++) {
+        const midi = MIN_MIDI + (px / specWidth) * (MAX_MIDI - MIN_MIDI);
+        const bin = Math.min(spectrum.length - 1, Math.round(midiToFreq(midi) / binHz));
+        const level = Math.max(0, (spectrum[bin] - FLOOR_DB) / -FLOOR_DB);
+        ctx.lineTo(specX + px, specHeight - level * specHeight);
+      }
+      ctx.lineTo(specX + specWidth, specHeight);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
 
-      for (let i = 0; i < values.length; i++) {
-        // Map value from [-1, 1] to [height, 0]
-        // 0 is center (height/2)
-        const v = (values[i] as number); 
-        const y = (1 - v) * (height / 2); 
-
-        if (i === 0) {
-          ctx.moveTo(x, y);
-        } else {
-          ctx.lineTo(x, y);
+      // 3. Piano keys axis
+      for (let midi = MIN_MIDI; midi <= MAX_MIDI; midi++) {
+        const x0 = xForMidi(midi - 0.5);
+        const x1 = xForMidi(midi + 0.5);
+        ctx.fillStyle = isBlackKey(midi) ? '#0f172a' : '#cbd5e1';
+        ctx.fillRect(x0, specHeight, x1 - x0, KEYS_HEIGHT);
+        if (midi % 12 === 0) {
+          ctx.fillStyle = '#64748b';
+          ctx.font = '8px JetBrains Mono';
+          ctx.fillText(`C${midi / 12 - 1}`, x0 + 1, specHeight - 2);
         }
-
-        x += sliceWidth;
       }
 
-      ctx.lineTo(canvas.width, canvas.height / 2);
-      ctx.stroke();
+      // 4. Strongest pitches
+      const peaks = findPeaks(spectrum, binHz);
+      ctx.font = 'bold 11px JetBrains Mono';
+      peaks.forEach((peak, i) => {
+        const label = `${peak.note} ${peak.cents >= 0 ? '+' : ''}${peak.cents}¢`;
+        ctx.fillStyle = i === 0 ? '#fbbf24' : '#94a3b8';
+        ctx.fillText(label, width - 90, 14 + i * 14);
+      });
 
       if (isPlaying) {
         animationRef.current = requestAnimationFrame(draw);
@@ -72,16 +153,16 @@ export const Visualizer: React.FC<VisualizerProps> = ({ analyser, isPlaying }) =
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [analyser, isPlaying]);
+  }, [waveform, fft, isPlaying]);
 
   return (
     <div className="w-full h-32 bg-slate-900/50 rounded-lg border border-slate-700 overflow-hidden backdrop-blur-sm shadow-inner">
-      <canvas 
-        ref={canvasRef} 
-        width={800} 
-        height={128} 
+      <canvas
+        ref={canvasRef}
+        width={800}
+        height={128}
         className="w-full h-full"
       />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -2,14 +2,24 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import * as Tone from 'tone';
-import { GridConfig, Measure, Marker, RegionSelection } from '../types';
+import { AlignmentAnchor, GridConfig, Measure, Marker, RegionSelection, Section } from '../types';
 import { RenameModal } from './Modals';
+import { SpectralData, SpectrogramRequest, SpectrogramResponse, SPECTROGRAM_MIN_MIDI } from '../utils/spectrogram';
+import { runWorker, copyChannels } from '../utils/workers';
+import { NOTES_SHARP } from '../utils/music';
+import { trackTimeAt } from '../utils/alignment';
+import { WaveformPeaks, WaveformDisplay, PeakSpan, PeaksRequest, PeaksResponse, PEAKS_FORMAT, audioFingerprint, pickLevel, peakSpan, peakRows } from '../utils/peaks';
+import { loadPeaksFromDB, savePeaksToDB } from '../utils/storage';
+import { getMeasureLayout } from '../utils/grid';
+import { sectionSpan } from '../utils/sections';
 
 interface WaveformTimelineProps {
   buffer: Tone.ToneAudioBuffer | null;
   gridConfig: GridConfig;
   measures: Measure[];
   markers: Marker[];
+  sections: Section[];
+  onSelectSection: (id: string) => void;
   currentTime: number;
   duration: number;
   selection: RegionSelection;
@@ -21,6 +31,20 @@ interface WaveformTimelineProps {
   autoScroll: boolean;
   onUpdateMarkers: (markers: Marker[]) => void;
   onUpdateSelection: (sel: RegionSelection) => void;
+  taps?: number[]; // Pending tap positions (tap tempo / tap downbeats)
+  lanes?: TimelineLane[]; // Additional tracks, stacked under the main waveform
+  onLaneOffsetChange?: (id: string, offset: number) => void;
+}
+
+export interface TimelineLane {
+  id: string;
+  name: string;
+  color: string;
+  offset: number; // Seconds the lane's audio is shifted on the timeline
+  speed: number; // Timeline seconds per second of the lane's audio (practice takes keep their tempo)
+  muted: boolean;
+  buffer: Tone.ToneAudioBuffer | null;
+  alignment?: AlignmentAnchor[]; // Set on versions aligned with the reference; their bars are drawn on the lane
 }
 
 interface ContextMenuState {
@@ -31,12 +55,133 @@ interface ContextMenuState {
 }
 
 const LEFT_PADDING = 24; // Padding to avoid edge clipping
+const MAIN_HEIGHT = 160; // Markers bar + main waveform
+const LANE_HEIGHT = 40;
+const SECTION_BAND_HEIGHT = 18; // Song sections, above the canvas (only when there are sections)
+const TILE_WIDTH = 512;
+const DB_FLOOR = -60; // Bottom of the dB amplitude scale
+const DB_GRID = [-6, -12, -24, -48];
+const MAX_CACHED_TILES = 256;
+
+type TimelineView = 'wave' | 'spectrogram' | 'chroma';
+
+interface PeakStyle {
+  peak: string;
+  rms: string | null; // RMS band color, null to leave it out
+  db: boolean; // Amplitude on a dB scale (quiet passages become visible)
+}
+
+// Linear amplitude (-1..1) to its height on the chosen scale (-1..1)
+const scaleAmplitude = (value: number, db: boolean) => {
+  if (!db || value === 0) return value;
+  const level = 20 * Math.log10(Math.abs(value));
+  return Math.sign(value) * Math.max(0, 1 - level / DB_FLOOR);
+};
+
+// Dark blue -> violet -> orange -> pale yellow, indexed by intensity (0-255)
+const PALETTE = (() => {
+  const stops = [[15, 23, 42], [76, 29, 149], [219, 39, 119], [251, 146, 60], [254, 240, 138]];
+  const lut = new Uint8Array(256 * 3);
+  for (let i = 0; i < 256; i++) {
+    const pos = (i / 255) * (stops.length - 1);
+    const a = Math.floor(pos);
+    const b = Math.min(stops.length - 1, a + 1);
+    const frac = pos - a;
+    for (let c = 0; c < 3; c++) lut[i * 3 + c] = Math.round(stops[a][c] + (stops[b][c] - stops[a][c]) * frac);
+  }
+  return lut;
+})();
+
+// Peaks of a buffer: read from the IndexedDB cache, or computed in a worker and cached
+const loadPeaks = async (buffer: Tone.ToneAudioBuffer): Promise<WaveformPeaks> => {
+  const key = `${PEAKS_FORMAT}:${audioFingerprint(buffer)}`;
+  const cached = await loadPeaksFromDB(key).catch(() => null);
+  if (cached) return cached;
+
+  const channels = copyChannels(buffer);
+  const response = await runWorker<PeaksRequest, PeaksResponse>(
+    new Worker(new URL('../utils/peaks.worker.ts', import.meta.url), { type: 'module' }),
+    { channels, sampleRate: buffer.sampleRate },
+    channels.map(c => c.buffer)
+  );
+  if (!response.result) throw new Error(response.error || 'Peak computation failed');
+  savePeaksToDB(key, response.result).catch(err => console.error("Error caching peaks:", err));
+  return response.result;
+};
+
+// Min/max envelope of one peak signal with the RMS band inside, one column per timeline pixel in
+// [fromX, toX). The audio starts at timeline second `offset` and each of its seconds spans `speed`
+// timeline seconds.
+const drawPeaks = (
+  ctx: CanvasRenderingContext2D, peaks: WaveformPeaks, signal: number, zoom: number, offset: number, speed: number,
+  fromX: number, toX: number, top: number, height: number, style: PeakStyle
+) => {
+  const rate = peaks.sampleRate / speed; // Audio samples per timeline second
+  const level = pickLevel(peaks, rate / zoom);
+  const amp = height / 2;
+  const mid = top + amp;
+  const first = Math.floor(Math.max(fromX, offset * zoom));
+  const last = Math.ceil(Math.min(toX, (offset + peaks.length / rate) * zoom));
+
+  const spans: (PeakSpan & { x: number })[] = [];
+  for (let x = first; x < last; x++) {
+    const span = peakSpan(level, [signal], (x / zoom - offset) * rate, ((x + 1) / zoom - offset) * rate);
+    if (span) spans.push({ x, ...span });
+  }
+
+  ctx.strokeStyle = style.peak;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  spans.forEach(({ x, min, max }) => {
+    ctx.moveTo(x + 0.5, mid - scaleAmplitude(max, style.db) * amp);
+    ctx.lineTo(x + 0.5, mid - scaleAmplitude(min, style.db) * amp + 1);
+  });
+  ctx.stroke();
+
+  if (!style.rms) return;
+  ctx.fillStyle = style.rms;
+  spans.forEach(({ x, rms }) => {
+    const h = scaleAmplitude(rms, style.db) * amp;
+    ctx.fillRect(x, mid - h, 1, 2 * h);
+  });
+};
+
+// Renders one TILE_WIDTH-wide slice of the spectral view at the given zoom
+const renderSpectralTile = (data: SpectralData, view: TimelineView, zoom: number, tileIndex: number, height: number): HTMLCanvasElement => {
+  const tile = document.createElement('canvas');
+  tile.width = TILE_WIDTH;
+  tile.height = height;
+  const tctx = tile.getContext('2d')!;
+  const image = tctx.createImageData(TILE_WIDTH, height);
+
+  const values = view === 'chroma' ? data.chroma : data.spectrogram;
+  const rows = view === 'chroma' ? 12 : data.binCount;
+
+  for (let x = 0; x < TILE_WIDTH; x++) {
+    const time = (tileIndex * TILE_WIDTH + x) / zoom;
+    const frame = Math.round(time / data.hopSeconds);
+    if (frame < 0 || frame >= data.frameCount) continue;
+    for (let y = 0; y < height; y++) {
+      const row = rows - 1 - Math.floor((y / height) * rows); // Low pitches at the bottom
+      const v = values[frame * rows + row];
+      const idx = (y * TILE_WIDTH + x) * 4;
+      image.data[idx] = PALETTE[v * 3];
+      image.data[idx + 1] = PALETTE[v * 3 + 1];
+      image.data[idx + 2] = PALETTE[v * 3 + 2];
+      image.data[idx + 3] = 255;
+    }
+  }
+  tctx.putImageData(image, 0, 0);
+  return tile;
+};
 
 export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
   buffer,
   gridConfig,
   measures,
   markers,
+  sections,
+  onSelectSection,
   currentTime,
   duration,
   selection,
@@ -47,18 +192,100 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
   onPlayRegion,
   autoScroll,
   onUpdateMarkers,
-  onUpdateSelection
+  onUpdateSelection,
+  taps = [],
+  lanes = [],
+  onLaneOffsetChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [zoom, setZoom] = useState(50); // Pixels per second
   const [draggingLine, setDraggingLine] = useState<number | null>(null); // Index of measure line being dragged
+  const [draggingLane, setDraggingLane] = useState<{ id: string; grabTime: number; startOffset: number } | null>(null);
   const [isSelecting, setIsSelecting] = useState(false);
   const [selectionStart, setSelectionStart] = useState<number>(0);
 
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
   const [renameModal, setRenameModal] = useState<{ isOpen: boolean; markerId: string; initialValue: string } | null>(null);
 
+  // Spectral views: computed once per buffer in a worker, drawn from cached tiles
+  const [view, setView] = useState<TimelineView>('wave');
+  const [display, setDisplay] = useState<WaveformDisplay>('mono');
+  const [showRms, setShowRms] = useState(true);
+  const [dbScale, setDbScale] = useState(false);
+  const [spectralData, setSpectralData] = useState<SpectralData | null>(null);
+  const [isComputingSpectrum, setIsComputingSpectrum] = useState(false);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const tileCacheRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  const [viewWidth, setViewWidth] = useState(0);
+
+  // Waveform peaks of the main buffer and every lane, loaded once per buffer
+  const [peaks, setPeaks] = useState<Map<Tone.ToneAudioBuffer, WaveformPeaks>>(() => new Map());
+  const requestedPeaksRef = useRef<Set<Tone.ToneAudioBuffer>>(new Set()); // Live buffers loaded or loading
+  const liveBuffersRef = useRef<Tone.ToneAudioBuffer[]>([]);
+
+  const computingForRef = useRef<Tone.ToneAudioBuffer | null>(null); // Buffer the worker is analyzing
+
+  useEffect(() => {
+      setSpectralData(null);
+      setIsComputingSpectrum(false);
+      computingForRef.current = null;
+      tileCacheRef.current.clear();
+  }, [buffer]);
+
+  const needsSpectrum = view !== 'wave';
+  useEffect(() => {
+      if (!needsSpectrum || !buffer || !buffer.loaded || spectralData || computingForRef.current === buffer) return;
+
+      computingForRef.current = buffer;
+      setIsComputingSpectrum(true);
+      const channels = copyChannels(buffer);
+      runWorker<SpectrogramRequest, SpectrogramResponse>(
+          new Worker(new URL('../utils/spectrogram.worker.ts', import.meta.url), { type: 'module' }),
+          { channels, sampleRate: buffer.sampleRate },
+          channels.map(c => c.buffer)
+      ).then(response => {
+          if (computingForRef.current !== buffer) return; // A different file was loaded meanwhile
+          if (response.result) setSpectralData(response.result);
+          else console.error(response.error);
+      }).catch(err => {
+          console.error(err);
+      }).finally(() => {
+          if (computingForRef.current !== buffer) return;
+          computingForRef.current = null;
+          setIsComputingSpectrum(false);
+      });
+  }, [needsSpectrum, buffer, spectralData]);
+
+  useEffect(() => {
+      const current = [buffer, ...lanes.map(l => l.buffer)].filter((b): b is Tone.ToneAudioBuffer => !!b && b.loaded);
+      liveBuffersRef.current = current;
+      // Buffers that go away are forgotten, so they load again if they come back (switching projects)
+      requestedPeaksRef.current = new Set([...requestedPeaksRef.current].filter(b => current.includes(b)));
+      setPeaks(prev => [...prev.keys()].every(b => current.includes(b))
+          ? prev
+          : new Map([...prev].filter(([b]) => current.includes(b))));
+
+      current.forEach(b => {
+          if (requestedPeaksRef.current.has(b)) return;
+          requestedPeaksRef.current.add(b);
+          loadPeaks(b)
+              .then(result => {
+                  if (liveBuffersRef.current.includes(b)) setPeaks(prev => new Map(prev).set(b, result));
+              })
+              .catch(err => console.error(err));
+      });
+  }, [buffer, lanes]);
+
+  // The canvas only covers the visible part of the timeline
+  useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      const observer = new ResizeObserver(() => setViewWidth(container.clientWidth));
+      observer.observe(container);
+      return () => observer.disconnect();
+  }, []);
+
   // Helper to get standard duration
   const getStandardDuration = () => {
       // Effective BPM logic same as App.tsx
@@ -93,75 +320,166 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
   // Draw Loop
   useEffect(() => {
     const canvas = canvasRef.current;
-    const container = containerRef.current;
-    if (!canvas || !container) return;
+    if (!canvas) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // 1. Setup Dimensions
-    const totalWidth = Math.max(container.clientWidth, (duration * zoom) + LEFT_PADDING + 100);
-    const height = 160;
+    // 1. Setup Dimensions: the canvas spans the viewport, drawing happens in timeline pixels
+    const width = Math.max(1, viewWidth);
+    const height = MAIN_HEIGHT + lanes.length * LANE_HEIGHT;
     const markersHeight = 24; // Reserved top area for markers
+    const viewLeft = scrollLeft - LEFT_PADDING; // Timeline pixel at the canvas' left edge
+    const viewRight = viewLeft + width;
     
-    if (canvas.width !== totalWidth || canvas.height !== height) {
-        canvas.width = totalWidth;
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
         canvas.height = height;
     }
 
     // Clear
-    ctx.clearRect(0, 0, totalWidth, height);
+    ctx.clearRect(0, 0, width, height);
     ctx.fillStyle = '#0f172a'; // slate-950
-    ctx.fillRect(0, 0, totalWidth, height);
+    ctx.fillRect(0, 0, width, height);
     
     // Draw Markers Area Bg
     ctx.fillStyle = '#1e293b'; // slate-800
-    ctx.fillRect(0, 0, totalWidth, markersHeight);
+    ctx.fillRect(0, 0, width, markersHeight);
     ctx.strokeStyle = '#334155';
     ctx.beginPath();
     ctx.moveTo(0, markersHeight);
-    ctx.lineTo(totalWidth, markersHeight);
+    ctx.lineTo(width, markersHeight);
     ctx.stroke();
 
-    // SHIFT CONTEXT FOR PADDING
+    // SHIFT CONTEXT TO THE VISIBLE PART OF THE TIMELINE
     ctx.save();
-    ctx.translate(LEFT_PADDING, 0);
+    ctx.translate(-viewLeft, 0);
+
+    // 2. Draw Spectrogram / Chromagram tiles for the visible range, or the Waveform
+    if (view !== 'wave' && spectralData) {
+      const viewHeight = MAIN_HEIGHT - markersHeight;
+      const cache = tileCacheRef.current;
+      const firstTile = Math.max(0, Math.floor(viewLeft / TILE_WIDTH));
+      const lastTile = Math.min(Math.floor((duration * zoom) / TILE_WIDTH), Math.floor(viewRight / TILE_WIDTH));
+
+      for (let t = firstTile; t <= lastTile; t++) {
+        const key = `${view}:${zoom}:${t}`;
+        let tile = cache.get(key);
+        if (!tile) {
+          if (cache.size >= MAX_CACHED_TILES) cache.delete(cache.keys().next().value!);
+          tile = renderSpectralTile(spectralData, view, zoom, t, viewHeight);
+          cache.set(key, tile);
+        }
+        ctx.drawImage(tile, t * TILE_WIDTH, markersHeight);
+      }
 
-    // 2. Draw Waveform (Optimized)
-    if (buffer && buffer.loaded) {
-      const data = buffer.getChannelData(0);
-      const waveformWidth = duration * zoom;
-      const step = Math.ceil(data.length / waveformWidth);
-      const waveHeight = height - markersHeight;
-      const amp = waveHeight / 2;
-      const yOffset = markersHeight;
+      // Pitch labels pinned to the left edge of the viewport
+      ctx.font = '9px JetBrains Mono';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = 'rgba(255,255,255,0.6)';
+      const labelX = viewLeft + 2;
+      if (view === 'chroma') {
+        const rowHeight = viewHeight / 12;
+        NOTES_SHARP.forEach((note, pc) => {
+          ctx.fillText(note, labelX, markersHeight + viewHeight - (pc + 0.5) * rowHeight);
+        });
+      } else {
+        const rowHeight = viewHeight / spectralData.binCount;
+        for (let row = 0; row < spectralData.binCount; row++) {
+          const midi = SPECTROGRAM_MIN_MIDI + row;
+          if (midi % 12 !== 0) continue;
+          ctx.fillText(`C${midi / 12 - 1}`, labelX, markersHeight + viewHeight - (row + 0.5) * rowHeight);
+        }
+      }
+    } else if (buffer && peaks.has(buffer)) {
+      // One row per signal of the display mode (mono sum, L/R or mid/side)
+      const bufferPeaks = peaks.get(buffer)!;
+      const rows = peakRows(bufferPeaks, display);
+      const rowHeight = (MAIN_HEIGHT - markersHeight) / rows.length;
+      const style: PeakStyle = { peak: '#334155', rms: showRms ? '#475569' : null, db: dbScale }; // slate-700 / slate-600
+
+      ctx.font = '9px JetBrains Mono';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      rows.forEach((row, i) => {
+        const top = markersHeight + i * rowHeight;
+        drawPeaks(ctx, bufferPeaks, row.signal, zoom, 0, 1, viewLeft, viewRight, top, rowHeight, style);
+
+        if (i > 0) {
+          ctx.strokeStyle = '#1e293b';
+          ctx.beginPath();
+          ctx.moveTo(viewLeft, top);
+          ctx.lineTo(viewRight, top);
+          ctx.stroke();
+        }
+        if (dbScale) {
+          // Level lines, labelled at the left edge of the viewport
+          ctx.strokeStyle = 'rgba(148, 163, 184, 0.12)';
+          ctx.fillStyle = 'rgba(148, 163, 184, 0.5)';
+          ctx.beginPath();
+          DB_GRID.forEach(db => {
+            const y = top + rowHeight / 2 - scaleAmplitude(Math.pow(10, db / 20), true) * rowHeight / 2;
+            ctx.moveTo(viewLeft, y);
+            ctx.lineTo(viewRight, y);
+            ctx.fillText(`${db}`, viewLeft + 2, y + 1);
+          });
+          ctx.stroke();
+        }
+        if (row.label) {
+          ctx.fillStyle = 'rgba(255,255,255,0.6)';
+          ctx.fillText(row.label, viewRight - 12, top + 3);
+        }
+      });
+    }
 
+    // 2b. Additional track lanes, each shifted by its offset
+    lanes.forEach((lane, i) => {
+      const top = MAIN_HEIGHT + i * LANE_HEIGHT;
+      ctx.fillStyle = i % 2 === 0 ? '#0b1222' : '#0f172a';
+      ctx.fillRect(viewLeft, top, width, LANE_HEIGHT);
+      ctx.strokeStyle = '#1e293b';
       ctx.beginPath();
-      ctx.strokeStyle = '#334155'; // slate-700
-      ctx.lineWidth = 1;
-
-      for (let i = 0; i < waveformWidth; i++) {
-        const dataIndex = Math.floor(i * step);
-        if (dataIndex >= data.length) break;
-
-        // Simple downsampling
-        let min = 1.0;
-        let max = -1.0;
-        for (let j = 0; j < step; j++) {
-          if (dataIndex + j < data.length) {
-              const datum = data[dataIndex + j];
-              if (datum < min) min = datum;
-              if (datum > max) max = datum;
-          }
-        }
-        if (min === 1.0) min = 0;
-        if (max === -1.0) max = 0;
+      ctx.moveTo(viewLeft, top);
+      ctx.lineTo(viewRight, top);
+      ctx.stroke();
 
-        ctx.moveTo(i, yOffset + amp + min * amp);
-        ctx.lineTo(i, yOffset + amp + max * amp);
+      ctx.globalAlpha = lane.muted ? 0.25 : 0.7;
+      const lanePeaks = lane.buffer && peaks.get(lane.buffer);
+      if (lanePeaks) {
+        const signal = peakRows(lanePeaks, 'mono')[0].signal;
+        drawPeaks(ctx, lanePeaks, signal, zoom, lane.offset, lane.speed, viewLeft, viewRight, top + 4, LANE_HEIGHT - 8,
+          { peak: lane.color, rms: showRms ? 'rgba(255,255,255,0.3)' : null, db: dbScale });
+      }
+      ctx.globalAlpha = 1;
+
+      // Where the reference's bars and markers fall in this version
+      if (lane.alignment) {
+        const tick = (time: number, color: string) => {
+          const x = (lane.offset + trackTimeAt(lane.alignment!, time)) * zoom;
+          if (x < viewLeft - 10 || x > viewRight) return;
+          ctx.strokeStyle = color;
+          ctx.beginPath();
+          ctx.moveTo(x, top + 12);
+          ctx.lineTo(x, top + LANE_HEIGHT);
+          ctx.stroke();
+        };
+        ctx.lineWidth = 1;
+        let measureStart = gridConfig.offset;
+        measures.slice(0, 1000).forEach(m => {
+          tick(measureStart, 'rgba(129, 140, 248, 0.8)');
+          measureStart += m.duration !== undefined ? m.duration : getStandardDuration();
+        });
+        markers.forEach(marker => tick(marker.time, '#ef4444'));
       }
-      ctx.stroke();
-    }
+
+      // Name pinned to the left edge of the viewport
+      ctx.font = 'bold 9px Inter';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = lane.color;
+      ctx.fillText(lane.buffer ? lane.name : `${lane.name} (sin audio)`, viewLeft + 4, top + 3);
+    });
 
     // 3. Draw Grid Lines (Cumulative Measures)
     const standardDur = getStandardDuration();
@@ -178,7 +496,7 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         const x = currentT * zoom;
         const measureDuration = m.duration !== undefined ? m.duration : standardDur;
 
-        if (x > -50 && x < totalWidth) {
+        if (x > viewLeft - 50 && x < viewRight) {
             // Line Style
             const isFirst = i === 0;
             ctx.strokeStyle = isFirst ? '#22d3ee' : 'rgba(99, 102, 241, 0.5)';
@@ -211,13 +529,13 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         }
         
         currentT += measureDuration;
-        if (currentT * zoom > totalWidth) break; 
+        if (currentT * zoom > viewRight) break;
     }
     
     // 4. Draw Markers
     markers.forEach(marker => {
         const mx = marker.time * zoom;
-        if (mx >= -20 && mx < totalWidth + 20) {
+        if (mx >= viewLeft - 20 && mx < viewRight + 20) {
             // Line
             ctx.beginPath();
             ctx.strokeStyle = '#ef4444'; // Red-500
@@ -261,30 +579,34 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         ctx.strokeRect(startX, markersHeight, selWidth, height - markersHeight);
     }
 
-    // 6. Draw Playhead
-    const playheadX = currentTime * zoom;
-    ctx.strokeStyle = '#f59e0b'; // Amber
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(playheadX, 0);
-    ctx.lineTo(playheadX, height);
-    ctx.stroke();
+    // 5b. Draw pending taps
+    if (taps.length > 0) {
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.8)'; // Amber-400
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        taps.forEach(tap => {
+            const tx = tap * zoom;
+            ctx.moveTo(tx, markersHeight);
+            ctx.lineTo(tx, markersHeight + 12);
+        });
+        ctx.stroke();
+    }
 
-    ctx.fillStyle = '#f59e0b';
-    ctx.beginPath();
-    ctx.moveTo(playheadX - 6, 0);
-    ctx.lineTo(playheadX + 6, 0);
-    ctx.lineTo(playheadX, 10);
-    ctx.fill();
-    
-    // Restore context for next draw
+    // Restore context for next draw (the playhead lives on its own layer)
     ctx.restore();
 
-  }, [buffer, duration, zoom, gridConfig, currentTime, measures, markers, selection]);
+  }, [buffer, duration, zoom, gridConfig, measures, markers, selection, taps, view, spectralData, scrollLeft, viewWidth, lanes, peaks, display, showRms, dbScale]);
+
+  const measureLayout = getMeasureLayout(measures, gridConfig);
+  const sectionSpans = sections.flatMap(section => {
+      const span = sectionSpan(section, measureLayout);
+      return span ? [{ section, ...span }] : [];
+  });
+  const sectionBand = sectionSpans.length > 0 ? SECTION_BAND_HEIGHT : 0;
 
   // Mouse Interaction helpers
   const getMouseTime = (e: React.MouseEvent) => {
-    const x = e.nativeEvent.offsetX - LEFT_PADDING; // adjust for padding
+    const x = e.nativeEvent.offsetX + (containerRef.current?.scrollLeft ?? 0) - LEFT_PADDING; // canvas sticks to the viewport
     return x / zoom;
   };
 
@@ -328,6 +650,13 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         return;
     }
 
+    // Dragging a lane shifts its track against the reference
+    const lane = y >= MAIN_HEIGHT ? lanes[Math.floor((y - MAIN_HEIGHT) / LANE_HEIGHT)] : undefined;
+    if (lane) {
+      if (onLaneOffsetChange) setDraggingLane({ id: lane.id, grabTime: time, startOffset: lane.offset });
+      return;
+    }
+
     const closestIndex = getClosestMeasureLine(time);
 
     if (closestIndex !== -1 && y > 24) {
@@ -355,7 +684,11 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
     const closestIndex = getClosestMeasureLine(time);
     
     // Cursor logic
-    if (markerId) {
+    if (draggingLane) {
+        canvas.style.cursor = 'grabbing';
+    } else if (y >= MAIN_HEIGHT) {
+        canvas.style.cursor = 'grab';
+    } else if (markerId) {
         canvas.style.cursor = 'pointer';
     } else if (draggingLine !== null) {
         canvas.style.cursor = 'ew-resize';
@@ -368,7 +701,10 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
     }
 
     // Logic
-    if (draggingLine !== null) {
+    if (draggingLane) {
+      const offset = draggingLane.startOffset + time - draggingLane.grabTime;
+      onLaneOffsetChange?.(draggingLane.id, Math.round(offset * 1000) / 1000);
+    } else if (draggingLine !== null) {
       e.preventDefault();
       const newTime = Math.max(0, time);
 
@@ -405,6 +741,7 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         onCommitChanges();
     }
     setDraggingLine(null);
+    setDraggingLane(null);
     setIsSelecting(false);
   };
 
@@ -493,6 +830,50 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         <div className="flex justify-between items-center px-4 py-2 bg-slate-900 border-b border-slate-800">
              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Línea de Tiempo</h3>
              <div className="flex items-center gap-2">
+                 {isComputingSpectrum && (
+                     <div className="w-3 h-3 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin" title="Analizando frecuencias..."></div>
+                 )}
+                 <div className="flex bg-slate-800 border border-slate-700 rounded overflow-hidden mr-2">
+                     {([['wave', 'Onda'], ['spectrogram', 'Espectro'], ['chroma', 'Croma']] as [TimelineView, string][]).map(([v, label]) => (
+                         <button
+                            key={v}
+                            onClick={() => setView(v)}
+                            className={`px-2 py-0.5 text-[10px] font-bold ${view === v ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                         >
+                             {label}
+                         </button>
+                     ))}
+                 </div>
+                 {view === 'wave' && (
+                     <div className="flex items-center gap-1 mr-2">
+                         <div className="flex bg-slate-800 border border-slate-700 rounded overflow-hidden">
+                             {([['mono', 'Mono', 'Suma de los canales'], ['lr', 'L/R', 'Canal izquierdo y derecho por separado'], ['ms', 'M/S', 'Centro y lados: lo paneado aparece en S']] as [WaveformDisplay, string, string][]).map(([d, label, title]) => (
+                                 <button
+                                    key={d}
+                                    onClick={() => setDisplay(d)}
+                                    className={`px-2 py-0.5 text-[10px] font-bold ${display === d ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                                    title={title}
+                                 >
+                                     {label}
+                                 </button>
+                             ))}
+                         </div>
+                         <button
+                            onClick={() => setShowRms(!showRms)}
+                            className={`px-2 py-0.5 rounded border text-[10px] font-bold ${showRms ? 'bg-slate-600 border-slate-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                            title="Sombrear el nivel RMS (volumen percibido)"
+                         >
+                             RMS
+                         </button>
+                         <button
+                            onClick={() => setDbScale(!dbScale)}
+                            className={`px-2 py-0.5 rounded border text-[10px] font-bold ${dbScale ? 'bg-slate-600 border-slate-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                            title="Escala vertical en dB: hace visibles los pasajes suaves"
+                         >
+                             dB
+                         </button>
+                     </div>
+                 )}
                  <span className="text-[10px] text-slate-500">ZOOM</span>
                  <input 
                     type="range" 
@@ -507,23 +888,55 @@ export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
         <div 
             ref={containerRef}
             className="overflow-x-auto overflow-y-hidden relative select-none"
-            style={{ height: '160px' }}
+            style={{ height: `${sectionBand + MAIN_HEIGHT + lanes.length * LANE_HEIGHT}px` }}
+            onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
         >
-            <canvas 
-                ref={canvasRef}
-                onMouseDown={handleMouseDown}
-                onMouseMove={handleMouseMove}
-                onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
-                onDoubleClick={handleDoubleClick}
-                onContextMenu={handleContextMenu}
-                className="block touch-none"
-            />
+            {/* Full-width spacer for scrolling; the canvas stays in view and draws the visible part */}
+            <div className="relative h-full" style={{ width: `${Math.max(viewWidth, duration * zoom + LEFT_PADDING + 100)}px` }}>
+                {/* Section bands scroll with the timeline; click one to loop it */}
+                {sectionSpans.map(({ section, start, end }) => (
+                    <button
+                        key={section.id}
+                        onClick={() => onSelectSection(section.id)}
+                        className="absolute top-0 px-1.5 flex items-center gap-1 overflow-hidden whitespace-nowrap text-[10px] font-bold text-white border-l-2 hover:brightness-125"
+                        style={{
+                            left: `${LEFT_PADDING + start * zoom}px`,
+                            width: `${(end - start) * zoom}px`,
+                            height: `${SECTION_BAND_HEIGHT - 2}px`,
+                            backgroundColor: `${section.color}55`,
+                            borderColor: section.color
+                        }}
+                        title={`${section.name}: compases ${section.start}-${section.end}${section.repeats > 1 ? ` (×${section.repeats})` : ''}. Click para repetir en bucle`}
+                    >
+                        {section.name}
+                        {section.repeats > 1 && <span className="text-white/70">×{section.repeats}</span>}
+                    </button>
+                ))}
+                <canvas 
+                    ref={canvasRef}
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseUp}
+                    onDoubleClick={handleDoubleClick}
+                    onContextMenu={handleContextMenu}
+                    className="sticky left-0 block touch-none"
+                    style={{ marginTop: `${sectionBand}px` }}
+                />
+                {/* Playhead overlay: moves without repainting the canvas */}
+                <div
+                    className="absolute top-0 bottom-0 w-0.5 bg-amber-500 pointer-events-none"
+                    style={{ left: `${LEFT_PADDING + currentTime * zoom - 1}px` }}
+                >
+                    <div className="absolute -left-[5px] top-0 w-0 h-0 border-x-[6px] border-x-transparent border-t-[10px] border-t-amber-500"></div>
+                </div>
+            </div>
         </div>
         <div className="px-4 py-1 bg-slate-950/50 text-[10px] text-slate-500 flex gap-4">
             <span><strong className="text-green-400">Click + Arrastre:</strong> Seleccionar Región</span>
             <span><strong className="text-indigo-400">Arrastre Líneas:</strong> Ajustar Tiempo</span>
             <span><strong className="text-red-400">Click Derecho/Doble Click:</strong> Marcas</span>
+            {lanes.length > 0 && <span><strong className="text-pink-400">Arrastre Pistas:</strong> Sincronizar</span>}
         </div>
 
         {/* Context Menu Overlay */}
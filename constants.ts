@@ -2,10 +2,19 @@ export const SAMPLE_AUDIO_URL = "https://tonejs.github.io/audio/berklee/gong_1.m
 
 export const MAX_PITCH_SEMITONES = 12;
 export const MIN_PITCH_SEMITONES = -12;
+export const MAX_DETUNE_CENTS = 50;
 
 export const MAX_SPEED = 2.0;
 export const MIN_SPEED = 0.5;
 
 export const FFT_SIZE = 256;
-export const GRAIN_SIZE = 0.2; // Grain size for granular synthesis (seconds)
-export const OVERLAP = 0.1;    // Overlap for smoothness
\ No newline at end of file
+export const PRIMARY_TRACK_ID = 'main'; // Reference track of every project
+export const TRACK_COLORS = ['#22d3ee', '#f472b6', '#a3e635', '#fbbf24', '#a78bfa', '#fb7185']; // Lane colors, by track order
+export const SECTION_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#0ea5e9', '#84cc16', '#f97316', '#8b5cf6']; // Cycled as sections are added
+export const STRETCH_RENDER_DELAY_MS = 300; // Debounce before pre-rendering the region in HQ mode
+export const AUTOSAVE_DELAY_MS = 1000; // Debounce before writing project state to IndexedDB
+
+export const METRONOME_INTERVAL_MS = 25; // How often the click scheduler wakes up
+export const METRONOME_LOOKAHEAD = 0.15; // Seconds of clicks scheduled ahead of time
+
+export const XML_DIVISIONS = 12; // MusicXML divisions per quarter note, so chord changes on thirds and halves of beats stay exact
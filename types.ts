@@ -15,11 +15,67 @@ export interface AudioState {
 export interface ProcessingParams {
   speed: number; // Playback rate (0.5 - 2.0)
   pitch: number; // Detune in semitones (-12 to +12)
+  cents: number; // Fine detune added to the semitones (-50 to +50)
   volume: number; // Decibels (-60 to 0)
-  // EQ Bands (dB) -12 to +12
-  eqLow: number; 
-  eqMid: number; 
-  eqHigh: number;
+  eqBands: EqBand[]; // Parametric EQ, applied in order
+  // Isolation
+  center: CenterMode; // Mid/side processing of the center channel
+  channel: ChannelMode;
+  balance: number; // -1 (left only) to 1 (right only)
+  focus: FocusBand; // Band-pass around an instrument range
+  stretchMode: StretchMode;
+}
+
+// 'realtime' stretches in an AudioWorklet; 'hq' plays a phase-vocoder render of the region when ready
+export type StretchMode = 'realtime' | 'hq';
+
+export type EqBandType = 'peaking' | 'lowshelf' | 'highshelf' | 'highpass' | 'lowpass';
+
+export interface EqBand {
+  id: string;
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number; // dB, ignored by the pass filters
+  q: number; // Bandwidth (peaking) or resonance (pass filters), ignored by the shelves
+}
+
+export interface EqPreset {
+  id: string;
+  name: string;
+  bands: EqBand[];
+  builtIn?: boolean;
+}
+
+export type CenterMode = 'normal' | 'cancel' | 'solo';
+export type ChannelMode = 'stereo' | 'left' | 'right'; // 'left'/'right' play that channel on both speakers
+export type FocusBand = 'off' | 'bass' | 'guitar' | 'voice' | 'high';
+
+// One audio take of a project. All tracks share the measure grid; the first one is the
+// reference the grid and the analysis tools work on.
+export interface AudioTrack {
+  id: string;
+  name: string;
+  fileName: string;
+  offset: number; // Seconds the take is shifted against the reference (positive = starts later)
+  gain: number; // Decibels
+  mute: boolean;
+  solo: boolean;
+  eqBands: EqBand[]; // Track EQ, applied before the master EQ
+  recordedAt?: TakeSettings; // Set on practice takes recorded in the app
+  alignment?: AlignmentAnchor[]; // Tempo map onto the reference, for versions aligned with DTW
+}
+
+// A moment of the reference and the same musical moment in another recording (seconds of its audio)
+export interface AlignmentAnchor {
+  reference: number;
+  track: number;
+}
+
+// Playback settings a practice take was recorded against. The take keeps its natural tempo and
+// pitch when the player is back at these settings.
+export interface TakeSettings {
+  speed: number;
+  detune: number; // Cents (semitones * 100 + fine tuning)
 }
 
 export interface RegionSelection {
@@ -28,6 +84,44 @@ export interface RegionSelection {
   end: number;
 }
 
+export type LoopCountIn = 'none' | 'click' | 'preroll';
+
+export interface LoopSettings {
+  enabled: boolean;
+  countIn: LoopCountIn; // What happens before each pass of the loop
+  countInBeats: number; // Clicks before each pass ('click')
+  preRoll: number;      // Seconds of audio played before the region ('preroll')
+}
+
+export type TapMode = 'off' | 'tempo' | 'downbeats';
+
+export type ClickSubdivision = 1 | 2 | 3 | 4; // Clicks per beat
+
+export interface MetronomeSettings {
+  enabled: boolean;
+  volume: number; // Decibels, independent from the track volume
+  subdivision: ClickSubdivision;
+}
+
+export type ChordVoice = 'piano' | 'pad' | 'guitar';
+
+// Synth that plays the chord chart along with (or instead of) the recording
+export interface ChordPlaybackSettings {
+  enabled: boolean;
+  voice: ChordVoice;
+  volume: number; // Decibels, independent from the track volume
+  solo: boolean; // Mutes the recording to hear the chart alone
+}
+
+export interface SpeedTrainer {
+  enabled: boolean;
+  startSpeed: number;  // Speed the drill starts at
+  targetSpeed: number; // Speed the drill stops raising at (capped by MAX_SPEED)
+  step: number;        // Speed increase after each block of repetitions
+  repsPerStep: number; // Loop repetitions required before raising the speed
+  repsDone: number;    // Repetitions completed at the current speed (progress)
+}
+
 export interface Measure {
   index: number; // 1-based index
   chords: string;
@@ -42,6 +136,16 @@ export interface Marker {
   color?: string;
 }
 
+// A part of the song (verse, chorus, bridge...) over consecutive measures. Sections don't overlap.
+export interface Section {
+  id: string;
+  name: string;
+  color: string;
+  start: number; // First measure (1-based index, like Measure.index)
+  end: number; // Last measure, inclusive
+  repeats: number; // Times the part is played in a row (1 = once)
+}
+
 export type BeatUnit = 'quarter' | 'eighth' | 'dotted-quarter';
 
 export interface GridConfig {
@@ -57,6 +161,7 @@ export interface ProjectMeta {
   id: string;
   name: string;
   lastOpened: number;
+  createdAt?: number; // Orders the tabs; missing on projects saved before it existed
 }
 
 export enum LoadingState {
@@ -0,0 +1,147 @@
+import { AlignmentAnchor } from '../types';
+import { computeChromagram, Chromagram } from './chroma';
+import { renderWarped } from './phaseVocoder';
+
+// Aligns another recording of the same music (a practice take, a live version) with the reference
+// by dynamic time warping. Both are reduced to chroma frames, which follow the harmony and melody
+// and ignore timbre and mix; the cheapest monotonic path through their frame distance matrix maps
+// each moment of the reference onto the same musical moment of the other recording. The path is
+// thinned into anchors, and the other recording is warped onto the reference timeline with the
+// phase vocoder so it plays in sync with the grid.
+
+const FRAME_SECONDS = 0.2;  // Chroma frames are averaged to about this resolution
+const MAX_CELLS = 16_000_000; // Caps the distance matrix; long recordings use coarser frames
+const ANCHOR_SECONDS = 0.5;  // Spacing of the anchors along the reference
+
+export interface AlignmentRequest {
+  reference: Float32Array[];
+  other: Float32Array[];
+  sampleRate: number;
+}
+
+export interface AlignmentResult {
+  anchors: AlignmentAnchor[];
+  warped: Float32Array[]; // The other recording on the reference timeline
+}
+
+export interface AlignmentResponse {
+  result?: AlignmentResult;
+  error?: string;
+}
+
+interface Features {
+  vectors: Float32Array; // count * 12, unit length
+  count: number;
+  seconds: (frame: number) => number; // Center of a frame
+}
+
+// Averages `group` chroma frames into unit vectors; silence becomes a flat vector so it matches silence
+const groupFrames = (gram: Chromagram, group: number): Features => {
+  const count = Math.max(1, Math.ceil(gram.frameCount / group));
+  const vectors = new Float32Array(count * 12);
+  for (let k = 0; k < count; k++) {
+    const v = vectors.subarray(k * 12, k * 12 + 12);
+    const end = Math.min(gram.frameCount, (k + 1) * group);
+    for (let f = k * group; f < end; f++) {
+      for (let p = 0; p < 12; p++) v[p] += gram.chroma[f * 12 + p];
+    }
+    let norm = 0;
+    for (let p = 0; p < 12; p++) norm += v[p] * v[p];
+    norm = Math.sqrt(norm);
+    if (norm > 1e-6) for (let p = 0; p < 12; p++) v[p] /= norm;
+    else v.fill(1 / Math.sqrt(12));
+  }
+  return {
+    vectors,
+    count,
+    seconds: (frame) => (frame * group + (group - 1) / 2) * gram.hopSeconds + gram.frameOffset
+  };
+};
+
+// Cheapest path from the first to the last pair of frames, as [referenceFrame, otherFrame] steps
+const warpingPath = (a: Features, b: Features): [number, number][] => {
+  const n = a.count, m = b.count;
+  const total = new Float32Array(n * m);
+  const from = new Uint8Array(n * m); // 0: diagonal, 1: from the previous reference frame, 2: from the previous other frame
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      let dot = 0;
+      for (let p = 0; p < 12; p++) dot += a.vectors[i * 12 + p] * b.vectors[j * 12 + p];
+      const cost = 1 - dot;
+      const cell = i * m + j;
+      if (i === 0 && j === 0) {
+        total[cell] = cost;
+        continue;
+      }
+      let best = Infinity, step = 0;
+      if (i > 0 && j > 0) { best = total[cell - m - 1]; step = 0; }
+      if (i > 0 && total[cell - m] < best) { best = total[cell - m]; step = 1; }
+      if (j > 0 && total[cell - 1] < best) { best = total[cell - 1]; step = 2; }
+      total[cell] = best + cost;
+      from[cell] = step;
+    }
+  }
+
+  const path: [number, number][] = [];
+  let i = n - 1, j = m - 1;
+  while (i > 0 || j > 0) {
+    path.push([i, j]);
+    const step = from[i * m + j];
+    if (step !== 2) i--;
+    if (step !== 1) j--;
+  }
+  path.push([0, 0]);
+  return path.reverse();
+};
+
+// Thins the path into evenly spaced anchors, strictly increasing on both recordings
+const pathToAnchors = (path: [number, number][], a: Features, b: Features): AlignmentAnchor[] => {
+  // Average position in the other recording for each reference frame, which also irons out the
+  // stairs of the path
+  const sums = new Float64Array(a.count), counts = new Uint32Array(a.count);
+  for (const [i, j] of path) {
+    sums[i] += b.seconds(j);
+    counts[i]++;
+  }
+  const raw = Array.from(sums, (sum, i) => ({ reference: a.seconds(i), track: sum / counts[i] }));
+
+  const stride = Math.max(1, Math.round(ANCHOR_SECONDS / Math.max(1e-3, a.seconds(1) - a.seconds(0))));
+  const anchors: AlignmentAnchor[] = [];
+  for (let k = 0; k < raw.length; k += stride) {
+    const anchor = raw[k];
+    const previous = anchors[anchors.length - 1];
+    if (!previous || anchor.track > previous.track) anchors.push(anchor);
+  }
+  return anchors;
+};
+
+// Seconds of the aligned recording at reference second `time` (slope 1 beyond the anchors)
+export const trackTimeAt = (anchors: AlignmentAnchor[], time: number): number => {
+  if (anchors.length === 0) return time;
+  if (time <= anchors[0].reference) return anchors[0].track + (time - anchors[0].reference);
+  for (let i = 1; i < anchors.length; i++) {
+    const a = anchors[i - 1], b = anchors[i];
+    if (time <= b.reference) {
+      const t = b.reference > a.reference ? (time - a.reference) / (b.reference - a.reference) : 0;
+      return a.track + t * (b.track - a.track);
+    }
+  }
+  const last = anchors[anchors.length - 1];
+  return last.track + (time - last.reference);
+};
+
+export const alignRecordings = ({ reference, other, sampleRate }: AlignmentRequest): AlignmentResult => {
+  const referenceGram = computeChromagram(reference, sampleRate);
+  const otherGram = computeChromagram(other, sampleRate);
+
+  const cells = referenceGram.frameCount * otherGram.frameCount;
+  const group = Math.max(Math.round(FRAME_SECONDS / referenceGram.hopSeconds), Math.ceil(Math.sqrt(cells / MAX_CELLS)));
+  const a = groupFrames(referenceGram, group);
+  const b = groupFrames(otherGram, group);
+  if (a.count < 2 || b.count < 2) throw new Error('Recordings too short to align');
+
+  const anchors = pathToAnchors(warpingPath(a, b), a, b);
+  const warped = renderWarped(other, sampleRate, t => trackTimeAt(anchors, t), reference[0].length);
+  return { anchors, warped };
+};
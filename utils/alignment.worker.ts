@@ -0,0 +1,11 @@
+import { alignRecordings, AlignmentRequest, AlignmentResponse } from './alignment';
+
+self.onmessage = (e: MessageEvent<AlignmentRequest>) => {
+  let response: AlignmentResponse;
+  try {
+    response = { result: alignRecordings(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response, { transfer: response.result?.warped.map(c => c.buffer) ?? [] });
+};
@@ -0,0 +1,110 @@
+import * as Tone from 'tone';
+import { AudioTrack, ProcessingParams } from '../types';
+import { ClickEvent, createClickSynth, scheduleClick } from './metronome';
+import { createIsolationChain } from './isolation';
+import { createParametricEq } from './parametricEq';
+import { StretchRenderRequest, StretchRenderResponse } from './phaseVocoder';
+import { runWorker } from './workers';
+
+// Offline export of what the player sounds like: each audible track is stretched with the
+// high-quality phase vocoder, then mixed through its own EQ and gain and the same isolation and
+// master EQ chain as playback inside Tone.Offline.
+
+const TAIL_SECONDS = 0.2; // Lets filters and the last click ring out
+
+export interface ExportSource {
+  track: AudioTrack;
+  buffer: Tone.ToneAudioBuffer;
+}
+
+export interface ProcessedRenderRequest {
+  sources: ExportSource[]; // Audible tracks
+  sampleRate: number;
+  params: ProcessingParams;
+  start: number; // Timeline seconds
+  end: number;
+  clicks: ClickEvent[] | null; // Metronome clicks inside [start, end), in timeline seconds
+  clickVolume: number;
+}
+
+// Timeline seconds covered by one second of the track's audio (practice takes keep their tempo)
+const trackSpeed = (track: AudioTrack) => track.recordedAt?.speed ?? 1;
+
+// The samples of a track under [start, end) of the timeline, silent where the take doesn't reach
+const sliceTrack = ({ track, buffer }: ExportSource, start: number, end: number, sampleRate: number): Float32Array[] => {
+  const length = Math.round(((end - start) / trackSpeed(track)) * sampleRate);
+  const first = Math.round(((start - track.offset) / trackSpeed(track)) * buffer.sampleRate);
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => {
+    const data = buffer.getChannelData(c);
+    const out = new Float32Array(length);
+    const from = Math.max(0, first);
+    const to = Math.min(data.length, first + length);
+    if (to > from) out.set(data.subarray(from, to), from - first);
+    return out;
+  });
+};
+
+export const renderProcessedAudio = async ({ sources, sampleRate, params, start, end, clicks, clickVolume }: ProcessedRenderRequest): Promise<AudioBuffer> => {
+  const stretched: Float32Array[][] = [];
+  for (const source of sources) {
+    const channels = sliceTrack(source, start, end, sampleRate);
+    const speed = params.speed / trackSpeed(source.track);
+    const pitch = Math.pow(2, (params.pitch * 100 + params.cents - (source.track.recordedAt?.detune ?? 0)) / 1200);
+    if (speed === 1 && pitch === 1) {
+      stretched.push(channels);
+      continue;
+    }
+    const response = await runWorker<StretchRenderRequest, StretchRenderResponse>(
+      new Worker(new URL('./stretchRender.worker.ts', import.meta.url), { type: 'module' }),
+      { channels, sampleRate, speed, pitch },
+      channels.map(c => c.buffer)
+    );
+    if (!response.result) throw new Error(response.error || 'Stretch failed');
+    stretched.push(response.result);
+  }
+
+  const duration = (end - start) / params.speed + TAIL_SECONDS;
+  const rendered = await Tone.Offline(() => {
+    const bus = new Tone.Volume(params.volume);
+    const isolation = createIsolationChain(params);
+    const eq = createParametricEq(params.eqBands);
+    bus.connect(isolation.input);
+    isolation.output.connect(eq.input);
+    eq.output.toDestination();
+
+    sources.forEach(({ track }, i) => {
+      const player = new Tone.Player(Tone.ToneAudioBuffer.fromArray(stretched[i]));
+      const trackEq = createParametricEq(track.eqBands);
+      const gain = new Tone.Volume(track.gain);
+      player.connect(trackEq.input);
+      trackEq.output.connect(gain);
+      gain.connect(bus);
+      player.start(0);
+    });
+
+    if (clicks) {
+      const synth = createClickSynth(clickVolume);
+      for (const click of clicks) scheduleClick(synth, (click.position - start) / params.speed, click.level);
+    }
+  }, duration, 2, sampleRate);
+
+  return rendered.get()!;
+};
+
+const formatPosition = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}m${secs.toString().padStart(2, '0')}s`;
+};
+
+// "song - 75% +2st -15c 0m12s-0m45s click.wav"; settings left at their defaults are omitted
+export const exportFileName = (fileName: string, params: ProcessingParams, region: { start: number; end: number } | null, withClick: boolean): string => {
+  const base = (fileName || 'audio').replace(/\.[^./]+$/, '');
+  const tags: string[] = [];
+  if (params.speed !== 1) tags.push(`${Math.round(params.speed * 100)}%`);
+  if (params.pitch !== 0) tags.push(`${params.pitch > 0 ? '+' : ''}${params.pitch}st`);
+  if (params.cents !== 0) tags.push(`${params.cents > 0 ? '+' : ''}${params.cents}c`);
+  if (region) tags.push(`${formatPosition(region.start)}-${formatPosition(region.end)}`);
+  if (withClick) tags.push('click');
+  return `${base}${tags.length ? ' - ' + tags.join(' ') : ''}.wav`;
+};
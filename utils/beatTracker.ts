@@ -0,0 +1,212 @@
+import { downmix, hannWindow, magnitudeSpectrum } from './fft';
+
+// Offline beat tracker: spectral-flux onset envelope, autocorrelation tempo
+// estimate and dynamic-programming beat alignment (Ellis, 2007).
+
+const ANALYSIS_RATE = 11025; // Audio is decimated to roughly this rate before analysis
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 128;
+const BASS_CUTOFF_HZ = 200; // Upper limit of the "bass" flux used to find downbeats
+const TEMPO_CENTER_BPM = 120; // Prior for the tempo estimate
+const TIGHTNESS = 100; // How strongly the DP keeps beats near the global period
+
+export interface BeatTrackerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  beatsPerMeasure: number;
+}
+
+export interface BeatAnalysis {
+  beats: number[];     // Beat times in seconds
+  downbeats: number[]; // Subset of `beats` that start a measure
+  beatPeriod: number;  // Global beat period estimate in seconds
+}
+
+export interface BeatTrackerResponse {
+  result?: BeatAnalysis;
+  error?: string;
+}
+
+interface OnsetEnvelope {
+  full: Float32Array;
+  bass: Float32Array;
+  frameRate: number;
+  frameOffset: number; // Seconds from a frame's start to where its onsets actually happen
+}
+
+// Removes the local mean, half-wave rectifies and scales to unit deviation
+const normalizeEnvelope = (env: Float32Array, frameRate: number) => {
+  const radius = Math.round(frameRate / 2);
+  const out = new Float32Array(env.length);
+  let sum = 0;
+  let count = 0;
+  let lo = 0;
+  let hi = 0;
+  for (let i = 0; i < env.length; i++) {
+    while (hi < env.length && hi <= i + radius) { sum += env[hi++]; count++; }
+    while (lo < i - radius) { sum -= env[lo++]; count--; }
+    out[i] = Math.max(0, env[i] - sum / count);
+  }
+
+  let sq = 0;
+  for (let i = 0; i < out.length; i++) sq += out[i] * out[i];
+  const std = Math.sqrt(sq / Math.max(1, out.length)) || 1;
+  for (let i = 0; i < out.length; i++) out[i] /= std;
+  return out;
+};
+
+export const computeOnsetEnvelope = (channels: Float32Array[], sampleRate: number): OnsetEnvelope => {
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_RATE));
+  const rate = sampleRate / factor;
+  const signal = downmix(channels, factor);
+
+  const window = hannWindow(FRAME_SIZE);
+  const bins = FRAME_SIZE / 2;
+  const bassBins = Math.max(2, Math.round((BASS_CUTOFF_HZ * FRAME_SIZE) / rate));
+  const frames = Math.max(0, Math.floor((signal.length - FRAME_SIZE) / HOP_SIZE) + 1);
+
+  const full = new Float32Array(frames);
+  const bass = new Float32Array(frames);
+  let prev = new Float32Array(bins);
+  let mags = new Float32Array(bins);
+
+  for (let f = 0; f < frames; f++) {
+    magnitudeSpectrum(signal, f * HOP_SIZE, window, mags);
+    let flux = 0;
+    let bassFlux = 0;
+    for (let k = 1; k < bins; k++) {
+      const level = Math.log(1 + 1000 * mags[k]);
+      const diff = level - prev[k];
+      mags[k] = level;
+      if (diff > 0) {
+        flux += diff;
+        if (k < bassBins) bassFlux += diff;
+      }
+    }
+    if (f > 0) {
+      full[f] = flux;
+      bass[f] = bassFlux;
+    }
+    const tmp = prev; prev = mags; mags = tmp;
+  }
+
+  const frameRate = rate / HOP_SIZE;
+  return {
+    full: normalizeEnvelope(full, frameRate),
+    bass: normalizeEnvelope(bass, frameRate),
+    frameRate,
+    // Flux peaks when an onset has just entered the tail of the window
+    frameOffset: (FRAME_SIZE - HOP_SIZE) / rate
+  };
+};
+
+// Beat period in frames: autocorrelation peak weighted by a log-Gaussian tempo prior
+export const estimateBeatPeriod = (env: Float32Array, frameRate: number): number => {
+  const minLag = Math.max(1, Math.floor((frameRate * 60) / 220));
+  const maxLag = Math.min(env.length - 1, Math.ceil((frameRate * 60) / 40));
+  const scores = new Float32Array(maxLag + 2);
+
+  let bestLag = -1;
+  let best = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let ac = 0;
+    for (let i = 0; i + lag < env.length; i++) ac += env[i] * env[i + lag];
+    ac /= env.length - lag;
+    const bpm = (60 * frameRate) / lag;
+    const octaves = Math.log2(bpm / TEMPO_CENTER_BPM);
+    scores[lag] = ac * Math.exp(-0.5 * octaves * octaves);
+    if (scores[lag] > best) {
+      best = scores[lag];
+      bestLag = lag;
+    }
+  }
+  if (bestLag === -1) return (frameRate * 60) / TEMPO_CENTER_BPM;
+
+  // Parabolic refinement around the peak
+  if (bestLag > minLag && bestLag < maxLag) {
+    const a = scores[bestLag - 1], b = scores[bestLag], c = scores[bestLag + 1];
+    const denom = a - 2 * b + c;
+    if (denom !== 0) return bestLag + (0.5 * (a - c)) / denom;
+  }
+  return bestLag;
+};
+
+// Dynamic-programming beat placement; returns beat frame indices in ascending order
+export const trackBeatFrames = (env: Float32Array, period: number): number[] => {
+  const n = env.length;
+  if (n === 0) return [];
+
+  const score = new Float32Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let t = 0; t < n; t++) {
+    let best = -Infinity;
+    let bestIdx = -1;
+    for (let tau = Math.max(0, t - maxGap); tau <= t - minGap; tau++) {
+      const ratio = Math.log((t - tau) / period);
+      const value = score[tau] - TIGHTNESS * ratio * ratio;
+      if (value > best) {
+        best = value;
+        bestIdx = tau;
+      }
+    }
+    score[t] = env[t] + (bestIdx >= 0 ? best : 0);
+    backlink[t] = bestIdx;
+  }
+
+  // Last beat: best cumulative score within the final period
+  let last = n - 1;
+  for (let t = Math.max(0, n - Math.round(period)); t < n; t++) {
+    if (score[t] > score[last]) last = t;
+  }
+
+  const beats: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) beats.push(t);
+  beats.reverse();
+
+  // Trim weak beats at the edges (silence / fades)
+  const strengths = beats.map(b => env[b]);
+  const rms = Math.sqrt(strengths.reduce((acc, v) => acc + v * v, 0) / Math.max(1, strengths.length));
+  let first = 0;
+  let end = beats.length;
+  while (first < end && strengths[first] < rms * 0.5) first++;
+  while (end > first && strengths[end - 1] < rms * 0.5) end--;
+  return beats.slice(first, end);
+};
+
+// Picks the beat phase with the strongest (mostly bass) onsets as the downbeat
+export const findDownbeatPhase = (beatFrames: number[], envelope: OnsetEnvelope, beatsPerMeasure: number): number => {
+  if (beatsPerMeasure <= 1) return 0;
+  let bestPhase = 0;
+  let best = -Infinity;
+  for (let phase = 0; phase < beatsPerMeasure; phase++) {
+    let sum = 0;
+    let count = 0;
+    for (let i = phase; i < beatFrames.length; i += beatsPerMeasure) {
+      const f = beatFrames[i];
+      sum += envelope.bass[f] + 0.5 * envelope.full[f];
+      count++;
+    }
+    const value = count > 0 ? sum / count : -Infinity;
+    if (value > best) {
+      best = value;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase;
+};
+
+export const analyzeBeats = ({ channels, sampleRate, beatsPerMeasure }: BeatTrackerRequest): BeatAnalysis => {
+  const envelope = computeOnsetEnvelope(channels, sampleRate);
+  const period = estimateBeatPeriod(envelope.full, envelope.frameRate);
+  const beatFrames = trackBeatFrames(envelope.full, period);
+  const phase = findDownbeatPhase(beatFrames, envelope, beatsPerMeasure);
+
+  const toSeconds = (f: number) => f / envelope.frameRate + envelope.frameOffset;
+  const beats = beatFrames.map(toSeconds);
+  const downbeats = beats.filter((_, i) => i >= phase && (i - phase) % beatsPerMeasure === 0);
+
+  return { beats, downbeats, beatPeriod: period / envelope.frameRate };
+};
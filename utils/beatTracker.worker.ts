@@ -0,0 +1,11 @@
+import { analyzeBeats, BeatTrackerRequest, BeatTrackerResponse } from './beatTracker';
+
+self.onmessage = (e: MessageEvent<BeatTrackerRequest>) => {
+  let response: BeatTrackerResponse;
+  try {
+    response = { result: analyzeBeats(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,177 @@
+import * as Tone from 'tone';
+import { GridConfig, Measure, ChordVoice } from '../types';
+import { getMeasureLayout, getBeatsPerMeasure } from './grid';
+import { Chord, chordIntervals, parseMeasureChords } from './chords';
+import { notePitchClass } from './music';
+
+// Plays the chord chart so a transcription can be checked by ear. Every chord change becomes a hit
+// on the audio timeline, and a chord that carries on into the next measure is struck again on its
+// downbeat. Hits are voiced once for the whole chart, each voicing the inversion closest to the
+// previous one, with the root or slash bass below.
+
+const VOICING_LOW = 52;      // MIDI note the upper voicing starts from (E3)
+const VOICING_CENTER = 62;   // Where voicings are pulled back to when they drift (D4)
+const BASS_LOW = 36;         // Lowest bass note (C2)
+const MAX_VOICES = 4;        // Upper voices; fifths and then roots are dropped from bigger chords
+const STRUM_SECONDS = 0.018; // Delay between strings on the guitar voice
+
+export interface ChordHit {
+  position: number; // Seconds in the audio timeline
+  duration: number; // Seconds until the next hit (audio time)
+  notes: number[];  // MIDI notes of the upper voicing
+  bass: number;     // MIDI note of the bass
+}
+
+// Pitch classes of the upper voicing, thinned to MAX_VOICES
+const voicingClasses = (chord: Chord): number[] => {
+  let intervals = [...new Set(chordIntervals(chord).map(i => i % 12))];
+  for (const drop of [7, 0]) {
+    if (intervals.length > MAX_VOICES && intervals.includes(drop)) intervals = intervals.filter(i => i !== drop);
+  }
+  const root = notePitchClass(chord.root);
+  return intervals.slice(0, MAX_VOICES).map(i => (root + i) % 12);
+};
+
+// Close-position voicings of the pitch classes, one per inversion, starting above VOICING_LOW
+const inversions = (classes: number[]): number[][] => {
+  const sorted = [...classes].sort((a, b) => a - b);
+  return sorted.map((_, r) => {
+    const order = [...sorted.slice(r), ...sorted.slice(0, r)];
+    const notes: number[] = [];
+    order.forEach(pc => {
+      const floor = notes.length ? notes[notes.length - 1] + 1 : VOICING_LOW;
+      notes.push(floor + ((pc - floor) % 12 + 12) % 12);
+    });
+    return notes;
+  });
+};
+
+// Movement from the previous voicing: every note's distance to the nearest previous note, plus a
+// pull towards the center so long progressions don't creep up or down the keyboard
+const voiceLeadingCost = (notes: number[], previous: number[] | null): number => {
+  const mean = notes.reduce((a, b) => a + b, 0) / notes.length;
+  const drift = Math.abs(mean - VOICING_CENTER);
+  if (!previous) return drift;
+  const motion = notes.reduce((sum, n) => sum + Math.min(...previous.map(p => Math.abs(p - n))), 0);
+  return motion + 0.5 * drift;
+};
+
+export const voiceChord = (chord: Chord, previous: number[] | null): { notes: number[]; bass: number } => {
+  let best: number[] = [];
+  let bestCost = Infinity;
+  for (const candidate of inversions(voicingClasses(chord))) {
+    const cost = voiceLeadingCost(candidate, previous);
+    if (cost < bestCost) {
+      best = candidate;
+      bestCost = cost;
+    }
+  }
+  return { notes: best, bass: BASS_LOW + notePitchClass(chord.bass ?? chord.root) };
+};
+
+// Every hit of the chart, sorted by position. Measures are split into beats of equal length like
+// the metronome does, so manual measure durations stretch their chords. Empty cells and cells
+// starting with "/" hold the chord before them.
+export const buildChordTrack = (measures: Measure[], gridConfig: GridConfig): ChordHit[] => {
+  const beatsPerMeasure = getBeatsPerMeasure(gridConfig);
+  const changes: { position: number; chord: Chord | null }[] = [];
+  let current: Chord | null = null;
+  let end = gridConfig.offset;
+
+  getMeasureLayout(measures, gridConfig).forEach((span, i) => {
+    const beat = span.duration / beatsPerMeasure;
+    const { events } = parseMeasureChords(measures[i].chords, beatsPerMeasure);
+    if (current && (events.length === 0 || events[0].beat > 0)) changes.push({ position: span.start, chord: current });
+    events.forEach(e => {
+      changes.push({ position: span.start + e.beat * beat, chord: e.chord });
+      current = e.chord;
+    });
+    end = span.start + span.duration;
+  });
+
+  const hits: ChordHit[] = [];
+  let previous: number[] | null = null;
+  changes.forEach((change, i) => {
+    if (!change.chord) return;
+    const { notes, bass } = voiceChord(change.chord, previous);
+    previous = notes;
+    const next = i + 1 < changes.length ? changes[i + 1].position : end;
+    hits.push({ position: change.position, duration: next - change.position, notes, bass });
+  });
+  return hits;
+};
+
+// The hit sounding at `position` that started before it, cut to the part still to come. Playback
+// that starts, seeks or wraps in the middle of a chord strikes it right away with this.
+export const hitSoundingAt = (hits: ChordHit[], position: number): ChordHit | null => {
+  let i = hits.length - 1;
+  while (i >= 0 && hits[i].position >= position) i--;
+  if (i < 0 || hits[i].position + hits[i].duration <= position) return null;
+  return { ...hits[i], position, duration: hits[i].position + hits[i].duration - position };
+};
+
+interface VoicePreset {
+  createSynth: () => Tone.PolySynth;
+  filter: number; // Lowpass cutoff in Hz
+  velocity: number;
+  strum: boolean;
+}
+
+const VOICE_PRESETS: Record<ChordVoice, VoicePreset> = {
+  piano: {
+    createSynth: () => new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: 'triangle' },
+      envelope: { attack: 0.005, decay: 1.2, sustain: 0.15, release: 0.8 }
+    }),
+    filter: 4000, velocity: 0.6, strum: false
+  },
+  pad: {
+    createSynth: () => new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: 'fatsawtooth', count: 3, spread: 20 },
+      envelope: { attack: 0.35, decay: 0.5, sustain: 0.8, release: 1.2 }
+    }),
+    filter: 1400, velocity: 0.35, strum: false
+  },
+  guitar: {
+    createSynth: () => new Tone.PolySynth(Tone.Synth, {
+      oscillator: { type: 'sawtooth' },
+      envelope: { attack: 0.002, decay: 0.9, sustain: 0.08, release: 0.4 }
+    }),
+    filter: 2200, velocity: 0.45, strum: true
+  }
+};
+
+export class ChordPlayer {
+  readonly volume: Tone.Param<'decibels'>;
+  private readonly output: Tone.Volume;
+  private readonly filter: Tone.Filter;
+  private readonly synth: Tone.PolySynth;
+  private readonly preset: VoicePreset;
+
+  constructor(voice: ChordVoice, volume: number) {
+    this.preset = VOICE_PRESETS[voice];
+    this.output = new Tone.Volume(volume).toDestination();
+    this.volume = this.output.volume;
+    this.filter = new Tone.Filter(this.preset.filter, 'lowpass').connect(this.output);
+    this.synth = this.preset.createSynth().connect(this.filter);
+    this.synth.maxPolyphony = 32;
+  }
+
+  // Plays a hit at context `time` for `duration` seconds, shifted by `detune` cents like the recording
+  play(hit: ChordHit, time: number, duration: number, detune: number) {
+    const ratio = Math.pow(2, detune / 1200);
+    const frequency = (midi: number) => Tone.Frequency(midi, 'midi').toFrequency() * ratio;
+    const length = Math.max(0.05, duration);
+    [hit.bass, ...hit.notes].forEach((midi, i) => {
+      const offset = this.preset.strum ? i * STRUM_SECONDS : 0;
+      this.synth.triggerAttackRelease(frequency(midi), Math.max(0.05, length - offset), time + offset, this.preset.velocity);
+    });
+  }
+
+  dispose() {
+    this.synth.releaseAll();
+    this.synth.dispose();
+    this.filter.dispose();
+    this.output.dispose();
+  }
+}
@@ -0,0 +1,135 @@
+import { computeChromagram, averageChroma, normalizeVector } from './chroma';
+
+// Template matching over beat-synchronous chroma, smoothed with a Viterbi pass.
+
+export interface ChordType {
+  suffix: string;
+  intervals: number[];
+  prior: number; // Slight preference for simpler chords, since extended templates contain the triads
+}
+
+export const CHORD_TYPES: ChordType[] = [
+  { suffix: '', intervals: [0, 4, 7], prior: 1 },
+  { suffix: 'm', intervals: [0, 3, 7], prior: 1 },
+  { suffix: '7', intervals: [0, 4, 7, 10], prior: 0.97 },
+  { suffix: 'maj7', intervals: [0, 4, 7, 11], prior: 0.96 },
+  { suffix: 'm7', intervals: [0, 3, 7, 10], prior: 0.97 },
+  { suffix: 'sus4', intervals: [0, 5, 7], prior: 0.93 },
+  { suffix: 'sus2', intervals: [0, 2, 7], prior: 0.92 },
+  { suffix: 'dim', intervals: [0, 3, 6], prior: 0.9 },
+];
+
+const SILENCE_RATIO = 0.01;   // Segments quieter than this (relative to the loudest) are "no chord"
+const NO_CHORD_SCORE = 0.45;  // Template score a "no chord" state gets on non-silent segments
+const CONCENTRATION = 20;     // Sharpness of the emission probabilities
+const CHANGE_PENALTY = 2.5;   // Log-cost of changing chords between consecutive beats
+const BASS_WEIGHT = 0.15;     // Extra weight for chords whose root is in the bass
+
+export interface ChordSegment {
+  start: number;
+  end: number;
+}
+
+export interface ChordRecognitionRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  segments: ChordSegment[];
+}
+
+export interface RecognizedChord {
+  root: number; // Pitch class, 0 = C
+  type: number; // Index into CHORD_TYPES
+}
+
+export interface ChordRecognitionResponse {
+  result?: (RecognizedChord | null)[]; // One per requested segment; null = no chord
+  error?: string;
+}
+
+const templates = CHORD_TYPES.flatMap((type, typeIndex) => {
+  const list: { root: number; type: number; vector: Float32Array }[] = [];
+  for (let root = 0; root < 12; root++) {
+    const vector = new Float32Array(12);
+    type.intervals.forEach((interval, i) => {
+      vector[(root + interval) % 12] = i === 0 ? 1.2 : 1;
+    });
+    list.push({ root, type: typeIndex, vector: normalizeVector(vector) });
+  }
+  return list;
+});
+
+export const recognizeChords = ({ channels, sampleRate, segments }: ChordRecognitionRequest): (RecognizedChord | null)[] => {
+  if (segments.length === 0) return [];
+  const gram = computeChromagram(channels, sampleRate);
+  const audioDuration = channels[0].length / sampleRate;
+
+  // Emission scores per segment: one per template plus the "no chord" state
+  const stateCount = templates.length + 1;
+  const noChord = templates.length;
+  const loudest = gram.energy.reduce((a, b) => Math.max(a, b), 0) || 1;
+
+  const emissions = segments.map(seg => {
+    const scores = new Float32Array(stateCount);
+    const energy = averageEnergy(gram.energy, gram.hopSeconds, gram.frameOffset, seg);
+    if (seg.start >= audioDuration || energy < loudest * SILENCE_RATIO) {
+      scores.fill(-Infinity);
+      scores[noChord] = 0;
+      return scores;
+    }
+
+    const chroma = normalizeVector(averageChroma(gram, gram.chroma, seg.start, seg.end));
+    const bass = normalizeVector(averageChroma(gram, gram.bass, seg.start, seg.end));
+    templates.forEach((tpl, i) => {
+      let sim = 0;
+      for (let p = 0; p < 12; p++) sim += chroma[p] * tpl.vector[p];
+      sim = sim * CHORD_TYPES[tpl.type].prior + BASS_WEIGHT * bass[tpl.root];
+      scores[i] = CONCENTRATION * sim;
+    });
+    scores[noChord] = CONCENTRATION * NO_CHORD_SCORE;
+    return scores;
+  });
+
+  // Viterbi: every state may follow every other one at a fixed change cost
+  let prev = emissions[0];
+  const backpointers: Int32Array[] = [];
+  for (let t = 1; t < emissions.length; t++) {
+    let bestPrev = 0;
+    for (let s = 1; s < stateCount; s++) if (prev[s] > prev[bestPrev]) bestPrev = s;
+
+    const next = new Float32Array(stateCount);
+    const back = new Int32Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      const stay = prev[s];
+      const change = prev[bestPrev] - CHANGE_PENALTY;
+      if (stay >= change) {
+        next[s] = stay + emissions[t][s];
+        back[s] = s;
+      } else {
+        next[s] = change + emissions[t][s];
+        back[s] = bestPrev;
+      }
+    }
+    backpointers.push(back);
+    prev = next;
+  }
+
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) if (prev[s] > prev[state]) state = s;
+  const path = [state];
+  for (let t = backpointers.length - 1; t >= 0; t--) {
+    state = backpointers[t][state];
+    path.push(state);
+  }
+  path.reverse();
+
+  return path.map(s => (s === noChord ? null : { root: templates[s].root, type: templates[s].type }));
+};
+
+const averageEnergy = (energy: Float32Array, hopSeconds: number, frameOffset: number, seg: ChordSegment) => {
+  const first = Math.max(0, Math.floor((seg.start - frameOffset) / hopSeconds));
+  const last = Math.min(energy.length - 1, Math.ceil((seg.end - frameOffset) / hopSeconds));
+  if (last < first) return 0;
+  let sum = 0;
+  for (let f = first; f <= last; f++) sum += energy[f];
+  return sum / (last - first + 1);
+};
@@ -0,0 +1,11 @@
+import { recognizeChords, ChordRecognitionRequest, ChordRecognitionResponse } from './chordRecognition';
+
+self.onmessage = (e: MessageEvent<ChordRecognitionRequest>) => {
+  let response: ChordRecognitionResponse;
+  try {
+    response = { result: recognizeChords(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,432 @@
+import { NoteSpelling, parseNote, noteName, notePitchClass, spellPitchClass } from './music';
+
+// Chord symbols as a model instead of free text. A measure cell holds space-separated chord
+// symbols: "C" fills the measure, "C G" splits it evenly and "C / / G" gives one token per beat,
+// "/" repeating the previous chord. "N.C." marks no chord. Transposition, MusicXML and the
+// analysis tools read cells through parseMeasureChords, and the grid flags what doesn't parse.
+
+export type ChordQuality = 'major' | 'minor' | 'diminished' | 'augmented' | 'sus2' | 'sus4' | 'power';
+export type SeventhType = 'minor' | 'major' | 'diminished';
+
+export interface ChordDegree {
+  degree: number; // Scale degree above the root (6, 9, 11...)
+  alter: number;  // Semitones against the natural degree (major or perfect)
+}
+
+export interface Chord {
+  root: NoteSpelling;
+  quality: ChordQuality; // The triad
+  seventh: SeventhType | null;
+  extension: 9 | 11 | 13 | null; // Highest stacked extension; implies the seventh
+  added: ChordDegree[];          // Tones added without the ones below them (6, add9...)
+  alterations: ChordDegree[];    // Altered fifths and tensions (b5, #9...)
+  omitted: number[];             // Degrees left out (no3)
+  bass: NoteSpelling | null;     // Slash bass
+  suffix: string;                // Everything between the root and the bass, as written
+}
+
+// A chord change inside a measure; chord is null for "N.C."
+export interface ChordEvent {
+  beat: number; // Beats from the start of the measure, may be fractional on even splits
+  chord: Chord | null;
+  text: string;
+}
+
+export interface MeasureChords {
+  events: ChordEvent[];
+  errors: string[]; // Tokens that aren't chord symbols, and problems with the cell as a whole
+}
+
+export const NO_CHORD = 'N.C.';
+const NO_CHORD_TOKENS = ['N.C.', 'NC', 'N.C'];
+const REPEAT_TOKEN = '/';
+
+const DEGREE_SEMITONES: Record<number, number> = { 2: 2, 3: 4, 4: 5, 5: 7, 6: 9, 7: 11, 9: 14, 11: 17, 13: 21 };
+const TRIADS: Record<ChordQuality, number[]> = {
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  diminished: [0, 3, 6],
+  augmented: [0, 4, 8],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  power: [0, 7]
+};
+const SEVENTHS: Record<SeventhType, number> = { minor: 10, major: 11, diminished: 9 };
+
+// Suffix grammar, tried in order at each position. Each rule returns false when it doesn't apply
+// to the chord read so far, so the next one gets a chance.
+type SuffixRule = [RegExp, (chord: Chord, match: RegExpExecArray, atStart: boolean) => boolean];
+
+const degree = (accidental: string, value: string): ChordDegree => ({
+  degree: parseInt(value),
+  alter: accidental === '#' || accidental === '+' || accidental === '♯' ? 1 : accidental ? -1 : 0
+});
+
+const SUFFIX_RULES: SuffixRule[] = [
+  [/(maj|Maj|MAJ|ma(?!dd)|Ma|Δ|j|M)(7|9|11|13)?/y, (chord, m) => {
+    if (chord.seventh) return false;
+    if (!m[2] && m[1] !== 'Δ') return true; // "CM", "Cmaj" are just C major; a lone "Δ" is maj7
+    chord.seventh = 'major';
+    if (m[2] && m[2] !== '7') chord.extension = parseInt(m[2]) as 9 | 11 | 13;
+    return true;
+  }],
+  [/(min|mi|m|-)/y, (chord, _m, atStart) => {
+    if (!atStart) return false;
+    chord.quality = 'minor';
+    return true;
+  }],
+  [/(dim|°|o)(7)?/y, (chord, m, atStart) => {
+    if (!atStart) return false;
+    chord.quality = 'diminished';
+    if (m[2]) chord.seventh = 'diminished';
+    return true;
+  }],
+  [/(ø|Ø)(7)?/y, (chord, _m, atStart) => {
+    if (!atStart) return false;
+    chord.quality = 'diminished';
+    chord.seventh = 'minor';
+    return true;
+  }],
+  [/(aug|\+)(?![59]|1[13])/y, (chord) => {
+    if (chord.quality !== 'major') return false;
+    chord.quality = 'augmented';
+    return true;
+  }],
+  [/(6\/9|69)/y, (chord) => {
+    chord.added.push({ degree: 6, alter: 0 }, { degree: 9, alter: 0 });
+    return true;
+  }],
+  [/(7|9|11|13)/y, (chord, m) => {
+    const value = parseInt(m[1]);
+    if (!chord.seventh) {
+      chord.seventh = 'minor';
+      if (value > 7) chord.extension = value as 9 | 11 | 13;
+    } else if (value > 7 && (chord.extension ?? 7) < value) {
+      chord.extension = value as 9 | 11 | 13; // "C7(9)"
+    } else {
+      return false;
+    }
+    return true;
+  }],
+  [/5/y, (chord, _m, atStart) => {
+    if (!atStart) return false;
+    chord.quality = 'power';
+    return true;
+  }],
+  [/sus(2|4)?/y, (chord, m) => {
+    if (chord.quality !== 'major') return false;
+    chord.quality = m[1] === '2' ? 'sus2' : 'sus4';
+    return true;
+  }],
+  [/add([#b♯♭]?)(2|4|6|9|11|13)/y, (chord, m) => {
+    chord.added.push(degree(m[1], m[2]));
+    return true;
+  }],
+  [/(2|6)/y, (chord, m) => {
+    chord.added.push(degree('', m[1]));
+    return true;
+  }],
+  [/([#b+\-♯♭])(5|9|11|13)/y, (chord, m) => {
+    chord.alterations.push(degree(m[1], m[2]));
+    return true;
+  }],
+  [/alt/y, (chord) => {
+    chord.alterations.push({ degree: 5, alter: 1 }, { degree: 9, alter: -1 }, { degree: 9, alter: 1 });
+    return true;
+  }],
+  [/(no|omit)(3|5)/y, (chord, m) => {
+    chord.omitted.push(parseInt(m[2]));
+    return true;
+  }],
+  [/[(),\s]/y, () => true]
+];
+
+const readSuffix = (chord: Chord, suffix: string): boolean => {
+  let pos = 0;
+  while (pos < suffix.length) {
+    let matched = false;
+    for (const [pattern, apply] of SUFFIX_RULES) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(suffix);
+      if (!match) continue;
+      if (!apply(chord, match, pos === 0)) continue;
+      pos += match[0].length;
+      matched = true;
+      break;
+    }
+    if (!matched) return false;
+  }
+  return true;
+};
+
+// Parses one chord symbol ("Ebm7b5", "C7(#9)/G", "Bbmaj9"); null if it isn't one
+export const parseChord = (text: string): Chord | null => {
+  const slash = text.match(/^(.+)\/([A-G](?:bb|##|x|[#b♯♭])?)$/);
+  const body = slash ? slash[1] : text;
+  const bass = slash ? parseNote(slash[2]) : null;
+
+  const rootMatch = body.match(/^([A-G])(bb|##|x|[#b♯♭]?)(.*)$/);
+  if (!rootMatch) return null;
+  const root = parseNote(rootMatch[1] + rootMatch[2])!;
+  const suffix = rootMatch[3];
+
+  const chord: Chord = { root, quality: 'major', seventh: null, extension: null, added: [], alterations: [], omitted: [], bass, suffix };
+  if (!readSuffix(chord, suffix)) return null;
+
+  // "m7b5" is a half-diminished chord: a diminished triad with a minor seventh
+  const flatFifth = chord.alterations.findIndex(a => a.degree === 5 && a.alter === -1);
+  if (chord.quality === 'minor' && flatFifth !== -1) {
+    chord.quality = 'diminished';
+    chord.alterations.splice(flatFifth, 1);
+  }
+  return chord;
+};
+
+export const formatChord = (chord: Chord): string =>
+  noteName(chord.root) + chord.suffix + (chord.bass ? '/' + noteName(chord.bass) : '');
+
+// Semitones above the root of every chord tone, bass excluded; tensions stay above the octave
+export const chordIntervals = (chord: Chord): number[] => {
+  const tones = new Set(TRIADS[chord.quality]);
+  if (chord.seventh) tones.add(SEVENTHS[chord.seventh]);
+  if (chord.extension) {
+    tones.add(14);
+    if (chord.extension >= 11 && (chord.extension === 11 || chord.quality === 'minor')) tones.add(17);
+    if (chord.extension === 13) tones.add(21);
+  }
+  chord.added.forEach(d => tones.add(DEGREE_SEMITONES[d.degree] + d.alter));
+  chord.alterations.forEach(d => {
+    tones.delete(DEGREE_SEMITONES[d.degree]);
+    tones.add(DEGREE_SEMITONES[d.degree] + d.alter);
+  });
+  chord.omitted.forEach(d => {
+    if (d === 3) [2, 3, 4, 5].forEach(i => tones.delete(i));
+    if (d === 5) [6, 7, 8].forEach(i => tones.delete(i));
+  });
+  return [...tones].sort((a, b) => a - b);
+};
+
+// Pitch classes that sound in the chord, including a slash bass
+export const chordPitchClasses = (chord: Chord): number[] => {
+  const root = notePitchClass(chord.root);
+  const classes = new Set(chordIntervals(chord).map(i => (root + i) % 12));
+  if (chord.bass) classes.add(notePitchClass(chord.bass));
+  return [...classes];
+};
+
+// Root and bass move by semitones and are spelled for the key the chart ends up in; the suffix
+// is kept as written
+export const transposeChord = (chord: Chord, semitones: number, keySignature: string): Chord => ({
+  ...chord,
+  root: spellPitchClass(notePitchClass(chord.root) + semitones, keySignature),
+  bass: chord.bass && spellPitchClass(notePitchClass(chord.bass) + semitones, keySignature)
+});
+
+// Conventional suffix for a chord built from its parts (used for chords read from MusicXML)
+export const chordSuffix = (chord: Omit<Chord, 'suffix' | 'root' | 'bass'>): string => {
+  const number = chord.extension ?? (chord.seventh ? 7 : null);
+  const sixth = chord.added.some(d => d.degree === 6 && d.alter === 0);
+  const sixNine = sixth && !chord.seventh && chord.added.some(d => d.degree === 9 && d.alter === 0);
+  const head = sixNine ? '6/9' : sixth && !chord.seventh ? '6' : '';
+  let text: string;
+  switch (chord.quality) {
+    case 'minor':
+      text = 'm' + (chord.seventh === 'major' ? `maj${number}` : number ?? head);
+      break;
+    case 'diminished':
+      text = chord.seventh === 'diminished' ? 'dim7' : chord.seventh ? `m${number}b5` : 'dim';
+      break;
+    case 'augmented':
+      text = '+' + (chord.seventh === 'major' ? `maj${number}` : number ?? '');
+      break;
+    case 'power':
+      text = '5';
+      break;
+    default:
+      text = (chord.seventh === 'major' ? `maj${number}` : number ?? head)
+        + (chord.quality === 'sus2' ? 'sus2' : chord.quality === 'sus4' ? 'sus4' : '');
+  }
+
+  const added = chord.added
+    .filter(d => !(d.degree === 6 && d.alter === 0 && head) && !(d.degree === 9 && d.alter === 0 && sixNine))
+    .map(d => `add${d.alter > 0 ? '#' : d.alter < 0 ? 'b' : ''}${d.degree}`);
+  const alterations = chord.alterations.map(d => `${d.alter > 0 ? '#' : 'b'}${d.degree}`);
+  const omitted = chord.omitted.map(d => `no${d}`);
+  return text + added.join('') + (alterations.length ? `(${alterations.join(',')})` : '') + omitted.join('');
+};
+
+// --- Measure cells ---
+
+const isNoChord = (token: string) => NO_CHORD_TOKENS.includes(token.toUpperCase());
+
+export const parseMeasureChords = (cell: string, beatsPerMeasure: number): MeasureChords => {
+  const tokens = cell.trim().split(/\s+/).filter(Boolean);
+  const errors: string[] = [];
+  const perBeat = tokens.includes(REPEAT_TOKEN);
+  if (perBeat && tokens.length > beatsPerMeasure) {
+    errors.push(`${tokens.length} tiempos en un compás de ${beatsPerMeasure}`);
+  }
+
+  const events: ChordEvent[] = [];
+  tokens.forEach((token, i) => {
+    if (token === REPEAT_TOKEN) return;
+    const beat = perBeat ? i : (i * beatsPerMeasure) / tokens.length;
+    if (isNoChord(token)) {
+      events.push({ beat, chord: null, text: NO_CHORD });
+      return;
+    }
+    const chord = parseChord(token);
+    if (chord) events.push({ beat, chord, text: token });
+    else errors.push(`"${token}" no es un acorde`);
+  });
+  return { events, errors };
+};
+
+// Rewrites every chord token of a cell, leaving "/", "N.C." and the spacing as they are
+export const mapCellTokens = (cell: string, transform: (token: string) => string): string =>
+  cell.replace(/\S+/g, token => (token === REPEAT_TOKEN || isNoChord(token) ? token : transform(token)));
+
+// Applies `transform` to every chord symbol of a cell, leaving the rest of the text as it is
+export const mapCellChords = (cell: string, transform: (chord: Chord) => Chord): string =>
+  mapCellTokens(cell, token => {
+    const chord = parseChord(token);
+    return chord ? formatChord(transform(chord)) : token;
+  });
+
+// Collapses one chord label per beat into the text of a measure cell:
+// "C" for a whole measure, "C G" for even splits, "C / / G" otherwise.
+export const formatMeasureChords = (beatLabels: (string | null)[]): string => {
+  const labels = beatLabels.map(l => l ?? NO_CHORD);
+  if (beatLabels.every(l => l === null)) return '';
+
+  const runs: { label: string; length: number }[] = [];
+  labels.forEach(label => {
+    const last = runs[runs.length - 1];
+    if (last && last.label === label) last.length++;
+    else runs.push({ label, length: 1 });
+  });
+
+  if (runs.every(r => r.length === runs[0].length)) return runs.map(r => r.label).join(' ');
+  return runs.map(r => [r.label, ...Array(r.length - 1).fill(REPEAT_TOKEN)].join(' ')).join(' ');
+};
+
+// The chord sounding on each whole beat of a measure, from changes at any beat position. Beats
+// before the first change take that chord, since a cell can't start by holding the previous one.
+export const chordsPerBeat = (events: { beat: number; text: string }[], beatsPerMeasure: number): (string | null)[] => {
+  const sorted = [...events].sort((a, b) => a.beat - b.beat);
+  return Array.from({ length: beatsPerMeasure }, (_, beat) => {
+    let label: string | null = sorted[0]?.text ?? null;
+    for (const event of sorted) if (Math.round(event.beat) <= beat) label = event.text;
+    return label;
+  });
+};
+
+// --- MusicXML ---
+
+export interface MusicXmlDegree {
+  value: number;
+  alter: number;
+  type: 'add' | 'alter' | 'subtract';
+}
+
+export interface MusicXmlHarmony {
+  kind: string;
+  degrees: MusicXmlDegree[];
+}
+
+// MusicXML kinds by triad, seventh and extension; degrees carry whatever the kind doesn't
+const SEVENTH_KINDS: Partial<Record<ChordQuality, Partial<Record<SeventhType, string>>>> = {
+  major: { minor: 'dominant', major: 'major-seventh' },
+  minor: { minor: 'minor-seventh', major: 'major-minor' },
+  diminished: { minor: 'half-diminished', diminished: 'diminished-seventh' },
+  augmented: { minor: 'augmented-seventh' }
+};
+const EXTENDED_KINDS: Record<string, string> = { dominant: 'dominant', 'major-seventh': 'major', 'minor-seventh': 'minor' };
+const TRIAD_KINDS: Record<ChordQuality, string> = {
+  major: 'major', minor: 'minor', diminished: 'diminished', augmented: 'augmented',
+  sus2: 'suspended-second', sus4: 'suspended-fourth', power: 'power'
+};
+
+export const musicXmlHarmony = (chord: Chord): MusicXmlHarmony => {
+  const degrees: MusicXmlDegree[] = [];
+  let kind = TRIAD_KINDS[chord.quality];
+  let stacked = 5; // Highest degree the kind itself contains
+  let added = chord.added;
+
+  const seventhKind = chord.seventh && SEVENTH_KINDS[chord.quality]?.[chord.seventh];
+  if (seventhKind) {
+    kind = seventhKind;
+    stacked = 7;
+    const extended = EXTENDED_KINDS[seventhKind];
+    if (chord.extension && extended) {
+      kind = `${extended}-${chord.extension === 9 ? 'ninth' : `${chord.extension}th`}`;
+      stacked = chord.extension;
+    }
+  } else if (chord.seventh) {
+    // Sus and augmented-major sevenths: the seventh is added relative to a dominant chord
+    degrees.push({ value: 7, alter: chord.seventh === 'major' ? 1 : chord.seventh === 'diminished' ? -1 : 0, type: 'add' });
+  } else if ((chord.quality === 'major' || chord.quality === 'minor') && added.some(d => d.degree === 6 && d.alter === 0)) {
+    kind = chord.quality === 'major' ? 'major-sixth' : 'minor-sixth';
+    added = added.filter(d => !(d.degree === 6 && d.alter === 0));
+  }
+  if (chord.extension && stacked < chord.extension) {
+    for (let d = 9; d <= chord.extension; d += 2) degrees.push({ value: d, alter: 0, type: 'add' });
+  }
+
+  added.forEach(d => degrees.push({ value: d.degree, alter: d.alter, type: 'add' }));
+  chord.alterations.forEach(d => degrees.push({ value: d.degree, alter: d.alter, type: d.degree <= stacked ? 'alter' : 'add' }));
+  chord.omitted.forEach(d => degrees.push({ value: d, alter: 0, type: 'subtract' }));
+  return { kind, degrees };
+};
+
+const KIND_PARTS: Record<string, Pick<Chord, 'quality' | 'seventh'>> = {
+  major: { quality: 'major', seventh: null },
+  minor: { quality: 'minor', seventh: null },
+  augmented: { quality: 'augmented', seventh: null },
+  diminished: { quality: 'diminished', seventh: null },
+  dominant: { quality: 'major', seventh: 'minor' },
+  'major-seventh': { quality: 'major', seventh: 'major' },
+  'minor-seventh': { quality: 'minor', seventh: 'minor' },
+  'diminished-seventh': { quality: 'diminished', seventh: 'diminished' },
+  'augmented-seventh': { quality: 'augmented', seventh: 'minor' },
+  'half-diminished': { quality: 'diminished', seventh: 'minor' },
+  'major-minor': { quality: 'minor', seventh: 'major' },
+  'major-sixth': { quality: 'major', seventh: null },
+  'minor-sixth': { quality: 'minor', seventh: null },
+  'suspended-second': { quality: 'sus2', seventh: null },
+  'suspended-fourth': { quality: 'sus4', seventh: null },
+  power: { quality: 'power', seventh: null }
+};
+
+// Chord for a MusicXML <harmony>; null for kind "none" and kinds this model can't hold
+export const chordFromMusicXml = (root: NoteSpelling, kind: string, degrees: MusicXmlDegree[], bass: NoteSpelling | null): Chord | null => {
+  const extended = kind.match(/^(dominant|major|minor)-(ninth|11th|13th)$/);
+  const parts = extended
+    ? KIND_PARTS[extended[1] === 'dominant' ? 'dominant' : `${extended[1]}-seventh`]
+    : KIND_PARTS[kind];
+  if (!parts) return null;
+
+  const chord: Chord = {
+    root, ...parts,
+    extension: extended ? (extended[2] === 'ninth' ? 9 : parseInt(extended[2]) as 11 | 13) : null,
+    added: kind.endsWith('-sixth') ? [{ degree: 6, alter: 0 }] : [],
+    alterations: [], omitted: [], bass, suffix: ''
+  };
+  degrees.forEach(d => {
+    if (d.type === 'subtract') chord.omitted.push(d.value);
+    else if (d.value === 7 && d.type === 'add') chord.seventh = d.alter > 0 ? 'major' : d.alter < 0 ? 'diminished' : 'minor';
+    else if (d.type === 'alter' || (d.alter !== 0 && [5, 9, 11, 13].includes(d.value))) chord.alterations.push({ degree: d.value, alter: d.alter });
+    else chord.added.push({ degree: d.value, alter: d.alter });
+  });
+  // Natural tensions added on top of a seventh stack up as an extension ("C7sus4" + 9 -> "C9sus4")
+  if (chord.seventh) {
+    const tensions = chord.added.filter(d => d.alter === 0 && d.degree >= 9);
+    const highest = Math.max(chord.extension ?? 7, ...tensions.map(d => d.degree));
+    if (highest > 7) {
+      chord.extension = highest as 9 | 11 | 13;
+      chord.added = chord.added.filter(d => !tensions.includes(d));
+    }
+  }
+  chord.suffix = chordSuffix(chord);
+  return chord;
+};
@@ -0,0 +1,95 @@
+import { downmix, hannWindow, magnitudeSpectrum } from './fft';
+
+// Pitch-class (chroma) features from an STFT, used by chord, key and alignment analysis.
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 4096; // ~0.37 s, enough resolution to separate semitones in the bass
+const HOP_SIZE = 1024;
+const MIN_FREQ = 60;
+const MAX_FREQ = 2000;
+const BASS_MAX_FREQ = 250;
+
+export interface Chromagram {
+  chroma: Float32Array; // frameCount * 12 values, one pitch-class vector per frame
+  bass: Float32Array;   // Same layout, restricted to the bass register
+  energy: Float32Array; // Spectral energy of each frame
+  frameCount: number;
+  hopSeconds: number;
+  frameOffset: number;  // Seconds from a frame's start to the center of its window
+}
+
+// Maps FFT bins to pitch classes (-1 when out of range)
+const buildBinMap = (rate: number, maxFreq: number) => {
+  const map = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let k = 1; k < FRAME_SIZE / 2; k++) {
+    const freq = (k * rate) / FRAME_SIZE;
+    if (freq < MIN_FREQ || freq > maxFreq) continue;
+    const midi = Math.round(12 * Math.log2(freq / 440) + 69);
+    map[k] = ((midi % 12) + 12) % 12;
+  }
+  return map;
+};
+
+export const computeChromagram = (channels: Float32Array[], sampleRate: number): Chromagram => {
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_RATE));
+  const rate = sampleRate / factor;
+  const signal = downmix(channels, factor);
+
+  const window = hannWindow(FRAME_SIZE);
+  const fullMap = buildBinMap(rate, MAX_FREQ);
+  const bassMap = buildBinMap(rate, BASS_MAX_FREQ);
+  const frameCount = Math.max(1, Math.ceil(signal.length / HOP_SIZE));
+
+  const chroma = new Float32Array(frameCount * 12);
+  const bass = new Float32Array(frameCount * 12);
+  const energy = new Float32Array(frameCount);
+  const mags = new Float32Array(FRAME_SIZE / 2);
+
+  for (let f = 0; f < frameCount; f++) {
+    magnitudeSpectrum(signal, f * HOP_SIZE, window, mags);
+    const base = f * 12;
+    for (let k = 1; k < mags.length; k++) {
+      const power = mags[k] * mags[k];
+      energy[f] += power;
+      if (fullMap[k] >= 0) chroma[base + fullMap[k]] += power;
+      if (bassMap[k] >= 0) bass[base + bassMap[k]] += power;
+    }
+    // Compress dynamics so loud partials don't swamp the rest
+    for (let p = 0; p < 12; p++) {
+      chroma[base + p] = Math.sqrt(chroma[base + p]);
+      bass[base + p] = Math.sqrt(bass[base + p]);
+    }
+  }
+
+  return {
+    chroma,
+    bass,
+    energy,
+    frameCount,
+    hopSeconds: HOP_SIZE / rate,
+    frameOffset: FRAME_SIZE / 2 / rate
+  };
+};
+
+// Sums the chroma frames whose centers fall inside [start, end) (nearest frame if none)
+export const averageChroma = (gram: Chromagram, source: Float32Array, start: number, end: number): Float32Array => {
+  const out = new Float32Array(12);
+  const toFrame = (t: number) => (t - gram.frameOffset) / gram.hopSeconds;
+  let first = Math.max(0, Math.ceil(toFrame(start)));
+  let last = Math.min(gram.frameCount - 1, Math.ceil(toFrame(end)) - 1);
+  if (last < first) {
+    first = last = Math.min(gram.frameCount - 1, Math.max(0, Math.round(toFrame((start + end) / 2))));
+  }
+  for (let f = first; f <= last; f++) {
+    for (let p = 0; p < 12; p++) out[p] += source[f * 12 + p];
+  }
+  return out;
+};
+
+export const normalizeVector = (v: Float32Array): Float32Array => {
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < v.length; i++) v[i] /= norm;
+  return v;
+};
@@ -0,0 +1,79 @@
+// Minimal radix-2 FFT helpers shared by the offline analysis routines.
+
+// In-place iterative FFT. `re` and `im` must have the same power-of-two length.
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let tmp = re[i]; re[i] = re[j]; re[j] = tmp;
+      tmp = im[i]; im[i] = im[j]; im[j] = tmp;
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number): Float32Array => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  return w;
+};
+
+// Magnitude spectrum (size / 2 bins) of `signal[start .. start + window.length)`, zero padded at the edges
+export const magnitudeSpectrum = (signal: Float32Array, start: number, window: Float32Array, out?: Float32Array): Float32Array => {
+  const size = window.length;
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const idx = start + i;
+    re[i] = idx >= 0 && idx < signal.length ? signal[idx] * window[i] : 0;
+  }
+  fft(re, im);
+
+  const mags = out || new Float32Array(size / 2);
+  for (let k = 0; k < size / 2; k++) mags[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+  return mags;
+};
+
+// Averages all channels into one and decimates by an integer factor (box filter)
+export const downmix = (channels: Float32Array[], factor: number = 1): Float32Array => {
+  const length = Math.floor(channels[0].length / factor);
+  const out = new Float32Array(length);
+  const scale = 1 / (channels.length * factor);
+  for (const data of channels) {
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      const base = i * factor;
+      for (let j = 0; j < factor; j++) sum += data[base + j];
+      out[i] += sum * scale;
+    }
+  }
+  return out;
+};
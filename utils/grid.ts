@@ -0,0 +1,144 @@
+import { GridConfig, Measure } from '../types';
+
+export interface MeasureSpan {
+  index: number;
+  start: number;    // Seconds from the start of the audio
+  duration: number; // Seconds
+}
+
+// Length of a measure without a manual duration, from the global BPM and time signature
+export const getStandardDuration = (gridConfig: GridConfig): number => {
+  let effectiveBpm = gridConfig.bpm;
+  if (gridConfig.beatUnit === 'eighth') effectiveBpm = effectiveBpm / 2;
+  if (gridConfig.beatUnit === 'dotted-quarter') effectiveBpm = effectiveBpm * 1.5;
+
+  const beats = gridConfig.tsTop * (4 / gridConfig.tsBottom);
+  return (beats * 60) / effectiveBpm;
+};
+
+// Start time and duration of every measure, honoring per-measure overrides
+export const getMeasureLayout = (measures: Measure[], gridConfig: GridConfig): MeasureSpan[] => {
+  const standardDur = getStandardDuration(gridConfig);
+  const layout: MeasureSpan[] = [];
+  let t = gridConfig.offset;
+
+  for (const m of measures) {
+    const duration = m.duration !== undefined ? m.duration : standardDur;
+    layout.push({ index: m.index, start: t, duration });
+    t += duration;
+  }
+  return layout;
+};
+
+// Felt beats per measure (compound meters group eighths in threes)
+export const getBeatsPerMeasure = (gridConfig: GridConfig): number => {
+  if (gridConfig.beatUnit === 'dotted-quarter') return Math.max(1, Math.round(gridConfig.tsTop / 3));
+  return Math.max(1, gridConfig.tsTop);
+};
+
+// Inverse of getStandardDuration: the BPM (in the grid's beat unit) for a measure length
+export const bpmForMeasureDuration = (measureDuration: number, gridConfig: GridConfig): number => {
+  const beats = gridConfig.tsTop * (4 / gridConfig.tsBottom);
+  let bpm = (beats * 60) / measureDuration;
+  if (gridConfig.beatUnit === 'eighth') bpm = bpm * 2;
+  if (gridConfig.beatUnit === 'dotted-quarter') bpm = bpm / 1.5;
+  return Math.round(bpm * 10) / 10;
+};
+
+const DURATION_TOLERANCE = 0.01; // Relative deviation before a measure gets a manual duration
+
+// Manual duration only when it really differs from the global BPM
+const durationOverride = (duration: number | undefined, standardDur: number) => {
+  if (duration === undefined) return undefined;
+  return Math.abs(duration - standardDur) > standardDur * DURATION_TOLERANCE ? duration : undefined;
+};
+
+// Rebuilds the grid so every measure starts on one of `downbeats`. The global BPM becomes
+// the median measure length; measures that deviate from it keep an explicit duration.
+// Existing chords/lyrics stay attached to their measure numbers.
+export const gridFromDownbeats = (
+  downbeats: number[],
+  gridConfig: GridConfig,
+  measures: Measure[],
+  audioDuration: number
+): { gridConfig: GridConfig; measures: Measure[] } | null => {
+  const sorted = [...downbeats].sort((a, b) => a - b);
+  if (sorted.length < 2) return null;
+
+  const durations: number[] = [];
+  for (let i = 1; i < sorted.length; i++) durations.push(sorted[i] - sorted[i - 1]);
+  const median = [...durations].sort((a, b) => a - b)[Math.floor(durations.length / 2)];
+
+  const newConfig: GridConfig = {
+    ...gridConfig,
+    bpm: bpmForMeasureDuration(median, gridConfig),
+    offset: Math.max(0, sorted[0])
+  };
+  const standardDur = getStandardDuration(newConfig);
+
+  // Keep covering the rest of the audio with standard measures
+  let count = durations.length;
+  for (let t = sorted[sorted.length - 1]; t < audioDuration; t += standardDur) count++;
+  count = Math.max(count, measures.length);
+
+  const newMeasures: Measure[] = [];
+  for (let i = 0; i < count; i++) {
+    const base = measures[i] || { index: i + 1, chords: '', lyrics: '' };
+    const dur = durations[i];
+    newMeasures.push({
+      ...base,
+      index: i + 1,
+      duration: durationOverride(dur, standardDur)
+    });
+  }
+  return { gridConfig: newConfig, measures: newMeasures };
+};
+
+const MIN_MEASURE_DURATION = 0.1;
+
+// Moves bar lines onto tapped times. The first tap snaps to the closest existing bar line,
+// and every following tap becomes the next one; measures outside the tapped span keep
+// their layout, and new measures are appended if the taps run past the last one.
+export const applyTappedBoundaries = (
+  taps: number[],
+  gridConfig: GridConfig,
+  measures: Measure[]
+): { gridConfig: GridConfig; measures: Measure[] } | null => {
+  // Sorted, without accidental double taps
+  const sorted = [...taps].sort((a, b) => a - b)
+    .filter((t, i, arr) => i === 0 || t - arr[i - 1] > MIN_MEASURE_DURATION);
+  if (sorted.length === 0 || measures.length === 0) return null;
+
+  const layout = getMeasureLayout(measures, gridConfig);
+  const standardDur = getStandardDuration(gridConfig);
+
+  let first = 0;
+  layout.forEach((span, i) => {
+    if (Math.abs(span.start - sorted[0]) < Math.abs(layout[first].start - sorted[0])) first = i;
+  });
+
+  const newMeasures = measures.map(m => ({ ...m }));
+  const newConfig = { ...gridConfig };
+
+  if (first === 0) {
+    newConfig.offset = Math.max(0, sorted[0]);
+  } else {
+    const prev = newMeasures[first - 1];
+    const dur = sorted[0] - layout[first - 1].start;
+    if (dur > MIN_MEASURE_DURATION) prev.duration = durationOverride(dur, standardDur);
+  }
+
+  for (let j = 1; j < sorted.length; j++) {
+    const dur = sorted[j] - sorted[j - 1];
+    const target = first + j - 1;
+    if (!newMeasures[target]) {
+      newMeasures[target] = { index: target + 1, chords: '', lyrics: '' };
+    }
+    newMeasures[target].duration = durationOverride(dur, standardDur);
+  }
+
+  return {
+    gridConfig: newConfig,
+    measures: newMeasures.map((m, i) => ({ ...m, index: i + 1 }))
+  };
+};
@@ -0,0 +1,77 @@
+import * as Tone from 'tone';
+import { ProcessingParams, FocusBand } from '../types';
+
+// Stem-style isolation stage: mid/side center cancel/solo, channel routing
+// with balance, and a band-pass "focus" around an instrument range.
+
+export const FOCUS_BANDS: Record<Exclude<FocusBand, 'off'>, { label: string; low: number; high: number }> = {
+  bass: { label: 'Bajo', low: 35, high: 400 },
+  guitar: { label: 'Guitarra', low: 80, high: 1500 },
+  voice: { label: 'Voz', low: 150, high: 4000 },
+  high: { label: 'Agudos', low: 2000, high: 16000 },
+};
+
+const FULL_RANGE = { low: 10, high: 20000 };
+
+export interface IsolationChain {
+  input: Tone.ToneAudioNode;
+  output: Tone.ToneAudioNode;
+  update: (params: ProcessingParams) => void;
+  dispose: () => void;
+}
+
+type IsolationParams = Pick<ProcessingParams, 'center' | 'channel' | 'balance' | 'focus'>;
+
+// input -> M/S split -> mid/side gains -> M/S merge -> L/R matrix -> high-pass -> low-pass -> output
+export const createIsolationChain = (params: IsolationParams): IsolationChain => {
+  const msSplit = new Tone.MidSideSplit();
+  const msMerge = new Tone.MidSideMerge();
+  const midGain = new Tone.Gain();
+  const sideGain = new Tone.Gain();
+  msSplit.mid.chain(midGain, msMerge.mid);
+  msSplit.side.chain(sideGain, msMerge.side);
+
+  // Each input channel feeds each output channel through its own gain
+  const split = new Tone.Split(2);
+  const merge = new Tone.Merge(2);
+  const matrix = [0, 1].map(from => [0, 1].map(to => {
+    const gain = new Tone.Gain();
+    split.connect(gain, from, 0);
+    gain.connect(merge, 0, to);
+    return gain;
+  }));
+  msMerge.connect(split);
+
+  const highpass = new Tone.Filter({ type: 'highpass', frequency: FULL_RANGE.low, rolloff: -24 });
+  const lowpass = new Tone.Filter({ type: 'lowpass', frequency: FULL_RANGE.high, rolloff: -24 });
+  merge.chain(highpass, lowpass);
+
+  const update = ({ center, channel, balance, focus }: IsolationParams) => {
+    midGain.gain.value = center === 'cancel' ? 0 : 1;
+    sideGain.gain.value = center === 'solo' ? 0 : 1;
+
+    const leftLevel = Math.min(1, 1 - balance);
+    const rightLevel = Math.min(1, 1 + balance);
+    const sources = channel === 'left' ? [0, 0] : channel === 'right' ? [1, 1] : [0, 1];
+    [0, 1].forEach(to => {
+      const level = to === 0 ? leftLevel : rightLevel;
+      [0, 1].forEach(from => {
+        matrix[from][to].gain.value = sources[to] === from ? level : 0;
+      });
+    });
+
+    const band = focus === 'off' ? FULL_RANGE : FOCUS_BANDS[focus];
+    highpass.frequency.value = band.low;
+    lowpass.frequency.value = band.high;
+  };
+  update(params);
+
+  return {
+    input: msSplit,
+    output: lowpass,
+    update,
+    dispose: () => {
+      [msSplit, msMerge, midGain, sideGain, split, merge, highpass, lowpass, ...matrix.flat()].forEach(node => node.dispose());
+    }
+  };
+};
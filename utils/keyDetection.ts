@@ -0,0 +1,90 @@
+import { computeChromagram } from './chroma';
+import { parseChord, chordPitchClasses } from './chords';
+
+// Krumhansl-Kessler key profiles, matched against a pitch-class histogram.
+
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const CHORD_WEIGHT = 0.5;   // Share of the histogram taken from the chart when it has chords
+const SOFTMAX_SCALE = 12;   // Turns correlations into the confidence distribution
+
+export interface KeyDetectionRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  chordHistogram: number[] | null; // Pitch classes of the chords in the analyzed measures
+}
+
+export interface KeyCandidate {
+  tonic: number; // Pitch class, 0 = C
+  minor: boolean;
+  confidence: number; // 0..1, candidates sum to 1
+}
+
+export interface KeyDetectionResponse {
+  result?: KeyCandidate[]; // Best first
+  error?: string;
+}
+
+const correlation = (a: ArrayLike<number>, b: ArrayLike<number>, shift: number) => {
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < 12; i++) { meanA += a[i]; meanB += b[i]; }
+  meanA /= 12; meanB /= 12;
+  let num = 0, varA = 0, varB = 0;
+  for (let i = 0; i < 12; i++) {
+    const da = a[(i + shift) % 12] - meanA;
+    const db = b[i] - meanB;
+    num += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  return varA > 0 && varB > 0 ? num / Math.sqrt(varA * varB) : 0;
+};
+
+const normalizeSum = (v: ArrayLike<number>) => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += v[i];
+  return Array.from({ length: 12 }, (_, i) => (sum > 0 ? v[i] / sum : 0));
+};
+
+export const estimateKey = (histogram: ArrayLike<number>): KeyCandidate[] => {
+  const scores: { tonic: number; minor: boolean; r: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    scores.push({ tonic, minor: false, r: correlation(histogram, MAJOR_PROFILE, tonic) });
+    scores.push({ tonic, minor: true, r: correlation(histogram, MINOR_PROFILE, tonic) });
+  }
+  const best = Math.max(...scores.map(s => s.r));
+  const weights = scores.map(s => Math.exp(SOFTMAX_SCALE * (s.r - best)));
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  return scores
+    .map((s, i) => ({ tonic: s.tonic, minor: s.minor, confidence: weights[i] / total }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+export const detectKey = ({ channels, sampleRate, chordHistogram }: KeyDetectionRequest): KeyCandidate[] => {
+  const gram = computeChromagram(channels, sampleRate);
+  const audio = new Float32Array(12);
+  for (let f = 0; f < gram.frameCount; f++) {
+    for (let p = 0; p < 12; p++) audio[p] += gram.chroma[f * 12 + p];
+  }
+
+  let histogram = normalizeSum(audio);
+  if (chordHistogram && chordHistogram.some(v => v > 0)) {
+    const chords = normalizeSum(chordHistogram);
+    histogram = histogram.map((v, i) => (1 - CHORD_WEIGHT) * v + CHORD_WEIGHT * chords[i]);
+  }
+  return estimateKey(histogram);
+};
+
+// Pitch-class content of the chord cells ("Am7 / G/B D"), one count per chord tone of each symbol
+export const chordPitchHistogram = (cells: string[]): number[] => {
+  const histogram = new Array(12).fill(0);
+  cells.forEach(cell => {
+    cell.split(/\s+/).forEach(token => {
+      const chord = parseChord(token);
+      if (chord) chordPitchClasses(chord).forEach(pc => histogram[pc] += 1);
+    });
+  });
+  return histogram;
+};
@@ -0,0 +1,11 @@
+import { detectKey, KeyDetectionRequest, KeyDetectionResponse } from './keyDetection';
+
+self.onmessage = (e: MessageEvent<KeyDetectionRequest>) => {
+  let response: KeyDetectionResponse;
+  try {
+    response = { result: detectKey(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
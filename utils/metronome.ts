@@ -0,0 +1,87 @@
+import * as Tone from 'tone';
+import { GridConfig, Measure, ClickSubdivision } from '../types';
+import { getMeasureLayout, getBeatsPerMeasure } from './grid';
+
+export type ClickLevel = 'accent' | 'beat' | 'sub';
+
+export interface ClickEvent {
+  position: number; // Seconds in the audio timeline
+  level: ClickLevel;
+}
+
+// Short percussive click used for count-ins and the metronome
+export const createClickSynth = (volume: number = -10): Tone.Synth => {
+  const synth = new Tone.Synth({
+    oscillator: { type: 'square' },
+    envelope: { attack: 0.001, decay: 0.04, sustain: 0, release: 0.01 }
+  }).toDestination();
+  synth.volume.value = volume;
+  return synth;
+};
+
+export const scheduleClick = (synth: Tone.Synth, time: number, level: ClickLevel) => {
+  switch (level) {
+    case 'accent': synth.triggerAttackRelease('C6', 0.03, time, 1); break;
+    case 'beat': synth.triggerAttackRelease('G5', 0.03, time, 0.6); break;
+    case 'sub': default: synth.triggerAttackRelease('G5', 0.02, time, 0.25); break;
+  }
+};
+
+// Every click of the measure grid, sorted by position. Each measure is split into beats of
+// equal length as the grid counts them (two dotted quarters in 6/8), so manual measure
+// durations stretch their beats.
+export const buildClickTrack = (measures: Measure[], gridConfig: GridConfig, subdivision: ClickSubdivision): ClickEvent[] => {
+  const clicks: ClickEvent[] = [];
+  const beatsPerMeasure = getBeatsPerMeasure(gridConfig);
+
+  for (const span of getMeasureLayout(measures, gridConfig)) {
+    const beat = span.duration / beatsPerMeasure;
+    for (let b = 0; b < beatsPerMeasure; b++) {
+      for (let s = 0; s < subdivision; s++) {
+        clicks.push({
+          position: span.start + b * beat + (s * beat) / subdivision,
+          level: s > 0 ? 'sub' : b === 0 ? 'accent' : 'beat'
+        });
+      }
+    }
+  }
+  return clicks;
+};
+
+const lowerBound = (clicks: { position: number }[], position: number) => {
+  let lo = 0, hi = clicks.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (clicks[mid].position < position) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Clicks whose position falls in [from, to). With a `loop`, positions past `loop.end`
+// keep going from `loop.start`; returned positions stay unwrapped (pass n adds n * length).
+// Works on any events sorted by position, such as the chord chart's hits.
+export const getClicksInRange = <T extends { position: number }>(clicks: T[], from: number, to: number, loop?: { start: number; end: number }): T[] => {
+  const result: T[] = [];
+
+  const collect = (a: number, b: number, shift: number) => {
+    for (let i = lowerBound(clicks, a); i < clicks.length && clicks[i].position < b; i++) {
+      result.push({ ...clicks[i], position: clicks[i].position + shift });
+    }
+  };
+
+  if (!loop || loop.end <= loop.start) {
+    collect(from, to, 0);
+    return result;
+  }
+
+  const length = loop.end - loop.start;
+  if (from < loop.end) collect(from, Math.min(to, loop.end), 0);
+
+  for (let n = Math.max(1, Math.floor((from - loop.start) / length)); loop.start + n * length < to; n++) {
+    const a = Math.max(from, loop.start + n * length);
+    const b = Math.min(to, loop.start + (n + 1) * length);
+    if (b > a) collect(a - n * length, b - n * length, n * length);
+  }
+  return result;
+};
@@ -0,0 +1,143 @@
+// Note names and key signature helpers shared by the grid, transposition and analysis code
+
+export const NOTES_SHARP = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+export const NOTES_FLAT  = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+export type NoteStep = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+
+export interface NoteSpelling {
+    step: NoteStep;
+    alter: number; // -1 flat, 1 sharp, ±2 for double accidentals
+}
+
+export interface KeySignature {
+    tonic: NoteSpelling;
+    minor: boolean;
+}
+
+const STEPS: NoteStep[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const STEP_PITCH: Record<NoteStep, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const STEP_FIFTHS: Record<NoteStep, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+
+// Scale degree (0 = tonic) whose letter spells each semitone above the tonic: chromatic notes are
+// read as b2, b3, #4, b6 and b7 in major, and as b2, raised 3, #4, raised 6 and 7 in minor
+const DEGREE_OF_INTERVAL = [0, 1, 1, 2, 2, 3, 3, 4, 5, 5, 6, 6];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10, 11]; // Natural minor plus the leading tone
+
+const NOTE_PATTERN = /^([A-G])(bb|##|x|[#b♯♭]?)$/;
+
+export const parseNote = (text: string): NoteSpelling | null => {
+    const match = text.match(NOTE_PATTERN);
+    if (!match) return null;
+    const accidental = match[2].replace('♯', '#').replace('♭', 'b').replace('x', '##');
+    const alter = accidental.startsWith('#') ? accidental.length : -accidental.length;
+    return { step: match[1] as NoteStep, alter };
+};
+
+export const noteName = (note: NoteSpelling): string =>
+    note.step + (note.alter > 0 ? '#'.repeat(note.alter) : 'b'.repeat(-note.alter));
+
+export const notePitchClass = (note: NoteSpelling): number =>
+    (((STEP_PITCH[note.step] + note.alter) % 12) + 12) % 12;
+
+// "F#m" -> F# minor; null when the text isn't a key
+export const parseKey = (keySignature: string): KeySignature | null => {
+    const minor = /m$/.test(keySignature.trim());
+    const tonic = parseNote(keySignature.trim().replace(/m$/, ''));
+    return tonic ? { tonic, minor } : null;
+};
+
+const keyOrC = (keySignature: string): KeySignature =>
+    parseKey(keySignature) ?? { tonic: { step: 'C', alter: 0 }, minor: false };
+
+// Helper to convert circle of fifths to key string
+export const fifthsToKey = (fifths: number, mode: string = 'major'): string => {
+    const majorKeys: {[key: number]: string} = {
+        0: 'C', 1: 'G', 2: 'D', 3: 'A', 4: 'E', 5: 'B', 6: 'F#', 7: 'C#',
+        [-1]: 'F', [-2]: 'Bb', [-3]: 'Eb', [-4]: 'Ab', [-5]: 'Db', [-6]: 'Gb', [-7]: 'Cb'
+    };
+
+    const key = majorKeys[fifths] || 'C';
+    if (mode !== 'minor') return key;
+    // The relative minor is the sixth degree of the major key
+    return noteName(spellPitchClass(keyTonic(key) + 9, key)) + 'm';
+};
+
+// Helper to convert key string to circle of fifths number
+export const keyToFifths = (keyStr: string): number => {
+    const key = parseKey(keyStr);
+    if (!key) return 0;
+    return STEP_FIFTHS[key.tonic.step] + 7 * key.tonic.alter - (key.minor ? 3 : 0);
+};
+
+// Pitch class of a key signature's tonic ("F#m" -> 6)
+export const keyTonic = (keySignature: string): number => notePitchClass(keyOrC(keySignature).tonic);
+
+// Spelling of a pitch class (0 = C) in a key, by the scale degree it belongs to. Chromatic notes
+// that would need a double accidental fall back to the single-accidental name, sharps or flats
+// following the key signature.
+export const spellPitchClass = (pc: number, keySignature: string): NoteSpelling => {
+    const key = keyOrC(keySignature);
+    const target = ((pc % 12) + 12) % 12;
+    const interval = (target - notePitchClass(key.tonic) + 12) % 12;
+    const step = STEPS[(STEPS.indexOf(key.tonic.step) + DEGREE_OF_INTERVAL[interval]) % 7];
+    const alter = ((target - STEP_PITCH[step] + 18) % 12) - 6;
+
+    const inScale = (key.minor ? MINOR_SCALE : MAJOR_SCALE).includes(interval);
+    if (Math.abs(alter) <= (inScale ? 2 : 1)) return { step, alter };
+    return parseNote((keyToFifths(keySignature) < 0 ? NOTES_FLAT : NOTES_SHARP)[target])!;
+};
+
+// Scale degree of a note in a key, counted on the letters (0 = tonic) and measured against the
+// major scale of the tonic: in C and in Cm, "Eb" is degree 2 lowered (bIII)
+export const noteDegree = (note: NoteSpelling, keySignature: string): { degree: number; alter: number } => {
+    const key = keyOrC(keySignature);
+    const degree = (STEPS.indexOf(note.step) - STEPS.indexOf(key.tonic.step) + 7) % 7;
+    const alter = ((notePitchClass(note) - notePitchClass(key.tonic) - MAJOR_SCALE[degree] + 18) % 12) - 6;
+    return { degree, alter };
+};
+
+// Inverse of noteDegree: the note on a (possibly altered) major-scale degree of the key's tonic
+export const degreeNote = (keySignature: string, degree: number, alter: number): NoteSpelling => {
+    const key = keyOrC(keySignature);
+    const step = STEPS[(STEPS.indexOf(key.tonic.step) + degree) % 7];
+    const pc = notePitchClass(key.tonic) + MAJOR_SCALE[degree % 7] + alter;
+    return { step, alter: ((pc - STEP_PITCH[step] + 18) % 12) - 6 };
+};
+
+// Name of a pitch class (0 = C), spelled for the key
+export const pitchClassName = (pc: number, keySignature: string): string =>
+    noteName(spellPitchClass(pc, keySignature));
+
+const MAJOR_KEY_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_KEY_NAMES = ['Cm', 'C#m', 'Dm', 'Ebm', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'Bbm', 'Bm'];
+
+// Conventional key signature name for a tonic pitch class ("Bb", "F#m", ...)
+export const keyName = (tonic: number, minor: boolean): string => {
+    const idx = ((tonic % 12) + 12) % 12;
+    return minor ? MINOR_KEY_NAMES[idx] : MAJOR_KEY_NAMES[idx];
+};
+
+// The key a chart in `keySignature` lands in when moved by semitones, with its conventional name
+export const transposeKey = (keySignature: string, semitones: number): string =>
+    keyName(keyTonic(keySignature) + semitones, keyOrC(keySignature).minor);
+
+// Every key signature of one mode, from seven flats to seven sharps
+export const keySignatures = (minor: boolean): string[] =>
+    Array.from({ length: 15 }, (_, i) => fifthsToKey(i - 7, minor ? 'minor' : 'major'));
+
+// Keys whose chords fall on open guitar shapes
+const OPEN_SHAPE_KEYS = ['C', 'G', 'D', 'A', 'E', 'Am', 'Em', 'Dm'];
+const MAX_CAPO = 7;
+
+// Capo frets that let a guitarist play a chart in `keySignature` with open shapes, and the key of
+// those shapes ("Eb": capo 1 with D shapes, capo 3 with C shapes...)
+export const capoOptions = (keySignature: string): { capo: number; shapes: string }[] => {
+    const options: { capo: number; shapes: string }[] = [];
+    for (let capo = 1; capo <= MAX_CAPO; capo++) {
+        const shapes = transposeKey(keySignature, -capo);
+        if (OPEN_SHAPE_KEYS.includes(shapes)) options.push({ capo, shapes });
+    }
+    return options;
+};
@@ -0,0 +1,249 @@
+import { Chord, ChordQuality, SeventhType, parseChord, formatChord, chordSuffix, chordIntervals, mapCellTokens, mapCellChords } from './chords';
+import { NoteSpelling, noteName, notePitchClass, parseKey, keyTonic, noteDegree, degreeNote } from './music';
+
+// Chord charts read as scale degrees of the key: Roman numerals ("ii7 V7 I", "bVII", "V7/V", "V65")
+// or Nashville numbers ("2m7 5 1", "b7", "1/3"). Cells always store letter names; the grid converts
+// them on the way in and out, so the same chart reads in any key. Degrees are counted on the
+// major scale of the tonic in both modes: in A minor, C is bIII and G is bVII.
+
+export type ChordNotation = 'letters' | 'roman' | 'nashville';
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+const ROMAN_PATTERN = '(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)';
+const ACCIDENTAL_PATTERN = '([b#♭♯]*)';
+const NOTE_PATTERN = '([A-G](?:bb|##|x|[#b♯♭])?)';
+
+// Inversions in Roman numerals take the usual figures: a triad over its third or fifth is "6" or
+// "64", a seventh chord over its third, fifth or seventh "65", "43" or "42". Sixth chords are
+// written "add6" there so "I6" can only be an inversion.
+const TRIAD_FIGURES = ['6', '64'];
+const SEVENTH_FIGURES = ['65', '43', '42'];
+const FIGURE_DEGREES = [2, 4, 6];     // Chord tone each figure puts in the bass, as a scale step
+const FIGURE_SEMITONES = [4, 7, 11];  // And its semitones above the root when unaltered
+
+// Numerals whose "/x" names the chord they lead to (V7/V, vii°7/ii); after the others it's the bass
+const SECONDARY_NUMERALS = ['V', 'VII'];
+
+// Chords that belong to the key, by semitones above the tonic. The minor key includes the major
+// V and the vii°7 of harmonic minor.
+interface DiatonicChord {
+  quality: ChordQuality;
+  seventh: SeventhType;
+}
+
+const MAJOR_DIATONIC: Record<number, DiatonicChord[]> = {
+  0: [{ quality: 'major', seventh: 'major' }],
+  2: [{ quality: 'minor', seventh: 'minor' }],
+  4: [{ quality: 'minor', seventh: 'minor' }],
+  5: [{ quality: 'major', seventh: 'major' }],
+  7: [{ quality: 'major', seventh: 'minor' }],
+  9: [{ quality: 'minor', seventh: 'minor' }],
+  11: [{ quality: 'diminished', seventh: 'minor' }]
+};
+
+const MINOR_DIATONIC: Record<number, DiatonicChord[]> = {
+  0: [{ quality: 'minor', seventh: 'minor' }],
+  2: [{ quality: 'diminished', seventh: 'minor' }],
+  3: [{ quality: 'major', seventh: 'major' }],
+  5: [{ quality: 'minor', seventh: 'minor' }],
+  7: [{ quality: 'major', seventh: 'minor' }, { quality: 'minor', seventh: 'minor' }],
+  8: [{ quality: 'major', seventh: 'major' }],
+  10: [{ quality: 'major', seventh: 'minor' }],
+  11: [{ quality: 'diminished', seventh: 'diminished' }]
+};
+
+// Degrees a triad is commonly borrowed on from the parallel mode, by semitones above the tonic:
+// a major chord there is read as borrowed (bVII, IV in minor) rather than as a secondary dominant
+const MAJOR_BORROWED = [5, 8, 10];
+const MINOR_BORROWED = [2, 5];
+
+const accidentalText = (alter: number) => (alter > 0 ? '#'.repeat(alter) : 'b'.repeat(-alter));
+
+const accidentalAlter = (text: string) =>
+  [...text].reduce((sum, c) => sum + (c === '#' || c === '♯' ? 1 : -1), 0);
+
+const diatonicChords = (interval: number, keySignature: string): DiatonicChord[] =>
+  (parseKey(keySignature)?.minor ? MINOR_DIATONIC : MAJOR_DIATONIC)[interval] ?? [];
+
+const semitonesAbove = (note: NoteSpelling, keySignature: string) =>
+  (notePitchClass(note) - keyTonic(keySignature) + 12) % 12;
+
+const isDiatonic = (chord: Chord, keySignature: string) =>
+  diatonicChords(semitonesAbove(chord.root, keySignature), keySignature)
+    .some(d => d.quality === chord.quality && (!chord.seventh || chord.seventh === d.seventh));
+
+// The chord a non-diatonic dominant (V) or leading-tone chord (vii°) resolves to, when that
+// chord is in the key and isn't the tonic: D7 in C is V7/V, F#°7 is vii°7/V. A plain major triad
+// on a borrowed degree isn't a dominant: D in A minor stays IV.
+const secondaryTarget = (chord: Chord, keySignature: string): { numeral: string; target: string } | null => {
+  if (chord.bass || isDiatonic(chord, keySignature)) return null;
+  const borrowed = (parseKey(keySignature)?.minor ? MINOR_BORROWED : MAJOR_BORROWED).includes(semitonesAbove(chord.root, keySignature));
+  const dominant = chord.quality === 'major' && (chord.seventh === 'minor' || (!chord.seventh && !borrowed));
+  if (!dominant && chord.quality !== 'diminished') return null;
+
+  // A fifth below the dominant, a half step above the leading tone
+  const target = dominant ? degreeNote(noteName(chord.root), 3, 0) : degreeNote(noteName(chord.root), 1, -1);
+  const interval = semitonesAbove(target, keySignature);
+  const diatonic = diatonicChords(interval, keySignature)[0];
+  if (!diatonic || interval === 0 || diatonic.quality === 'diminished') return null;
+  const { degree, alter } = noteDegree(target, keySignature);
+  const numeral = ROMAN[degree];
+  return {
+    numeral: dominant ? 'V' : 'vii',
+    target: accidentalText(alter) + (diatonic.quality === 'minor' ? numeral.toLowerCase() : numeral)
+  };
+};
+
+// Suffix after a Roman numeral: the case already says major or minor, so the "m" goes, and the
+// diminished chords take the usual signs (vii°, vii°7, viiø7)
+const romanSuffix = (chord: Chord): string => {
+  switch (chord.quality) {
+    case 'diminished': {
+      const mark = chord.seventh === 'diminished' ? '°7' : chord.seventh ? `ø${chord.extension ?? 7}` : '°';
+      return mark + chordSuffix({ ...chord, quality: 'major', seventh: null, extension: null });
+    }
+    case 'minor':
+      return chordSuffix({ ...chord, quality: 'major' }).replace(/^6(?!\/9)/, 'add6');
+    case 'augmented':
+      return '+' + chordSuffix({ ...chord, quality: 'major' });
+    default:
+      return chordSuffix(chord).replace(/^6(?!\/9)/, 'add6');
+  }
+};
+
+// Suffix with the inversion figure of a chord over one of its own tones ("65" for G7/B); null for
+// other basses and for chords the figures don't cover (extensions, added or altered tones)
+const invertedSuffix = (chord: Chord): string | null => {
+  if (!chord.bass || chord.extension || chord.added.length || chord.alterations.length || chord.omitted.length) return null;
+  if (chord.quality === 'sus2' || chord.quality === 'sus4' || chord.quality === 'power') return null;
+  const position = chordIntervals(chord).indexOf((notePitchClass(chord.bass) - notePitchClass(chord.root) + 12) % 12);
+  if (position < 1) return null;
+  const suffix = romanSuffix(chord);
+  if (!chord.seventh) return suffix + TRIAD_FIGURES[position - 1];
+  return suffix.endsWith('7') ? suffix.slice(0, -1) + SEVENTH_FIGURES[position - 1] : null;
+};
+
+const degreeText = (note: NoteSpelling, keySignature: string) => {
+  const { degree, alter } = noteDegree(note, keySignature);
+  return accidentalText(alter) + (degree + 1);
+};
+
+// Suffixes that start with a number go in parentheses after a Nashville number, so G7 in C reads
+// "5(7)" and not "57"
+const nashvilleSuffix = (suffix: string) => (/^\d/.test(suffix) ? `(${suffix})` : suffix);
+
+// "Dm7" in C -> "ii7" or "2m7"
+export const chordToNumeral = (chord: Chord, keySignature: string, notation: Exclude<ChordNotation, 'letters'>): string => {
+  const bass = chord.bass ? '/' + degreeText(chord.bass, keySignature) : '';
+  if (notation === 'nashville') return degreeText(chord.root, keySignature) + nashvilleSuffix(chord.suffix) + bass;
+
+  const secondary = secondaryTarget(chord, keySignature);
+  const lower = chord.quality === 'minor' || chord.quality === 'diminished';
+  if (secondary) {
+    return (lower ? secondary.numeral.toLowerCase() : secondary.numeral) + romanSuffix(chord) + '/' + secondary.target;
+  }
+  const { degree, alter } = noteDegree(chord.root, keySignature);
+  const numeral = accidentalText(alter) + (lower ? ROMAN[degree].toLowerCase() : ROMAN[degree]);
+  const inverted = invertedSuffix(chord);
+  if (inverted !== null || !chord.bass) return numeral + (inverted ?? romanSuffix(chord));
+
+  // Any other bass as a degree of the key, or by letter after a V or vii, where "/x" would read
+  // as a secondary chord
+  const bassDegree = noteDegree(chord.bass, keySignature);
+  const bassText = !alter && SECONDARY_NUMERALS.includes(ROMAN[degree])
+    ? noteName(chord.bass)
+    : accidentalText(bassDegree.alter) + ROMAN[bassDegree.degree];
+  return numeral + romanSuffix(chord) + '/' + bassText;
+};
+
+const romanDegree = (text: string) => ROMAN.indexOf(text.toUpperCase());
+
+// Letter-name symbol for a Roman numeral: the case gives the triad, so "ii7" is a minor seventh
+const romanChordText = (root: NoteSpelling, numeral: string, suffix: string) => {
+  const minor = numeral === numeral.toLowerCase() && !/^(°|o|ø|Ø|dim)/.test(suffix);
+  return noteName(root) + (minor ? 'm' : '') + suffix;
+};
+
+const parseRoman = (text: string, keySignature: string): Chord | null => {
+  const match = text.match(new RegExp(`^${ACCIDENTAL_PATTERN}${ROMAN_PATTERN}(.*)$`));
+  if (!match) return null;
+  const [, accidental, numeral, rest] = match;
+
+  const slash = rest.match(new RegExp(`^(.*)/${ACCIDENTAL_PATTERN}${ROMAN_PATTERN}$`));
+  if (slash && !accidental && SECONDARY_NUMERALS.includes(numeral.toUpperCase())) {
+    const target = degreeNote(keySignature, romanDegree(slash[3]), accidentalAlter(slash[2]));
+    const root = degreeNote(noteName(target), romanDegree(numeral), accidentalAlter(accidental));
+    return parseChord(romanChordText(root, numeral, slash[1]));
+  }
+
+  const root = degreeNote(keySignature, romanDegree(numeral), accidentalAlter(accidental));
+  if (slash) {
+    const bass = degreeNote(keySignature, romanDegree(slash[3]), accidentalAlter(slash[2]));
+    return parseChord(romanChordText(root, numeral, slash[1]) + '/' + noteName(bass));
+  }
+  const letterBass = rest.match(new RegExp(`^(.*)/${NOTE_PATTERN}$`));
+  if (letterBass) return parseChord(romanChordText(root, numeral, letterBass[1]) + '/' + letterBass[2]);
+
+  // An inversion figure: the chord is read without it and the figure picks the bass among its tones
+  const figure = rest.match(/^(.*?)(64|65|43|42|6)$/);
+  if (figure && !figure[1].endsWith('add')) {
+    const triad = TRIAD_FIGURES.includes(figure[2]);
+    const chord = parseChord(romanChordText(root, numeral, figure[1] + (triad ? '' : '7')));
+    if (!chord) return null;
+    const position = (triad ? TRIAD_FIGURES : SEVENTH_FIGURES).indexOf(figure[2]);
+    const tone = chordIntervals(chord)[position + 1];
+    if (tone === undefined) return null;
+    return { ...chord, bass: degreeNote(noteName(chord.root), FIGURE_DEGREES[position], tone - FIGURE_SEMITONES[position]) };
+  }
+  return parseChord(romanChordText(root, numeral, rest));
+};
+
+const parseNashville = (text: string, keySignature: string): Chord | null => {
+  const match = text.match(new RegExp(`^${ACCIDENTAL_PATTERN}([1-7])(.*?)(?:/${ACCIDENTAL_PATTERN}([1-7]))?$`));
+  if (!match) return null;
+  const [, accidental, number, suffix, bassAccidental, bassNumber] = match;
+  const root = degreeNote(keySignature, parseInt(number) - 1, accidentalAlter(accidental));
+  const bass = bassNumber ? '/' + noteName(degreeNote(keySignature, parseInt(bassNumber) - 1, accidentalAlter(bassAccidental))) : '';
+  return parseChord(noteName(root) + suffix.replace(/^\((\d[^)]*)\)/, '$1') + bass);
+};
+
+// "V7/V", "V6" or "5/7" in a key -> the chord; null if the text isn't in that notation
+export const numeralToChord = (text: string, keySignature: string, notation: Exclude<ChordNotation, 'letters'>): Chord | null =>
+  notation === 'roman' ? parseRoman(text, keySignature) : parseNashville(text, keySignature);
+
+// A stored cell as shown in `notation`; tokens that aren't chords are left for the grid to flag
+export const cellToNotation = (cell: string, keySignature: string, notation: ChordNotation): string => {
+  if (notation === 'letters') return cell;
+  return mapCellTokens(cell, token => {
+    const chord = parseChord(token);
+    return chord ? chordToNumeral(chord, keySignature, notation) : token;
+  });
+};
+
+// Text typed in `notation` back to letter names. Letter-name chords are accepted as they are, and
+// a numeral that reads the same as a chord of `original` (the cell before the edit) keeps that
+// chord's symbol, so editing one chord doesn't respell the others (Bm7b5 stays Bm7b5, not Bø7).
+export const cellFromNotation = (text: string, keySignature: string, notation: ChordNotation, original = ''): string => {
+  if (notation === 'letters') return text;
+  const kept = new Map<string, string>();
+  original.split(/\s+/).forEach(token => {
+    const chord = parseChord(token);
+    const numeral = chord && chordToNumeral(chord, keySignature, notation);
+    if (numeral && !kept.has(numeral)) kept.set(numeral, token);
+  });
+  return mapCellTokens(text, token => {
+    if (kept.has(token)) return kept.get(token)!;
+    const chord = numeralToChord(token, keySignature, notation);
+    return chord ? formatChord(chord) : token;
+  });
+};
+
+// Keeps every chord on its scale degree when the key of the chart changes: the numerals stay and
+// the letters follow ("ii7 V7" reads Dm7 G7 in C and Em7 A7 in D). Suffixes are kept as written.
+export const cellToKey = (cell: string, fromKey: string, toKey: string): string => {
+  const move = (note: NoteSpelling) => {
+    const { degree, alter } = noteDegree(note, fromKey);
+    return degreeNote(toKey, degree, alter);
+  };
+  return mapCellChords(cell, chord => ({ ...chord, root: move(chord.root), bass: chord.bass && move(chord.bass) }));
+};
@@ -0,0 +1,148 @@
+import * as Tone from 'tone';
+import { EqBand, EqBandType, EqPreset } from '../types';
+
+// Multi-band parametric EQ built from biquad filters, plus the math to draw its response.
+
+export const EQ_MIN_FREQ = 20;
+export const EQ_MAX_FREQ = 20000;
+export const EQ_MAX_GAIN = 18;
+
+export const EQ_BAND_TYPES: { value: EqBandType; label: string }[] = [
+  { value: 'peaking', label: 'Campana' },
+  { value: 'lowshelf', label: 'Shelf graves' },
+  { value: 'highshelf', label: 'Shelf agudos' },
+  { value: 'highpass', label: 'Pasa altos' },
+  { value: 'lowpass', label: 'Pasa bajos' },
+];
+
+// Crossovers of the Tone.EQ3 used by projects saved before the parametric EQ
+const EQ3_LOW_FREQ = 400;
+const EQ3_HIGH_FREQ = 2500;
+
+export interface LegacyEqParams {
+  eqLow?: number;
+  eqMid?: number;
+  eqHigh?: number;
+}
+
+export const createBand = (type: EqBandType, frequency: number, gain = 0, q = 1): EqBand => ({
+  id: crypto.randomUUID(),
+  type,
+  frequency,
+  gain,
+  q,
+});
+
+// Equivalent bands for the old three-band EQ values
+export const bandsFromEq3 = (low: number, mid: number, high: number): EqBand[] => [
+  createBand('lowshelf', EQ3_LOW_FREQ, low),
+  createBand('peaking', Math.sqrt(EQ3_LOW_FREQ * EQ3_HIGH_FREQ), mid, 0.5),
+  createBand('highshelf', EQ3_HIGH_FREQ, high),
+];
+
+export const BUILT_IN_EQ_PRESETS: EqPreset[] = [
+  { id: 'flat', name: 'Plano', bands: bandsFromEq3(0, 0, 0), builtIn: true },
+  { id: 'bass', name: 'Bajo', bands: bandsFromEq3(8, -4, -12), builtIn: true },
+  { id: 'voice', name: 'Voz', bands: bandsFromEq3(-12, 6, 2), builtIn: true },
+  { id: 'detail', name: 'Detalle', bands: bandsFromEq3(-6, 0, 8), builtIn: true },
+];
+
+// Fresh ids so edits to the project's bands never touch the preset
+export const clonePresetBands = (preset: EqPreset): EqBand[] => preset.bands.map(b => ({ ...b, id: crypto.randomUUID() }));
+
+// Biquad coefficients (Audio EQ Cookbook, with the conventions of the Web Audio BiquadFilterNode)
+const biquad = (band: EqBand, sampleRate: number) => {
+  const w0 = (2 * Math.PI * band.frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const sin = Math.sin(w0);
+  const A = Math.pow(10, band.gain / 40);
+
+  switch (band.type) {
+    case 'peaking': {
+      const alpha = sin / (2 * band.q);
+      return [1 + alpha * A, -2 * cos, 1 - alpha * A, 1 + alpha / A, -2 * cos, 1 - alpha / A];
+    }
+    case 'lowshelf':
+    case 'highshelf': {
+      const alpha = sin / Math.SQRT2; // Shelf slope S = 1
+      const sqA = 2 * Math.sqrt(A) * alpha;
+      const sign = band.type === 'lowshelf' ? 1 : -1;
+      return [
+        A * ((A + 1) - sign * (A - 1) * cos + sqA),
+        sign * 2 * A * ((A - 1) - sign * (A + 1) * cos),
+        A * ((A + 1) - sign * (A - 1) * cos - sqA),
+        (A + 1) + sign * (A - 1) * cos + sqA,
+        -sign * 2 * ((A - 1) + sign * (A + 1) * cos),
+        (A + 1) + sign * (A - 1) * cos - sqA,
+      ];
+    }
+    case 'lowpass':
+    case 'highpass': {
+      const alpha = sin / (2 * band.q);
+      const b1 = band.type === 'lowpass' ? 1 - cos : -(1 + cos);
+      const b0 = Math.abs(b1) / 2;
+      return [b0, b1, b0, 1 + alpha, -2 * cos, 1 - alpha];
+    }
+  }
+};
+
+// Combined response of all bands at `freq`, in dB
+export const eqResponseDb = (bands: EqBand[], freq: number, sampleRate: number): number => {
+  const w = (2 * Math.PI * freq) / sampleRate;
+  const c1 = Math.cos(w), s1 = Math.sin(w);
+  const c2 = Math.cos(2 * w), s2 = Math.sin(2 * w);
+  let db = 0;
+  for (const band of bands) {
+    const [b0, b1, b2, a0, a1, a2] = biquad(band, sampleRate);
+    const numRe = b0 + b1 * c1 + b2 * c2, numIm = -(b1 * s1 + b2 * s2);
+    const denRe = a0 + a1 * c1 + a2 * c2, denIm = -(a1 * s1 + a2 * s2);
+    const mag = Math.sqrt((numRe * numRe + numIm * numIm) / (denRe * denRe + denIm * denIm));
+    db += 20 * Math.log10(mag || 1e-9);
+  }
+  return db;
+};
+
+export interface ParametricEq {
+  input: Tone.Gain;
+  output: Tone.Gain;
+  update: (bands: EqBand[]) => void;
+  dispose: () => void;
+}
+
+export const createParametricEq = (bands: EqBand[]): ParametricEq => {
+  const input = new Tone.Gain();
+  const output = new Tone.Gain();
+  let filters: Tone.Filter[] = [];
+  let layout = ''; // Band types in order; the chain is rebuilt only when this changes
+
+  const applyBand = (filter: Tone.Filter, band: EqBand) => {
+    filter.frequency.value = band.frequency;
+    filter.gain.value = band.gain;
+    // The Web Audio pass filters take their resonance in dB
+    filter.Q.value = band.type === 'lowpass' || band.type === 'highpass' ? 20 * Math.log10(band.q) : band.q;
+  };
+
+  const update = (next: EqBand[]) => {
+    const nextLayout = next.map(b => b.type).join(',');
+    if (nextLayout !== layout) {
+      input.disconnect();
+      filters.forEach(f => f.dispose());
+      filters = next.map(b => new Tone.Filter({ type: b.type, rolloff: -12 }));
+      input.chain(...filters, output);
+      layout = nextLayout;
+    }
+    next.forEach((band, i) => applyBand(filters[i], band));
+  };
+  update(bands);
+
+  return {
+    input,
+    output,
+    update,
+    dispose: () => {
+      filters.forEach(f => f.dispose());
+      input.dispose();
+      output.dispose();
+    }
+  };
+};
@@ -0,0 +1,167 @@
+// Multi-resolution waveform envelope. Level 0 summarizes every BASE_SAMPLES samples of each signal
+// with its min, max and RMS; each further level halves the resolution, so drawing at any zoom
+// reads at most about two peaks per pixel instead of the raw samples. Stereo audio also gets the
+// mid and side signals, so the timeline can show the mono sum or reveal hard-panned parts.
+
+const BASE_SAMPLES = 128;
+const MIN_LEVEL_LENGTH = 16; // Stop halving once a level is this short
+export const PEAKS_FORMAT = 2; // Bumped when cached peaks must be recomputed
+
+export type WaveformDisplay = 'mono' | 'lr' | 'ms';
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array[]; // One array per signal
+  max: Float32Array[];
+  rms: Float32Array[];
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  length: number; // Samples per channel
+  channelCount: number; // Signals are the channels, followed by mid and side for stereo audio
+  levels: PeakLevel[]; // Finest first
+}
+
+export interface PeakRow {
+  label: string;
+  signal: number;
+}
+
+export interface PeaksRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface PeaksResponse {
+  result?: WaveformPeaks;
+  error?: string;
+}
+
+export interface PeakSpan {
+  min: number;
+  max: number;
+  rms: number;
+}
+
+const baseLevel = (signals: Float32Array[]): PeakLevel => {
+  const count = Math.ceil(signals[0].length / BASE_SAMPLES);
+  const level: PeakLevel = { samplesPerPeak: BASE_SAMPLES, min: [], max: [], rms: [] };
+  for (const data of signals) {
+    const min = new Float32Array(count), max = new Float32Array(count), rms = new Float32Array(count);
+    for (let p = 0; p < count; p++) {
+      const end = Math.min(data.length, (p + 1) * BASE_SAMPLES);
+      let lo = Infinity, hi = -Infinity, sum = 0;
+      for (let i = p * BASE_SAMPLES; i < end; i++) {
+        const v = data[i];
+        if (v < lo) lo = v;
+        if (v > hi) hi = v;
+        sum += v * v;
+      }
+      min[p] = lo;
+      max[p] = hi;
+      rms[p] = Math.sqrt(sum / (end - p * BASE_SAMPLES));
+    }
+    level.min.push(min);
+    level.max.push(max);
+    level.rms.push(rms);
+  }
+  return level;
+};
+
+// Half the resolution of `level`: pairs of peaks merge
+const halveLevel = (level: PeakLevel): PeakLevel => {
+  const next: PeakLevel = { samplesPerPeak: level.samplesPerPeak * 2, min: [], max: [], rms: [] };
+  level.min.forEach((min, c) => {
+    const max = level.max[c], rms = level.rms[c];
+    const count = Math.ceil(min.length / 2);
+    const nMin = new Float32Array(count), nMax = new Float32Array(count), nRms = new Float32Array(count);
+    for (let p = 0; p < count; p++) {
+      const a = 2 * p, b = Math.min(min.length - 1, a + 1);
+      nMin[p] = Math.min(min[a], min[b]);
+      nMax[p] = Math.max(max[a], max[b]);
+      nRms[p] = Math.sqrt((rms[a] * rms[a] + rms[b] * rms[b]) / 2);
+    }
+    next.min.push(nMin);
+    next.max.push(nMax);
+    next.rms.push(nRms);
+  });
+  return next;
+};
+
+export const computePeaks = ({ channels, sampleRate }: PeaksRequest): WaveformPeaks => {
+  const signals = [...channels];
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const mid = new Float32Array(left.length), side = new Float32Array(left.length);
+    for (let i = 0; i < left.length; i++) {
+      mid[i] = (left[i] + right[i]) / 2;
+      side[i] = (left[i] - right[i]) / 2;
+    }
+    signals.push(mid, side);
+  }
+
+  const levels = [baseLevel(signals)];
+  while (levels[levels.length - 1].min[0].length > MIN_LEVEL_LENGTH) {
+    levels.push(halveLevel(levels[levels.length - 1]));
+  }
+  return { sampleRate, length: channels[0].length, channelCount: channels.length, levels };
+};
+
+// Signals to stack for a display mode; audio that isn't stereo always shows its first channel
+export const peakRows = (peaks: WaveformPeaks, display: WaveformDisplay): PeakRow[] => {
+  if (peaks.channelCount !== 2) return [{ label: '', signal: 0 }];
+  switch (display) {
+    case 'lr': return [{ label: 'L', signal: 0 }, { label: 'R', signal: 1 }];
+    case 'ms': return [{ label: 'M', signal: 2 }, { label: 'S', signal: 3 }];
+    default: return [{ label: '', signal: 2 }];
+  }
+};
+
+// Every typed array of the pyramid, for transferring it out of a worker
+export const peakBuffers = (peaks: WaveformPeaks): ArrayBuffer[] =>
+  peaks.levels.flatMap(l => [...l.min, ...l.max, ...l.rms].map(a => a.buffer as ArrayBuffer));
+
+// The coarsest level that still has at least one peak per `samplesPerPixel`
+export const pickLevel = (peaks: WaveformPeaks, samplesPerPixel: number): PeakLevel => {
+  let chosen = peaks.levels[0];
+  for (const level of peaks.levels) {
+    if (level.samplesPerPeak > samplesPerPixel) break;
+    chosen = level;
+  }
+  return chosen;
+};
+
+// Envelope of samples [start, end) on `signals` (all of them merged); null outside the audio
+export const peakSpan = (level: PeakLevel, signals: number[], start: number, end: number): PeakSpan | null => {
+  const length = level.min[0].length;
+  const first = Math.max(0, Math.floor(start / level.samplesPerPeak));
+  const last = Math.min(length, Math.max(first + 1, Math.ceil(end / level.samplesPerPeak)));
+  if (first >= length || last <= 0 || end <= 0) return null;
+
+  let min = Infinity, max = -Infinity, power = 0, count = 0;
+  for (const c of signals) {
+    const mins = level.min[c], maxs = level.max[c], rmss = level.rms[c];
+    for (let p = first; p < last; p++) {
+      if (mins[p] < min) min = mins[p];
+      if (maxs[p] > max) max = maxs[p];
+      power += rmss[p] * rmss[p];
+      count++;
+    }
+  }
+  return { min, max, rms: Math.sqrt(power / count) };
+};
+
+// Cheap identity of an audio buffer for caching its peaks: shape plus a hash of spread-out samples
+export const audioFingerprint = (channels: { numberOfChannels: number; sampleRate: number; length: number; getChannelData: (c: number) => Float32Array }): string => {
+  let hash = 2166136261;
+  for (let c = 0; c < channels.numberOfChannels; c++) {
+    const data = channels.getChannelData(c);
+    const step = Math.max(1, Math.floor(data.length / 4096));
+    for (let i = 0; i < data.length; i += step) {
+      hash ^= Math.round(data[i] * 32767) & 0xffff;
+      hash = Math.imul(hash, 16777619) >>> 0;
+    }
+  }
+  return `${channels.length}:${channels.sampleRate}:${channels.numberOfChannels}:${hash.toString(16)}`;
+};
@@ -0,0 +1,11 @@
+import { computePeaks, peakBuffers, PeaksRequest, PeaksResponse } from './peaks';
+
+self.onmessage = (e: MessageEvent<PeaksRequest>) => {
+  let response: PeaksResponse;
+  try {
+    response = { result: computePeaks(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response, { transfer: response.result ? peakBuffers(response.result) : [] });
+};
@@ -0,0 +1,178 @@
+import { fft } from './fft';
+
+// Offline phase vocoder used by the high-quality (pre-rendered) stretch mode.
+// Phases are propagated on the mid signal with identity phase locking around spectral peaks,
+// reset on transients so attacks stay sharp, and applied to every channel as a rotation so the
+// stereo image is preserved. Pitch is shifted by stretching and then resampling.
+// The analysis hop may also follow a time map, which warps one recording onto another's timeline.
+
+const FRAME_SIZE = 4096;
+const SYNTHESIS_HOP = FRAME_SIZE / 4;
+const TRANSIENT_RATIO = 1.6;  // Flux above this multiple of the recent average is an onset
+const TRANSIENT_HISTORY = 8;
+const MIN_TRANSIENT_FLUX = 0.15;
+
+export interface StretchRenderRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  speed: number; // Source seconds per output second
+  pitch: number; // Frequency ratio
+}
+
+export interface StretchRenderResponse {
+  result?: Float32Array[];
+  error?: string;
+}
+
+const wrapPhase = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+
+// Hermite interpolation of `signal` at fractional index `pos`
+const cubicSample = (signal: Float32Array, pos: number) => {
+  const i = Math.floor(pos);
+  const t = pos - i;
+  const y0 = signal[i - 1] ?? 0, y1 = signal[i] ?? 0, y2 = signal[i + 1] ?? 0, y3 = signal[i + 2] ?? 0;
+  const c1 = 0.5 * (y2 - y0);
+  const c2 = y0 - 2.5 * y1 + 2 * y2 - 0.5 * y3;
+  const c3 = 0.5 * (y3 - y0) + 1.5 * (y1 - y2);
+  return ((c3 * t + c2) * t + c1) * t + y1;
+};
+
+// Overlap-adds `frameCount` frames, one every SYNTHESIS_HOP output samples, each analysed around
+// input sample `positionOf(frame)`
+const vocode = (channels: Float32Array[], frameCount: number, positionOf: (frame: number) => number): Float32Array[] => {
+  const N = FRAME_SIZE;
+  const bins = N / 2 + 1;
+  const inputLength = channels[0].length;
+  const stretchedLength = Math.ceil(frameCount * SYNTHESIS_HOP) + N;
+
+  const window = new Float32Array(N);
+  for (let i = 0; i < N; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / N);
+  const normalization = 1 / 1.5; // Sum of squared Hann windows at 75% overlap
+
+  const mid = new Float32Array(inputLength);
+  channels.forEach(ch => { for (let i = 0; i < inputLength; i++) mid[i] += ch[i] / channels.length; });
+
+  const stretched = channels.map(() => new Float32Array(stretchedLength));
+  const re = new Float32Array(N), im = new Float32Array(N);
+  const mag = new Float32Array(bins), phase = new Float32Array(bins);
+  const prevMag = new Float32Array(bins), prevPhase = new Float32Array(bins);
+  const synthPhase = new Float32Array(bins);
+  const rotCos = new Float32Array(bins), rotSin = new Float32Array(bins);
+  const fluxHistory: number[] = [];
+  let prevPosition = 0;
+
+  const loadFrame = (signal: Float32Array, start: number) => {
+    for (let i = 0; i < N; i++) {
+      const idx = start + i;
+      re[i] = idx >= 0 && idx < inputLength ? signal[idx] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+  };
+
+  for (let f = 0; f < frameCount; f++) {
+    const position = positionOf(f);
+    const start = position - N / 2;
+
+    // 1. Analyse the mid signal
+    loadFrame(mid, start);
+    let flux = 0, total = 0;
+    for (let k = 0; k < bins; k++) {
+      mag[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+      phase[k] = Math.atan2(im[k], re[k]);
+      flux += Math.max(0, mag[k] - prevMag[k]);
+      total += mag[k];
+    }
+    flux = total > 0 ? flux / total : 0;
+    const recent = fluxHistory.length ? fluxHistory.reduce((a, b) => a + b, 0) / fluxHistory.length : Infinity;
+    const isTransient = f === 0 || (flux > MIN_TRANSIENT_FLUX && flux > recent * TRANSIENT_RATIO);
+    fluxHistory.push(flux);
+    if (fluxHistory.length > TRANSIENT_HISTORY) fluxHistory.shift();
+
+    // 2. Propagate phases (identity phase locking), or reset them on a transient
+    if (isTransient) {
+      synthPhase.set(phase);
+    } else {
+      const hop = position - prevPosition;
+      const peaks: number[] = [];
+      for (let k = 1; k < bins - 1; k++) {
+        if (mag[k] > mag[k - 1] && mag[k] >= mag[k + 1]) peaks.push(k);
+      }
+      if (peaks.length === 0) peaks.push(0);
+
+      const peakPhase = new Map<number, number>();
+      for (const k of peaks) {
+        const omega = (2 * Math.PI * k) / N;
+        const deviation = wrapPhase(phase[k] - prevPhase[k] - omega * hop);
+        const instFreq = omega + (hop > 0 ? deviation / hop : 0);
+        peakPhase.set(k, synthPhase[k] + instFreq * SYNTHESIS_HOP);
+      }
+
+      // Every bin follows the peak whose region it belongs to
+      let p = 0;
+      for (let k = 0; k < bins; k++) {
+        while (p + 1 < peaks.length && Math.abs(peaks[p + 1] - k) < Math.abs(peaks[p] - k)) p++;
+        const peak = peaks[p];
+        synthPhase[k] = peakPhase.get(peak)! + (phase[k] - phase[peak]);
+      }
+    }
+
+    for (let k = 0; k < bins; k++) {
+      synthPhase[k] = wrapPhase(synthPhase[k]);
+      const rotation = synthPhase[k] - phase[k];
+      rotCos[k] = Math.cos(rotation);
+      rotSin[k] = Math.sin(rotation);
+    }
+    prevMag.set(mag);
+    prevPhase.set(phase);
+    prevPosition = position;
+
+    // 3. Rotate each channel's spectrum and overlap-add
+    const outStart = Math.round(f * SYNTHESIS_HOP);
+    channels.forEach((channel, c) => {
+      loadFrame(channel, start);
+      for (let k = 0; k < bins; k++) {
+        const r = re[k] * rotCos[k] - im[k] * rotSin[k];
+        const i = re[k] * rotSin[k] + im[k] * rotCos[k];
+        re[k] = r;
+        im[k] = -i; // Conjugate for the inverse transform
+        if (k > 0 && k < N / 2) {
+          re[N - k] = r;
+          im[N - k] = i;
+        }
+      }
+      fft(re, im);
+      const out = stretched[c];
+      for (let i = 0; i < N; i++) {
+        const idx = outStart + i;
+        if (idx < stretchedLength) out[idx] += (re[i] / N) * window[i] * normalization;
+      }
+    });
+  }
+
+  return stretched;
+};
+
+export const renderStretched = ({ channels, speed, pitch }: StretchRenderRequest): Float32Array[] => {
+  const alpha = pitch / speed; // Time scale before resampling
+  const analysisHop = SYNTHESIS_HOP / alpha;
+  const inputLength = channels[0].length;
+  const frameCount = Math.ceil(inputLength / analysisHop) + 1;
+  const stretched = vocode(channels, frameCount, f => Math.round(f * analysisHop));
+
+  // Resample to apply the pitch ratio; frame f's center (input N/2 offset) sits at output f * hop + N/2
+  const outputLength = Math.floor(inputLength / speed);
+  return stretched.map(signal => {
+    const out = new Float32Array(outputLength);
+    for (let j = 0; j < outputLength; j++) out[j] = cubicSample(signal, j * pitch + FRAME_SIZE / 2);
+    return out;
+  });
+};
+
+// Renders `length` output samples whose content at output second t is the input at second
+// inputTimeAt(t), keeping the pitch. Used to lay a recording onto another one's timeline.
+export const renderWarped = (channels: Float32Array[], sampleRate: number, inputTimeAt: (time: number) => number, length: number): Float32Array[] => {
+  const frameCount = Math.ceil(length / SYNTHESIS_HOP) + 1;
+  const stretched = vocode(channels, frameCount, f => Math.round(inputTimeAt((f * SYNTHESIS_HOP) / sampleRate) * sampleRate));
+  return stretched.map(signal => signal.slice(FRAME_SIZE / 2, FRAME_SIZE / 2 + length));
+};
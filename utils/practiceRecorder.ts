@@ -0,0 +1,74 @@
+import * as Tone from 'tone';
+
+// Microphone capture for practice takes. The raw input is recorded with MediaRecorder; processing
+// meant for calls (echo cancellation, noise suppression, AGC) is turned off so the take sounds
+// like the instrument and isn't ducked by the playback.
+
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface PracticeTake {
+  blob: Blob;
+  extension: string;
+}
+
+// Seconds between the context scheduling a sample and that moment coming back through the mic
+export const roundTripLatency = (inputLatency: number): number => {
+  const raw = Tone.getContext().rawContext as AudioContext;
+  return inputLatency + (raw.outputLatency || 0) + (raw.baseLatency || 0);
+};
+
+export class PracticeRecorder {
+  readonly inputLatency: number; // Seconds reported by the input device, 0 when unknown
+  private readonly stream: MediaStream;
+  private readonly recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+
+  static async open(): Promise<PracticeRecorder> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    });
+    return new PracticeRecorder(stream);
+  }
+
+  private constructor(stream: MediaStream) {
+    this.stream = stream;
+    const settings = stream.getAudioTracks()[0]?.getSettings() as MediaTrackSettings & { latency?: number };
+    this.inputLatency = settings?.latency ?? 0;
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    this.recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.recorder.ondataavailable = (e) => { if (e.data.size > 0) this.chunks.push(e.data); };
+  }
+
+  // Resolves with the context time the first recorded sample was captured
+  start(): Promise<number> {
+    this.chunks = [];
+    return new Promise((resolve, reject) => {
+      this.recorder.onstart = () => resolve(Tone.immediate());
+      this.recorder.onerror = () => reject(new Error('Recording failed'));
+      this.recorder.start();
+    });
+  }
+
+  stop(): Promise<PracticeTake> {
+    return new Promise((resolve) => {
+      this.recorder.onstop = () => {
+        const type = this.recorder.mimeType || 'audio/webm';
+        resolve({
+          blob: new Blob(this.chunks, { type }),
+          extension: type.includes('ogg') ? 'ogg' : type.includes('mp4') ? 'm4a' : 'webm'
+        });
+        this.close();
+      };
+      this.recorder.stop();
+    });
+  }
+
+  // Releases the microphone
+  close() {
+    if (this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.stream.getTracks().forEach(track => track.stop());
+  }
+}
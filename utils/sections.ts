@@ -0,0 +1,143 @@
+import { Measure, Section } from '../types';
+import { SECTION_COLORS } from '../constants';
+import { MeasureSpan } from './grid';
+
+// Song sections over runs of measures. Sections never overlap, and they follow their measures
+// when measures are inserted, deleted, duplicated or moved, so every edit of the measure list
+// that changes indices goes through the helpers here.
+
+export interface RehearsalMark {
+  measure: number; // Measure index the mark is on
+  name: string;
+  color: string | null;
+}
+
+const byStart = (sections: Section[]) => [...sections].sort((a, b) => a.start - b.start);
+
+const reindex = (measures: Measure[]): Measure[] => measures.map((m, i) => ({ ...m, index: i + 1 }));
+
+// Rehearsal-style default names: A, B, C...
+const nextName = (sections: Section[]) => {
+  for (let i = 0; ; i++) {
+    const name = i < 26 ? String.fromCharCode(65 + i) : `${String.fromCharCode(65 + (i % 26))}${Math.floor(i / 26) + 1}`;
+    if (!sections.some(s => s.name === name)) return name;
+  }
+};
+
+export const sectionAt = (sections: Section[], index: number): Section | undefined =>
+  sections.find(s => index >= s.start && index <= s.end);
+
+export const sectionMeasureIndices = (section: Section): number[] =>
+  Array.from({ length: section.end - section.start + 1 }, (_, i) => section.start + i);
+
+// New section over measures first..last; the sections it overlaps are replaced
+export const addSection = (sections: Section[], first: number, last: number): Section[] => {
+  const kept = sections.filter(s => s.end < first || s.start > last);
+  const section: Section = {
+    id: crypto.randomUUID(),
+    name: nextName(kept),
+    color: SECTION_COLORS[kept.length % SECTION_COLORS.length],
+    start: first,
+    end: last,
+    repeats: 1
+  };
+  return byStart([...kept, section]);
+};
+
+// `count` measures inserted before measure `at`: later sections move, a section the new
+// measures land inside grows
+export const insertIntoSections = (sections: Section[], at: number, count: number): Section[] =>
+  sections.map(s => {
+    if (s.start >= at) return { ...s, start: s.start + count, end: s.end + count };
+    if (s.end >= at) return { ...s, end: s.end + count };
+    return s;
+  });
+
+// Measure `index` deleted: sections around it shrink, a section left without measures goes away
+export const removeFromSections = (sections: Section[], index: number): Section[] =>
+  sections
+    .filter(s => s.start !== index || s.end !== index)
+    .map(s => ({
+      ...s,
+      start: s.start > index ? s.start - 1 : s.start,
+      end: s.end >= index ? s.end - 1 : s.end
+    }));
+
+// Copies of the measures at `indices` inserted after the last of them, with copies of the
+// sections they fully cover
+export const duplicateMeasures = (measures: Measure[], sections: Section[], indices: number[]) => {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const last = sorted[sorted.length - 1];
+  const block = measures.filter(m => sorted.includes(m.index));
+
+  const list = [...measures];
+  list.splice(last, 0, ...block.map(m => ({ ...m, index: 0 })));
+
+  const copies = sections
+    .filter(s => sectionMeasureIndices(s).every(i => sorted.includes(i)))
+    .map(s => ({
+      ...s,
+      id: crypto.randomUUID(),
+      start: last + 1 + sorted.indexOf(s.start),
+      end: last + 1 + sorted.indexOf(s.end)
+    }));
+
+  return {
+    measures: reindex(list),
+    sections: byStart([...insertIntoSections(sections, last + 1, block.length), ...copies]),
+    copied: Array.from({ length: block.length }, (_, i) => last + 1 + i)
+  };
+};
+
+// Swaps a section's measures with the block next to it: the neighbouring section, or a single
+// measure outside any section. Null when the section is already at that end of the song.
+export const moveSection = (measures: Measure[], sections: Section[], id: string, direction: -1 | 1) => {
+  const section = sections.find(s => s.id === id);
+  if (!section) return null;
+  const edge = direction < 0 ? section.start - 1 : section.end + 1;
+  if (edge < 1 || edge > measures.length) return null;
+  const neighbour = sectionAt(sections, edge) ?? { start: edge, end: edge };
+
+  const [first, second] = direction < 0 ? [neighbour, section] : [section, neighbour];
+  const firstLength = first.end - first.start + 1;
+  const secondLength = second.end - second.start + 1;
+  const reordered = reindex([
+    ...measures.slice(0, first.start - 1),
+    ...measures.slice(second.start - 1, second.end),
+    ...measures.slice(first.start - 1, first.end),
+    ...measures.slice(second.end)
+  ]);
+
+  const moved = sections.map(s => {
+    if (s.start >= first.start && s.end <= first.end) return { ...s, start: s.start + secondLength, end: s.end + secondLength };
+    if (s.start >= second.start && s.end <= second.end) return { ...s, start: s.start - firstLength, end: s.end - firstLength };
+    return s;
+  });
+  return { measures: reordered, sections: byStart(moved) };
+};
+
+// Time range of a section on the grid; measures past the end of the grid are left out
+export const sectionSpan = (section: Section, layout: MeasureSpan[]): { start: number; end: number } | null => {
+  const first = layout[section.start - 1];
+  const last = layout[Math.min(section.end, layout.length) - 1];
+  if (!first || !last) return null;
+  return { start: first.start, end: last.start + last.duration };
+};
+
+// Sections read from a score's rehearsal marks. `ends` holds the measures whose closing barline
+// (a backward repeat or a double barline) can end a section, with the times it's played. Each
+// section runs to the first of those after its mark, or until the next mark when there is none.
+export const sectionsFromMarks = (marks: RehearsalMark[], measureCount: number, ends: Map<number, number>): Section[] =>
+  marks.map((mark, i) => {
+    const limit = i + 1 < marks.length ? marks[i + 1].measure - 1 : measureCount;
+    const closing = [...ends.keys()].filter(m => m >= mark.measure && m <= limit);
+    const end = closing.length > 0 ? Math.min(...closing) : limit;
+    return {
+      id: crypto.randomUUID(),
+      name: mark.name,
+      color: mark.color ?? SECTION_COLORS[i % SECTION_COLORS.length],
+      start: mark.measure,
+      end,
+      repeats: ends.get(end) ?? 1
+    };
+  }).filter(s => s.end >= s.start);
@@ -0,0 +1,92 @@
+import { downmix, hannWindow, magnitudeSpectrum } from './fft';
+
+// Log-frequency spectrogram and chromagram for display, quantized to bytes.
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 256; // ~23 ms, a few pixels per frame at the highest zoom
+const MIN_MIDI = 28;  // E1, lowest string of a bass
+const MAX_MIDI = 100; // E7
+const DYNAMIC_RANGE_DB = 70;
+const SILENCE_RATIO = 0.02; // Chroma frames quieter than this (relative to the loudest) fade out
+
+export const SPECTROGRAM_MIN_MIDI = MIN_MIDI;
+
+export interface SpectrogramRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface SpectralData {
+  spectrogram: Uint8Array; // frameCount * binCount, one row per semitone from MIN_MIDI upward
+  chroma: Uint8Array;      // frameCount * 12, pitch classes from C
+  binCount: number;
+  frameCount: number;
+  hopSeconds: number;      // Frame f is centered at f * hopSeconds
+}
+
+export interface SpectrogramResponse {
+  result?: SpectralData;
+  error?: string;
+}
+
+export const computeSpectralData = ({ channels, sampleRate }: SpectrogramRequest): SpectralData => {
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_RATE));
+  const rate = sampleRate / factor;
+  const signal = downmix(channels, factor);
+  const window = hannWindow(FRAME_SIZE);
+
+  // FFT bin range covered by each semitone row (at least one bin)
+  const binCount = MAX_MIDI - MIN_MIDI + 1;
+  const ranges = Array.from({ length: binCount }, (_, row) => {
+    const freq = 440 * Math.pow(2, (MIN_MIDI + row - 69) / 12);
+    const lo = Math.round((freq * Math.pow(2, -1 / 24) * FRAME_SIZE) / rate);
+    const hi = Math.round((freq * Math.pow(2, 1 / 24) * FRAME_SIZE) / rate);
+    return [Math.max(1, lo), Math.max(lo, hi, 1)];
+  });
+
+  const frameCount = Math.max(1, Math.ceil(signal.length / HOP_SIZE));
+  const rows = new Float32Array(frameCount * binCount);
+  const energy = new Float32Array(frameCount);
+  const mags = new Float32Array(FRAME_SIZE / 2);
+  let peak = 0;
+
+  for (let f = 0; f < frameCount; f++) {
+    // Center the window on f * HOP_SIZE
+    magnitudeSpectrum(signal, f * HOP_SIZE - FRAME_SIZE / 2, window, mags);
+    for (let row = 0; row < binCount; row++) {
+      const [lo, hi] = ranges[row];
+      let max = 0;
+      for (let k = lo; k <= hi && k < mags.length; k++) if (mags[k] > max) max = mags[k];
+      rows[f * binCount + row] = max;
+      energy[f] += max * max;
+      if (max > peak) peak = max;
+    }
+  }
+
+  const spectrogram = new Uint8Array(frameCount * binCount);
+  const peakDb = 20 * Math.log10(peak || 1);
+  for (let i = 0; i < rows.length; i++) {
+    const db = 20 * Math.log10(rows[i] || 1e-9);
+    const level = (db - (peakDb - DYNAMIC_RANGE_DB)) / DYNAMIC_RANGE_DB;
+    spectrogram[i] = Math.round(255 * Math.min(1, Math.max(0, level)));
+  }
+
+  // Fold the semitone rows into pitch classes, normalized per frame
+  const chroma = new Uint8Array(frameCount * 12);
+  const loudest = energy.reduce((a, b) => Math.max(a, b), 0) || 1;
+  const pcs = new Float32Array(12);
+  for (let f = 0; f < frameCount; f++) {
+    pcs.fill(0);
+    for (let row = 0; row < binCount; row++) {
+      const v = rows[f * binCount + row];
+      pcs[(MIN_MIDI + row) % 12] += v * v;
+    }
+    const max = Math.max(...pcs);
+    if (max === 0) continue;
+    const presence = Math.min(1, energy[f] / (loudest * SILENCE_RATIO));
+    for (let p = 0; p < 12; p++) chroma[f * 12 + p] = Math.round(255 * presence * Math.sqrt(pcs[p] / max));
+  }
+
+  return { spectrogram, chroma, binCount, frameCount, hopSeconds: HOP_SIZE / rate };
+};
@@ -0,0 +1,11 @@
+import { computeSpectralData, SpectrogramRequest, SpectrogramResponse } from './spectrogram';
+
+self.onmessage = (e: MessageEvent<SpectrogramRequest>) => {
+  let response: SpectrogramResponse;
+  try {
+    response = { result: computeSpectralData(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
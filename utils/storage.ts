@@ -1,17 +1,25 @@
 
-import { GridConfig, Measure, Marker, ProcessingParams, ProjectMeta } from '../types';
+import { GridConfig, Measure, Marker, Section, ProcessingParams, ProjectMeta, SpeedTrainer, EqPreset, AudioTrack } from '../types';
+import { PRIMARY_TRACK_ID } from '../constants';
+import { WaveformPeaks } from './peaks';
 
 const DB_NAME = 'EscuchameDB';
-const DB_VERSION = 2; // Incremented version for new store
+const DB_VERSION = 5; // v4: audio is keyed per track, v5: waveform peaks cache
 const STORE_AUDIO = 'audio';
 const STORE_STATE = 'state';
 const STORE_META = 'meta';
+const STORE_EQ_PRESETS = 'eqPresets'; // User EQ presets, shared by all projects
+const STORE_PEAKS = 'peaks'; // Waveform peaks keyed by audio fingerprint, shared by all projects
+const MAX_CACHED_PEAKS = 8; // About 10 MB each for a 5-minute stereo song
 
 export interface PersistedState {
   measures: Measure[];
   gridConfig: GridConfig;
   markers: Marker[];
-  params: ProcessingParams;
+  sections?: Section[]; // Missing in projects saved before sections existed
+  params: ProcessingParams; // Older saves carry eqLow/eqMid/eqHigh instead of eqBands
+  trainer?: SpeedTrainer; // Missing in projects saved before the speed trainer existed
+  tracks?: AudioTrack[]; // Missing in single-track projects saved before tracks existed
   fileName: string;
   timestamp: number;
 }
@@ -32,7 +40,21 @@ const openDB = (): Promise<IDBDatabase> => {
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
       if (!db.objectStoreNames.contains(STORE_AUDIO)) {
-        db.createObjectStore(STORE_AUDIO); // Key is projectId
+        db.createObjectStore(STORE_AUDIO); // Key is [projectId, trackId]
+      } else if (event.oldVersion < 4) {
+        // Audio used to be keyed by projectId alone: it becomes the project's primary track
+        const store = request.transaction!.objectStore(STORE_AUDIO);
+        const keysRequest = store.getAllKeys();
+        keysRequest.onsuccess = () => {
+          for (const key of keysRequest.result) {
+            if (Array.isArray(key)) continue;
+            const getRequest = store.get(key);
+            getRequest.onsuccess = () => {
+              store.put(getRequest.result, [key, PRIMARY_TRACK_ID]);
+              store.delete(key);
+            };
+          }
+        };
       }
       if (!db.objectStoreNames.contains(STORE_STATE)) {
         db.createObjectStore(STORE_STATE); // Key is projectId
@@ -40,10 +62,19 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(STORE_META)) {
         db.createObjectStore(STORE_META, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(STORE_EQ_PRESETS)) {
+        db.createObjectStore(STORE_EQ_PRESETS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_PEAKS)) {
+        db.createObjectStore(STORE_PEAKS, { keyPath: 'key' }).createIndex('savedAt', 'savedAt');
+      }
     };
   });
 };
 
+// Every audio key of a project
+const trackKeyRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
 // --- Meta Operations (Projects List) ---
 
 export const getProjects = async (): Promise<ProjectMeta[]> => {
@@ -53,8 +84,9 @@ export const getProjects = async (): Promise<ProjectMeta[]> => {
     const store = transaction.objectStore(STORE_META);
     const request = store.getAll();
     request.onsuccess = () => {
-        // Sort by lastOpened desc
-        const res = (request.result as ProjectMeta[]).sort((a,b) => b.lastOpened - a.lastOpened);
+        // Tab order: by creation, older projects without it by when they were last opened
+        const created = (p: ProjectMeta) => p.createdAt ?? p.lastOpened;
+        const res = (request.result as ProjectMeta[]).sort((a,b) => created(a) - created(b));
         resolve(res);
     };
     request.onerror = () => reject(request.error);
@@ -78,7 +110,7 @@ export const deleteProject = async (projectId: string) => {
         const t = db.transaction([STORE_META, STORE_AUDIO, STORE_STATE], 'readwrite');
         
         t.objectStore(STORE_META).delete(projectId);
-        t.objectStore(STORE_AUDIO).delete(projectId);
+        t.objectStore(STORE_AUDIO).delete(trackKeyRange(projectId));
         t.objectStore(STORE_STATE).delete(projectId);
         
         t.oncomplete = () => resolve();
@@ -86,9 +118,41 @@ export const deleteProject = async (projectId: string) => {
     });
 };
 
+// --- EQ Presets ---
+
+export const getEqPresets = async (): Promise<EqPreset[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_EQ_PRESETS, 'readonly');
+    const request = transaction.objectStore(STORE_EQ_PRESETS).getAll();
+    request.onsuccess = () => resolve((request.result as EqPreset[]).sort((a, b) => a.name.localeCompare(b.name)));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveEqPreset = async (preset: EqPreset) => {
+  const db = await openDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_EQ_PRESETS, 'readwrite');
+    const request = transaction.objectStore(STORE_EQ_PRESETS).put(preset);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteEqPreset = async (id: string) => {
+  const db = await openDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_EQ_PRESETS, 'readwrite');
+    const request = transaction.objectStore(STORE_EQ_PRESETS).delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
 // --- Audio & State Operations ---
 
-export const saveAudioToDB = async (file: File | Blob, fileName: string, projectId: string) => {
+export const saveAudioToDB = async (file: File | Blob, fileName: string, projectId: string, trackId: string = PRIMARY_TRACK_ID) => {
   const db = await openDB();
   return new Promise<void>((resolve, reject) => {
     const transaction = db.transaction(STORE_AUDIO, 'readwrite');
@@ -100,19 +164,19 @@ export const saveAudioToDB = async (file: File | Blob, fileName: string, project
       type: file.type
     };
 
-    const request = store.put(data, projectId);
+    const request = store.put(data, [projectId, trackId]);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
 
-export const loadAudioFromDB = async (projectId: string): Promise<PersistedAudio | null> => {
+export const loadAudioFromDB = async (projectId: string, trackId: string = PRIMARY_TRACK_ID): Promise<PersistedAudio | null> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_AUDIO, 'readonly');
     const store = transaction.objectStore(STORE_AUDIO);
-    const request = store.get(projectId);
+    const request = store.get([projectId, trackId]);
 
     request.onsuccess = () => {
       if (request.result) {
@@ -125,6 +189,16 @@ export const loadAudioFromDB = async (projectId: string): Promise<PersistedAudio
   });
 };
 
+export const deleteAudioFromDB = async (projectId: string, trackId: string) => {
+  const db = await openDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_AUDIO, 'readwrite');
+    const request = transaction.objectStore(STORE_AUDIO).delete([projectId, trackId]);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
 export const saveStateToDB = async (state: PersistedState, projectId: string) => {
   const db = await openDB();
   return new Promise<void>((resolve, reject) => {
@@ -151,10 +225,55 @@ export const loadStateFromDB = async (projectId: string): Promise<PersistedState
   });
 };
 
+// --- Waveform Peaks Cache ---
+
+// Reading an entry marks it as recently used, so eviction drops the least recently used ones
+export const loadPeaksFromDB = async (key: string): Promise<WaveformPeaks | null> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PEAKS, 'readwrite');
+    const store = transaction.objectStore(STORE_PEAKS);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      if (!request.result) return resolve(null);
+      store.put({ ...request.result, savedAt: Date.now() });
+      resolve(request.result.peaks as WaveformPeaks);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Stores the peaks of one audio file, dropping the least recently used entries beyond MAX_CACHED_PEAKS
+export const savePeaksToDB = async (key: string, peaks: WaveformPeaks) => {
+  const db = await openDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_PEAKS, 'readwrite');
+    const store = transaction.objectStore(STORE_PEAKS);
+    store.put({ key, peaks, savedAt: Date.now() });
+
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_CACHED_PEAKS;
+      if (excess <= 0) return;
+      const cursorRequest = store.index('savedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess-- <= 0) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 export const clearDB = async () => {
     const db = await openDB();
-    const t = db.transaction([STORE_AUDIO, STORE_STATE, STORE_META], 'readwrite');
+    const t = db.transaction([STORE_AUDIO, STORE_STATE, STORE_META, STORE_PEAKS], 'readwrite');
     t.objectStore(STORE_AUDIO).clear();
     t.objectStore(STORE_STATE).clear();
     t.objectStore(STORE_META).clear();
+    t.objectStore(STORE_PEAKS).clear();
 };
@@ -0,0 +1,99 @@
+import { WsolaStretcher, StretchLoop } from './wsola';
+
+// AudioWorklet side of the realtime stretch engine. The main thread sends the source audio
+// once and then start/stop/parameter messages; positions are in source seconds.
+
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+export type StretchWorkletMessage =
+  | { type: 'load'; channels: Float32Array[] }
+  | { type: 'start'; when: number; offset: number; stopAt: number | null }
+  | { type: 'stop'; when: number }
+  | { type: 'params'; rate: number; pitch: number; loop: boolean; loopStart: number; loopEnd: number };
+
+class StretchProcessor extends AudioWorkletProcessor {
+  private stretcher: WsolaStretcher | null = null;
+  private rate = 1;
+  private pitch = 1;
+  private loop: StretchLoop | null = null;
+  private playing = false;
+  private stopAt: number | null = null;      // Context time the current playback ends
+  private startAt: number | null = null;     // Context time the next playback begins
+  private startOffset = 0;
+  private startStopAt: number | null = null; // Stop time of the next playback
+
+  constructor() {
+    super();
+    this.port.onmessage = (e: MessageEvent<StretchWorkletMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'load') {
+        this.stretcher = new WsolaStretcher(msg.channels, sampleRate);
+        this.playing = false;
+      } else if (msg.type === 'start') {
+        // The current playback (if any) keeps going until the new one begins
+        this.startAt = msg.when;
+        this.startOffset = msg.offset;
+        this.startStopAt = msg.stopAt;
+      } else if (msg.type === 'stop') {
+        this.stopAt = msg.when;
+        if (this.startAt !== null) {
+          if (msg.when <= this.startAt) this.startAt = null;
+          else this.startStopAt = Math.min(this.startStopAt ?? Infinity, msg.when);
+        }
+      } else if (msg.type === 'params') {
+        this.rate = msg.rate;
+        this.pitch = msg.pitch;
+        this.loop = msg.loop ? { start: msg.loopStart * sampleRate, end: msg.loopEnd * sampleRate } : null;
+      }
+    };
+  }
+
+  private frameAt(time: number): number {
+    return Math.round((time - currentTime) * sampleRate);
+  }
+
+  // Renders the current playback into out[from .. to), honouring its stop time
+  private renderPlaying(out: Float32Array[], from: number, to: number) {
+    if (!this.playing || !this.stretcher) return;
+    if (this.stopAt !== null) {
+      const stopFrame = this.frameAt(this.stopAt);
+      if (stopFrame < to) {
+        to = Math.max(from, stopFrame);
+        this.playing = false;
+        this.stopAt = null;
+      }
+    }
+    this.stretcher.render(out, from, to, this.rate, this.pitch, this.loop);
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const out = outputs[0];
+    const blockSize = out[0].length;
+    out.forEach(channel => channel.fill(0));
+    if (!this.stretcher) return true;
+
+    if (this.startAt !== null) {
+      const startFrame = this.frameAt(this.startAt);
+      if (startFrame < blockSize) {
+        const from = Math.max(0, startFrame);
+        this.renderPlaying(out, 0, from);
+        this.stretcher.reset(this.startOffset * sampleRate, this.rate, this.pitch, this.loop);
+        this.playing = true;
+        this.stopAt = this.startStopAt;
+        this.startAt = null;
+        this.renderPlaying(out, from, blockSize);
+        return true;
+      }
+    }
+
+    this.renderPlaying(out, 0, blockSize);
+    return true;
+  }
+}
+
+registerProcessor('stretch-processor', StretchProcessor);
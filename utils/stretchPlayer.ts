@@ -0,0 +1,288 @@
+import * as Tone from 'tone';
+import workletUrl from './stretch.worklet.ts?worker&url';
+import type { StretchWorkletMessage } from './stretch.worklet';
+import { StretchRenderRequest, StretchRenderResponse } from './phaseVocoder';
+import { runWorker, copyChannels } from './workers';
+import { StretchMode } from '../types';
+
+// Time-stretching player with the subset of the Tone.GrainPlayer API the app uses
+// (start/stop with offsets, loop points, playbackRate, detune, volume), so it can stand in
+// for it. Realtime playback runs WSOLA in an AudioWorklet; in 'hq' mode a phase-vocoder
+// render of a region is played instead whenever it matches the current speed and pitch.
+
+export type StretchRenderState = 'idle' | 'rendering' | 'ready';
+
+type Engine = 'worklet' | 'rendered';
+
+interface RenderedRegion {
+  player: Tone.Player;
+  start: number; // Source seconds covered by the render
+  end: number;
+  speed: number;
+  detune: number;
+}
+
+const loadedContexts = new WeakSet<object>();
+const SWITCH_DELAY = 0.05; // Engines hand over slightly ahead so both can be scheduled
+
+// Registers the worklet processor on the current context (once per context)
+export const loadStretchWorklet = async () => {
+  const context = Tone.getContext();
+  if (loadedContexts.has(context.rawContext)) return;
+  await context.rawContext.audioWorklet!.addModule(workletUrl);
+  loadedContexts.add(context.rawContext);
+};
+
+export class StretchPlayer {
+  readonly buffer: Tone.ToneAudioBuffer;
+  readonly volume: Tone.Param<'decibels'>;
+  onRenderStateChange: ((state: StretchRenderState) => void) | null = null;
+
+  private readonly output: Tone.Volume;
+  private readonly node: AudioWorkletNode;
+  private rendered: RenderedRegion | null = null;
+  private renderWorker: Worker | null = null;
+  private engine: Engine | null = null;
+  private playing: { startTime: number; offset: number; stopAt: number | null } | null = null;
+  private _mode: StretchMode;
+  private _rate = 1;
+  private _detune = 0;
+  private _loop = false;
+  private _loopStart = 0;
+  private _loopEnd = 0;
+
+  static async create(buffer: Tone.ToneAudioBuffer, mode: StretchMode): Promise<StretchPlayer> {
+    await loadStretchWorklet();
+    return new StretchPlayer(buffer, mode);
+  }
+
+  private constructor(buffer: Tone.ToneAudioBuffer, mode: StretchMode) {
+    this.buffer = buffer;
+    this._mode = mode;
+    this._loopEnd = buffer.duration;
+    this.output = new Tone.Volume();
+    this.volume = this.output.volume;
+
+    this.node = Tone.getContext().createAudioWorkletNode('stretch-processor', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [buffer.numberOfChannels]
+    });
+    Tone.connect(this.node, this.output);
+
+    const channels = copyChannels(buffer);
+    this.post({ type: 'load', channels }, channels.map(c => c.buffer));
+    this.postParams();
+  }
+
+  // --- GrainPlayer-compatible surface ---
+
+  get playbackRate() { return this._rate; }
+  set playbackRate(rate: number) {
+    if (rate === this._rate) return;
+    this.rebase();
+    this._rate = rate;
+    this.postParams();
+    this.refreshEngine();
+  }
+
+  get detune() { return this._detune; }
+  set detune(cents: number) {
+    if (cents === this._detune) return;
+    this._detune = cents;
+    this.postParams();
+    this.refreshEngine();
+  }
+
+  get loop() { return this._loop; }
+  set loop(loop: boolean) {
+    if (loop === this._loop) return;
+    this._loop = loop;
+    this.postParams();
+    this.refreshEngine();
+  }
+
+  get loopStart() { return this._loopStart; }
+  set loopStart(time: number) {
+    if (time === this._loopStart) return;
+    this._loopStart = time;
+    this.postParams();
+    this.refreshEngine();
+  }
+
+  get loopEnd() { return this._loopEnd; }
+  set loopEnd(time: number) {
+    if (time === this._loopEnd) return;
+    this._loopEnd = time;
+    this.postParams();
+    this.refreshEngine();
+  }
+
+  get mode() { return this._mode; }
+  set mode(mode: StretchMode) {
+    if (mode === this._mode) return;
+    this._mode = mode;
+    this.refreshEngine();
+  }
+
+  // `duration` is in context seconds, like GrainPlayer
+  start(time?: number, offset: number = 0, duration?: number) {
+    const when = time ?? Tone.now();
+    this.stopEngines(when);
+    this.playing = { startTime: when, offset, stopAt: duration !== undefined ? when + duration : null };
+    this.startEngine(when, offset);
+  }
+
+  stop(time?: number) {
+    this.stopEngines(time ?? Tone.now());
+    this.playing = null;
+  }
+
+  connect(destination: Tone.InputNode): this {
+    this.output.connect(destination);
+    return this;
+  }
+
+  dispose() {
+    this.stop();
+    this.renderWorker?.terminate();
+    this.rendered?.player.dispose();
+    this.node.disconnect();
+    this.node.port.close();
+    this.output.dispose();
+  }
+
+  // --- High-quality rendering ---
+
+  // Renders [start, end) offline for the current speed and pitch; playback switches to it once ready
+  async render(start: number, end: number): Promise<void> {
+    const speed = this._rate;
+    const detune = this._detune;
+    const r = this.rendered;
+    if (r && r.start === start && r.end === end && r.speed === speed && r.detune === detune) return;
+
+    this.renderWorker?.terminate();
+    const worker = new Worker(new URL('./stretchRender.worker.ts', import.meta.url), { type: 'module' });
+    this.renderWorker = worker;
+    this.onRenderStateChange?.('rendering');
+
+    const channels = copyChannels(this.buffer, start, end);
+    const response = await runWorker<StretchRenderRequest, StretchRenderResponse>(
+      worker,
+      { channels, sampleRate: this.buffer.sampleRate, speed, pitch: Math.pow(2, detune / 1200) },
+      channels.map(c => c.buffer)
+    );
+    if (this.renderWorker !== worker) return; // Superseded by a newer render
+    this.renderWorker = null;
+
+    if (!response.result) {
+      this.onRenderStateChange?.('idle');
+      throw new Error(response.error || 'Render failed');
+    }
+
+    const audio = Tone.getContext().createBuffer(response.result.length, response.result[0].length, this.buffer.sampleRate);
+    response.result.forEach((data, c) => audio.copyToChannel(data, c));
+    const player = new Tone.Player(new Tone.ToneAudioBuffer(audio)).connect(this.output);
+
+    if (this.engine === 'rendered') this.switchEngine(); // Hand the old render back to the worklet first
+    this.rendered?.player.dispose();
+    this.rendered = { player, start, end, speed, detune };
+    this.onRenderStateChange?.('ready');
+    this.refreshEngine();
+  }
+
+  // --- Internals ---
+
+  private post(message: StretchWorkletMessage, transfer: Transferable[] = []) {
+    this.node.port.postMessage(message, transfer);
+  }
+
+  private postParams() {
+    this.post({
+      type: 'params',
+      rate: this._rate,
+      pitch: Math.pow(2, this._detune / 1200),
+      loop: this._loop,
+      loopStart: this._loopStart,
+      loopEnd: this._loopEnd
+    });
+  }
+
+  private positionAt(time: number): number {
+    const playing = this.playing!;
+    let pos = playing.offset + Math.max(0, time - playing.startTime) * this._rate;
+    const loopLength = this._loopEnd - this._loopStart;
+    if (this._loop && loopLength > 0 && pos >= this._loopEnd) {
+      pos = this._loopStart + ((pos - this._loopStart) % loopLength);
+    }
+    return pos;
+  }
+
+  // Restarts the position clock at "now", e.g. before the rate changes
+  private rebase() {
+    if (!this.playing) return;
+    const now = Tone.now();
+    this.playing.offset = this.positionAt(now);
+    this.playing.startTime = Math.max(now, this.playing.startTime);
+  }
+
+  private canUseRendered(offset: number): boolean {
+    const r = this.rendered;
+    if (this._mode !== 'hq' || !r) return false;
+    if (r.speed !== this._rate || r.detune !== this._detune) return false;
+    if (offset < r.start || offset >= r.end) return false;
+    return !this._loop || (this._loopStart >= r.start && this._loopEnd <= r.end);
+  }
+
+  private startEngine(when: number, offset: number) {
+    const stopAt = this.playing?.stopAt ?? null;
+
+    if (!this.canUseRendered(offset)) {
+      this.engine = 'worklet';
+      this.post({ type: 'start', when, offset, stopAt });
+      return;
+    }
+
+    const r = this.rendered!;
+    const toRendered = (pos: number) => (pos - r.start) / r.speed;
+    r.player.loop = this._loop;
+    if (this._loop) {
+      r.player.loopStart = toRendered(this._loopStart);
+      r.player.loopEnd = toRendered(this._loopEnd);
+    }
+    r.player.start(when, toRendered(offset));
+    this.engine = 'rendered';
+
+    // Without a loop, hand over to the worklet where the render ends
+    const handover = this._loop ? null : when + (r.end - offset) / this._rate;
+    const end = handover !== null && (stopAt === null || handover < stopAt) ? handover : stopAt;
+    if (end !== null) r.player.stop(end);
+    if (handover !== null && end === handover && r.end < this.buffer.duration) {
+      this.post({ type: 'start', when: handover, offset: r.end, stopAt });
+    }
+  }
+
+  private stopEngines(when: number) {
+    this.post({ type: 'stop', when });
+    this.rendered?.player.stop(when);
+    this.engine = null;
+  }
+
+  private switchEngine() {
+    if (!this.playing) return;
+    const when = Tone.now() + SWITCH_DELAY;
+    if (this.playing.stopAt !== null && when >= this.playing.stopAt) return;
+    const offset = this.positionAt(when);
+    this.stopEngines(when);
+    this.playing.startTime = when;
+    this.playing.offset = offset;
+    this.startEngine(when, offset);
+  }
+
+  // Moves playback to the engine that should be playing with the current settings
+  private refreshEngine() {
+    if (!this.playing || this.engine === null) return;
+    const wanted: Engine = this.canUseRendered(this.positionAt(Tone.now() + SWITCH_DELAY)) ? 'rendered' : 'worklet';
+    if (wanted !== this.engine || this.engine === 'rendered') this.switchEngine();
+  }
+}
@@ -0,0 +1,11 @@
+import { renderStretched, StretchRenderRequest, StretchRenderResponse } from './phaseVocoder';
+
+self.onmessage = (e: MessageEvent<StretchRenderRequest>) => {
+  let response: StretchRenderResponse;
+  try {
+    response = { result: renderStretched(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response, { transfer: response.result?.map(c => c.buffer) ?? [] });
+};
@@ -0,0 +1,18 @@
+// Taps further apart than this start a new tapping run
+const MAX_TAP_GAP = 2.5;
+
+// Median interval between the taps of the latest uninterrupted run (seconds), or null
+export const estimateTapInterval = (taps: number[]): number | null => {
+  const sorted = [...taps].sort((a, b) => a - b);
+  let runStart = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i] - sorted[i - 1] > MAX_TAP_GAP) runStart = i;
+  }
+
+  const intervals: number[] = [];
+  for (let i = runStart + 1; i < sorted.length; i++) intervals.push(sorted[i] - sorted[i - 1]);
+  if (intervals.length === 0) return null;
+
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+};
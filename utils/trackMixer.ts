@@ -0,0 +1,242 @@
+import * as Tone from 'tone';
+import { AudioTrack, StretchMode } from '../types';
+import { StretchPlayer, StretchRenderState, loadStretchWorklet } from './stretchPlayer';
+import { createParametricEq, ParametricEq } from './parametricEq';
+
+// Plays every track of a project in sync. Exposes the same surface as StretchPlayer, in timeline
+// seconds, so the transport code drives a whole project like a single player; each track maps
+// timeline positions onto its own audio through its offset. Practice takes also run at the speed
+// and pitch they were recorded against, so they follow the player relative to those settings.
+
+interface TrackVoice {
+  track: AudioTrack;
+  player: StretchPlayer;
+  eq: ParametricEq;
+  gain: Tone.Volume;
+  renderState: StretchRenderState;
+}
+
+const RESYNC_DELAY = 0.05; // Voices added or shifted during playback join slightly ahead of now
+
+// Mute wins; while any track is soloed only soloed tracks play
+export const isTrackAudible = (track: AudioTrack, tracks: AudioTrack[]) =>
+  !track.mute && (track.solo || !tracks.some(t => t.solo));
+
+// Timeline seconds covered by one second of the track's audio
+const trackSpeed = (track: AudioTrack) => track.recordedAt?.speed ?? 1;
+
+// Position in the track's own audio that sits at timeline position `time`
+const toTrackTime = (track: AudioTrack, time: number) => (time - track.offset) / trackSpeed(track);
+
+export class MultiTrackPlayer {
+  readonly buffer: Tone.ToneAudioBuffer; // Reference track, defines the timeline length
+  readonly volume: Tone.Param<'decibels'>;
+  onRenderStateChange: ((state: StretchRenderState) => void) | null = null;
+
+  private readonly output: Tone.Volume;
+  private voices = new Map<string, TrackVoice>();
+  private updateVersion = 0;
+  private playing: { startTime: number; offset: number; stopAt: number | null } | null = null;
+  private _mode: StretchMode;
+  private _rate = 1;
+  private _detune = 0;
+  private _loop = false;
+  private _loopStart = 0;
+  private _loopEnd = 0;
+
+  static async create(buffer: Tone.ToneAudioBuffer, mode: StretchMode): Promise<MultiTrackPlayer> {
+    await loadStretchWorklet();
+    return new MultiTrackPlayer(buffer, mode);
+  }
+
+  private constructor(buffer: Tone.ToneAudioBuffer, mode: StretchMode) {
+    this.buffer = buffer;
+    this._mode = mode;
+    this._loopEnd = buffer.duration;
+    this.output = new Tone.Volume();
+    this.volume = this.output.volume;
+  }
+
+  // Brings the voices in line with the track list: creates, removes and reconfigures them.
+  // `buffers` holds the decoded audio per track id; tracks without audio stay silent.
+  async setTracks(tracks: AudioTrack[], buffers: Record<string, Tone.ToneAudioBuffer | undefined>) {
+    const version = ++this.updateVersion;
+
+    for (const [id, voice] of this.voices) {
+      if (!tracks.some(t => t.id === id && buffers[id] === voice.player.buffer)) this.removeVoice(id);
+    }
+
+    for (const track of tracks) {
+      const buffer = buffers[track.id];
+      if (!buffer) continue;
+
+      let voice = this.voices.get(track.id);
+      if (!voice) {
+        const player = await StretchPlayer.create(buffer, this._mode);
+        if (version !== this.updateVersion || this.voices.has(track.id)) {
+          player.dispose(); // Superseded by a newer update
+          continue;
+        }
+        voice = this.addVoice(track, player);
+      }
+
+      const shifted = voice.track.offset !== track.offset;
+      voice.track = track;
+      voice.gain.volume.value = track.gain;
+      voice.gain.mute = !isTrackAudible(track, tracks);
+      voice.eq.update(track.eqBands);
+      if (shifted) {
+        this.applyLoop(voice);
+        this.resync(voice);
+      }
+    }
+  }
+
+  // Silences every track, e.g. to hear the chord chart alone
+  get mute() { return this.output.mute; }
+  set mute(mute: boolean) { this.output.mute = mute; }
+
+  // --- StretchPlayer-compatible surface ---
+
+  get playbackRate() { return this._rate; }
+  set playbackRate(rate: number) {
+    this.rebase();
+    this._rate = rate;
+    this.voices.forEach(v => { v.player.playbackRate = rate / trackSpeed(v.track); });
+  }
+
+  get detune() { return this._detune; }
+  set detune(cents: number) {
+    this._detune = cents;
+    this.voices.forEach(v => { v.player.detune = cents - (v.track.recordedAt?.detune ?? 0); });
+  }
+
+  get loop() { return this._loop; }
+  set loop(loop: boolean) {
+    this._loop = loop;
+    this.voices.forEach(v => { v.player.loop = loop; });
+  }
+
+  get loopStart() { return this._loopStart; }
+  set loopStart(time: number) {
+    this._loopStart = time;
+    this.voices.forEach(v => this.applyLoop(v));
+  }
+
+  get loopEnd() { return this._loopEnd; }
+  set loopEnd(time: number) {
+    this._loopEnd = time;
+    this.voices.forEach(v => this.applyLoop(v));
+  }
+
+  get mode() { return this._mode; }
+  set mode(mode: StretchMode) {
+    this._mode = mode;
+    this.voices.forEach(v => { v.player.mode = mode; });
+  }
+
+  start(time?: number, offset: number = 0, duration?: number) {
+    const when = time ?? Tone.now();
+    this.playing = { startTime: when, offset, stopAt: duration !== undefined ? when + duration : null };
+    this.voices.forEach(v => v.player.start(when, toTrackTime(v.track, offset), duration));
+  }
+
+  stop(time?: number) {
+    this.playing = null;
+    this.voices.forEach(v => v.player.stop(time));
+  }
+
+  connect(destination: Tone.InputNode): this {
+    this.output.connect(destination);
+    return this;
+  }
+
+  dispose() {
+    this.updateVersion++;
+    [...this.voices.keys()].forEach(id => this.removeVoice(id));
+    this.output.dispose();
+  }
+
+  // Pre-renders [start, end) of the timeline on every track
+  async render(start: number, end: number): Promise<void> {
+    await Promise.all([...this.voices.values()].map(v => {
+      const from = Math.max(0, toTrackTime(v.track, start));
+      const to = Math.min(v.player.buffer.duration, toTrackTime(v.track, end));
+      return to > from ? v.player.render(from, to) : Promise.resolve();
+    }));
+  }
+
+  // --- Internals ---
+
+  private addVoice(track: AudioTrack, player: StretchPlayer): TrackVoice {
+    const eq = createParametricEq(track.eqBands);
+    const gain = new Tone.Volume(track.gain);
+    player.connect(eq.input);
+    eq.output.connect(gain);
+    gain.connect(this.output);
+
+    player.playbackRate = this._rate / trackSpeed(track);
+    player.detune = this._detune - (track.recordedAt?.detune ?? 0);
+    player.loop = this._loop;
+    player.mode = this._mode;
+
+    const voice: TrackVoice = { track, player, eq, gain, renderState: 'idle' };
+    player.onRenderStateChange = state => {
+      voice.renderState = state;
+      this.emitRenderState();
+    };
+    this.voices.set(track.id, voice);
+    this.applyLoop(voice);
+    this.resync(voice);
+    return voice;
+  }
+
+  private removeVoice(id: string) {
+    const voice = this.voices.get(id);
+    if (!voice) return;
+    voice.player.dispose();
+    voice.eq.dispose();
+    voice.gain.dispose();
+    this.voices.delete(id);
+    this.emitRenderState();
+  }
+
+  private applyLoop(voice: TrackVoice) {
+    voice.player.loopStart = toTrackTime(voice.track, this._loopStart);
+    voice.player.loopEnd = toTrackTime(voice.track, this._loopEnd);
+  }
+
+  // Rendering while any track renders, ready once every track is
+  private emitRenderState() {
+    const states = [...this.voices.values()].map(v => v.renderState);
+    const state: StretchRenderState = states.includes('rendering') ? 'rendering'
+      : states.length > 0 && states.every(s => s === 'ready') ? 'ready' : 'idle';
+    this.onRenderStateChange?.(state);
+  }
+
+  private positionAt(time: number): number {
+    const playing = this.playing!;
+    let pos = playing.offset + Math.max(0, time - playing.startTime) * this._rate;
+    const loopLength = this._loopEnd - this._loopStart;
+    if (this._loop && loopLength > 0 && pos >= this._loopEnd) {
+      pos = this._loopStart + ((pos - this._loopStart) % loopLength);
+    }
+    return pos;
+  }
+
+  private rebase() {
+    if (!this.playing) return;
+    const now = Tone.now();
+    this.playing.offset = this.positionAt(now);
+    this.playing.startTime = Math.max(now, this.playing.startTime);
+  }
+
+  // (Re)starts one voice where the others currently are
+  private resync(voice: TrackVoice) {
+    if (!this.playing) return;
+    const when = Math.max(Tone.now() + RESYNC_DELAY, this.playing.startTime);
+    const stopAt = this.playing.stopAt;
+    if (stopAt !== null && when >= stopAt) return;
+    voice.player.start(when, toTrackTime(voice.track, this.positionAt(when)), stopAt !== null ? stopAt - when : undefined);
+  }
+}
@@ -0,0 +1,77 @@
+import { downmix, hannWindow, magnitudeSpectrum } from './fft';
+
+// Reference tuning estimation: how far the recording's notes sit from the A440 equal-tempered grid.
+// Every prominent spectral peak votes with its deviation from the nearest semitone; the votes are
+// averaged on a circle (a note 49 cents sharp is almost the same as one 51 cents flat).
+
+const ANALYSIS_RATE = 22050;
+const FRAME_SIZE = 8192; // ~2.7 Hz bins before interpolation
+const HOP_SIZE = 4096;
+const MIN_FREQ = 80;
+const MAX_FREQ = 2000;
+const PEAK_RANGE = 0.03;      // Peaks weaker than this share of the frame's loudest are ignored
+const MIN_CONFIDENCE = 0.15;  // Below this the peaks don't agree on any tuning
+
+export interface TuningRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export interface TuningEstimate {
+  cents: number;      // Offset from A440, -50 to 50 (positive = sharp)
+  reference: number;  // Frequency of A4 in the recording
+  confidence: number; // 0..1, how consistently the peaks agree
+}
+
+export interface TuningResponse {
+  result?: TuningEstimate;
+  error?: string;
+}
+
+export const referenceForCents = (cents: number) => 440 * Math.pow(2, cents / 1200);
+
+export const estimateTuning = ({ channels, sampleRate }: TuningRequest): TuningEstimate => {
+  const factor = Math.max(1, Math.round(sampleRate / ANALYSIS_RATE));
+  const rate = sampleRate / factor;
+  const signal = downmix(channels, factor);
+  const window = hannWindow(FRAME_SIZE);
+  const mags = new Float32Array(FRAME_SIZE / 2);
+
+  const binHz = rate / FRAME_SIZE;
+  const minBin = Math.max(2, Math.floor(MIN_FREQ / binHz));
+  const maxBin = Math.min(FRAME_SIZE / 2 - 2, Math.ceil(MAX_FREQ / binHz));
+
+  let x = 0, y = 0, totalWeight = 0;
+  for (let start = 0; start + FRAME_SIZE <= signal.length || start === 0; start += HOP_SIZE) {
+    magnitudeSpectrum(signal, start, window, mags);
+
+    let loudest = 0;
+    for (let k = minBin; k <= maxBin; k++) if (mags[k] > loudest) loudest = mags[k];
+    if (loudest === 0) continue;
+
+    for (let k = minBin; k <= maxBin; k++) {
+      const v = mags[k];
+      if (v < loudest * PEAK_RANGE || v < mags[k - 1] || v < mags[k + 1]) continue;
+
+      // Parabolic interpolation on log magnitudes
+      const a = Math.log(mags[k - 1] + 1e-12), b = Math.log(v), c = Math.log(mags[k + 1] + 1e-12);
+      const denom = a - 2 * b + c;
+      const shift = denom !== 0 ? (0.5 * (a - c)) / denom : 0;
+      const freq = (k + shift) * binHz;
+
+      const cents = 1200 * Math.log2(freq / 440);
+      const angle = (2 * Math.PI * cents) / 100;
+      x += v * Math.cos(angle);
+      y += v * Math.sin(angle);
+      totalWeight += v;
+    }
+  }
+
+  if (totalWeight === 0) throw new Error('No pitched content found');
+
+  const confidence = Math.sqrt(x * x + y * y) / totalWeight;
+  if (confidence < MIN_CONFIDENCE) throw new Error('Tuning is ambiguous');
+
+  const cents = (Math.atan2(y, x) / (2 * Math.PI)) * 100;
+  return { cents, reference: referenceForCents(cents), confidence };
+};
@@ -0,0 +1,11 @@
+import { estimateTuning, TuningRequest, TuningResponse } from './tuning';
+
+self.onmessage = (e: MessageEvent<TuningRequest>) => {
+  let response: TuningResponse;
+  try {
+    response = { result: estimateTuning(e.data) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
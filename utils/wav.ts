@@ -0,0 +1,54 @@
+// PCM WAV encoding for audio exports
+
+export type WavBitDepth = 16 | 24;
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// Interleaves the channels into a little-endian PCM WAV file, with TPDF dither on 16-bit
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth): Blob => {
+  const numChannels = channels.length;
+  const length = channels[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);           // fmt chunk size
+  view.setUint16(20, 1, true);            // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const maxValue = Math.pow(2, bitDepth - 1) - 1;
+  const dither = bitDepth === 16 ? 1 / maxValue : 0;
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const noise = dither ? (Math.random() - Math.random()) * dither : 0;
+      const sample = Math.max(-1, Math.min(1, channels[c][i] + noise));
+      const value = Math.round(sample * maxValue);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,31 @@
+// Sends a single request to a freshly created worker and resolves with its reply.
+// The worker is terminated afterwards, so each analysis runs in its own thread.
+export const runWorker = <Req, Res>(worker: Worker, request: Req, transfer: Transferable[] = []): Promise<Res> => {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<Res>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(request, transfer);
+  });
+};
+
+// Copies of every channel of a buffer (optionally only the samples in [start, end) seconds),
+// safe to transfer to a worker
+export const copyChannels = (
+  buffer: { numberOfChannels: number; sampleRate: number; getChannelData: (channel: number) => Float32Array },
+  start?: number,
+  end?: number
+): Float32Array[] => {
+  const channels: Float32Array[] = [];
+  const from = start !== undefined ? Math.max(0, Math.floor(start * buffer.sampleRate)) : undefined;
+  const to = end !== undefined ? Math.floor(end * buffer.sampleRate) : undefined;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(buffer.getChannelData(c).slice(from, to));
+  }
+  return channels;
+};
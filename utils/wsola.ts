@@ -0,0 +1,129 @@
+// Streaming WSOLA (waveform-similarity overlap-add) time stretcher with pitch shifting.
+// Each grain is read from the source at `pitch` samples per output sample (shifting its pitch)
+// and grains advance through the source at `rate` samples per output sample (changing speed).
+// Grain positions are nudged within a small tolerance to line up with the waveform of the
+// previous grain, which avoids the phasing/smearing of plain granular playback.
+
+const FRAME_SECONDS = 0.046;     // Grain length
+const TOLERANCE_SECONDS = 0.012; // How far a grain may move to find the best alignment
+const SEARCH_STEP = 2;           // Candidate offsets tried (in samples)
+const CORRELATION_STEP = 4;      // Decimation of the similarity measure
+
+export interface StretchLoop {
+  start: number; // Source samples
+  end: number;
+}
+
+export class WsolaStretcher {
+  private readonly channels: Float32Array[];
+  private readonly frame: number;
+  private readonly hop: number;
+  private readonly tolerance: number;
+  private readonly window: Float32Array;
+  private readonly ola: Float32Array[];   // Overlap-add accumulator, one frame per channel
+  private readonly ready: Float32Array[]; // Finished output of the last grain, one hop per channel
+  private readyIndex: number;
+  private position = 0;                   // Nominal source position of the next grain
+  private previousStart: number | null = null;
+
+  constructor(channels: Float32Array[], sampleRate: number) {
+    this.channels = channels;
+    this.frame = Math.pow(2, Math.round(Math.log2(FRAME_SECONDS * sampleRate)));
+    this.hop = this.frame / 2;
+    this.tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+
+    // Periodic Hann: overlapping halves sum to exactly one
+    this.window = new Float32Array(this.frame);
+    for (let i = 0; i < this.frame; i++) this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / this.frame);
+
+    this.ola = channels.map(() => new Float32Array(this.frame));
+    this.ready = channels.map(() => new Float32Array(this.hop));
+    this.readyIndex = this.hop;
+  }
+
+  get length(): number {
+    return this.channels[0].length;
+  }
+
+  // Restarts output at `position` (source samples). One grain is rendered and dropped so the
+  // first audible sample is already fully overlapped instead of fading in.
+  reset(position: number, rate: number, pitch: number, loop: StretchLoop | null) {
+    this.ola.forEach(buf => buf.fill(0));
+    this.previousStart = null;
+    this.position = position - this.hop * rate;
+    this.synthesizeGrain(rate, pitch, loop);
+    this.readyIndex = this.hop;
+  }
+
+  // Fills out[c][from .. to) with stretched audio
+  render(out: Float32Array[], from: number, to: number, rate: number, pitch: number, loop: StretchLoop | null) {
+    for (let i = from; i < to; i++) {
+      if (this.readyIndex >= this.hop) this.synthesizeGrain(rate, pitch, loop);
+      for (let c = 0; c < out.length; c++) {
+        out[c][i] = this.ready[Math.min(c, this.ready.length - 1)][this.readyIndex];
+      }
+      this.readyIndex++;
+    }
+  }
+
+  private sample(channel: Float32Array, pos: number): number {
+    const i = Math.floor(pos);
+    if (i < 0 || i + 1 >= channel.length) return 0;
+    const frac = pos - i;
+    return channel[i] + (channel[i + 1] - channel[i]) * frac;
+  }
+
+  private monoSample(pos: number): number {
+    let sum = 0;
+    for (const channel of this.channels) sum += this.sample(channel, pos);
+    return sum;
+  }
+
+  // Offset in [-tolerance, tolerance] whose grain best continues the previous one
+  private findAlignment(pitch: number): number {
+    if (this.previousStart === null) return 0;
+    const natural = this.previousStart + this.hop * pitch;
+
+    const points = Math.floor(this.hop / CORRELATION_STEP);
+    const reference = new Float32Array(points);
+    for (let j = 0; j < points; j++) reference[j] = this.monoSample(natural + j * CORRELATION_STEP * pitch);
+
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+    for (let offset = -this.tolerance; offset <= this.tolerance; offset += SEARCH_STEP) {
+      const start = this.position + offset;
+      let score = 0;
+      for (let j = 0; j < points; j++) score += reference[j] * this.monoSample(start + j * CORRELATION_STEP * pitch);
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    return bestOffset;
+  }
+
+  private synthesizeGrain(rate: number, pitch: number, loop: StretchLoop | null) {
+    // Wrap around the loop, keeping the alignment reference continuous
+    if (loop && loop.end > loop.start && this.position >= loop.end) {
+      const loopLength = loop.end - loop.start;
+      this.position -= loopLength;
+      if (this.previousStart !== null) this.previousStart -= loopLength;
+    }
+
+    const start = this.position + this.findAlignment(pitch);
+    for (let c = 0; c < this.channels.length; c++) {
+      const channel = this.channels[c];
+      const acc = this.ola[c];
+      for (let j = 0; j < this.frame; j++) acc[j] += this.sample(channel, start + j * pitch) * this.window[j];
+
+      // The first hop is complete; shift the accumulator
+      this.ready[c].set(acc.subarray(0, this.hop));
+      acc.copyWithin(0, this.hop);
+      acc.fill(0, this.frame - this.hop);
+    }
+
+    this.previousStart = start;
+    this.position += this.hop * rate;
+    this.readyIndex = 0;
+  }
+}